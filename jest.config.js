@@ -2,6 +2,7 @@ module.exports = {
   testEnvironment: "node",
   transform: { "^.+\\.ts$": "ts-jest" },
   moduleFileExtensions: ["js", "mjs", "ts"],
+  testMatch: ["**/__tests__/**/*.test.ts"],
   transformIgnorePatterns: [],
   collectCoverageFrom: ["src/**/*.ts"],
   coverageDirectory: "./coverage",
@@ -0,0 +1,202 @@
+import type { ClientOptions } from "./client";
+import type { ResponseCache } from "./gateway/cache";
+import type { Credentials } from "./gateway/creds";
+import type { Gateway } from "./gateway/gateway";
+import type { ClientAuth } from "./gateway/oauth";
+import type { TokenStore } from "./gateway/token-store";
+import type { Maybe } from "./helper/types";
+
+import { Client } from "./client";
+import { SnootsError } from "./errors";
+import { PoolGateway } from "./gateway/pool";
+import { makeDebug } from "./helper/debug";
+
+const debug = makeDebug("class:ClientPool");
+
+/**
+ * Options for instantiating a ClientPool
+ */
+export interface ClientPoolOptions
+  extends Omit<ClientOptions, "auth" | "tokenStore"> {
+  /** The credentials of the Reddit app all accounts log in through. */
+  creds: Credentials;
+
+  /**
+   * The accounts in this pool, by a key of your choosing (like the username).
+   *
+   * Every account gets its own session, rate limit, and (if set) scheduler,
+   * write queue and cache. The rest of the options are shared.
+   */
+  accounts: Record<string, ClientAuth>;
+
+  /**
+   * The key of the account that sends writes and the reads that depend on the
+   * account, like {@link Client.me}. Defaults to the first account.
+   */
+  primary?: string;
+
+  /**
+   * Where to keep the OAuth token of each account between runs, by the same
+   * keys as {@link ClientPoolOptions.accounts}. See
+   * {@link ClientOptions.tokenStore} for more details.
+   *
+   * Accounts without a store only keep their token in memory.
+   */
+  tokenStores?: Record<string, TokenStore>;
+}
+
+function makeClients(options: ClientPoolOptions): Map<string, Client> {
+  const clients = new Map<string, Client>();
+  const { accounts, tokenStores = {}, ...clientOptions } = options;
+  for (const [key, auth] of Object.entries(accounts)) {
+    const tokenStore = tokenStores[key];
+    clients.set(key, new Client({ ...clientOptions, auth, tokenStore }));
+  }
+  return clients;
+}
+
+/**
+ * A client that acts on behalf of several accounts.
+ *
+ * A ClientPool has the same controls as a {@link Client}. Reads are sent by
+ * whichever account has the most rate limit left, so existing code can use a
+ * pool instead of a client to spread its requests out.
+ *
+ * Anything that depends on the account that sends it (writes,
+ * {@link Client.me}, and the moderator-only listings of a subreddit) is sent
+ * by the primary account. Use {@link ClientPool.account} to send it from
+ * another one.
+ *
+ * @example
+ * ```ts
+ * const pool = new ClientPool({
+ *   userAgent: '<your user agent>',
+ *   creds: { clientId: '<your client id>', clientSecret: '<your secret>' },
+ *   accounts: {
+ *     bot1: { refreshToken: '<the first token>' },
+ *     bot2: { refreshToken: '<the second token>' },
+ *   },
+ * });
+ *
+ * // Reading can be done by any account.
+ * const post = await pool.posts.fetch('abcdef');
+ *
+ * // Replies should come from a specific one.
+ * await pool.account('bot1').posts.reply(post.id, 'Hello!');
+ * ```
+ */
+export class ClientPool extends Client {
+  protected clients: Map<string, Client>;
+  protected primary: Client;
+
+  /**
+   * Make a new ClientPool.
+   *
+   * @param options The options to configure this pool with.
+   */
+  constructor(options: ClientPoolOptions) {
+    const clients = makeClients(options);
+    const gateways = new Map<string, Gateway>();
+    for (const [key, client] of clients) gateways.set(key, client.gateway);
+
+    const { userAgent, telemetry, primary = [...clients.keys()][0] } = options;
+    super(
+      options,
+      new PoolGateway(gateways, primary, userAgent, { telemetry })
+    );
+    this.clients = clients;
+    this.primary = this.account(primary);
+    debug("Created pool with accounts ['%s']", this.accounts.join("', '"));
+  }
+
+  /** The keys of the accounts in this pool. */
+  get accounts(): string[] {
+    return [...this.clients.keys()];
+  }
+
+  /**
+   * The response cache of the primary account.
+   *
+   * Every account has its own cache. Use {@link ClientPool.account} to get the
+   * cache of another one.
+   */
+  override get cache(): Maybe<ResponseCache> {
+    return this.primary.cache;
+  }
+
+  /**
+   * Get the refresh token of the primary account.
+   *
+   * Use {@link ClientPool.account} to get the refresh token of another one.
+   *
+   * @returns The refresh token, or `undefined` if there isn't one.
+   */
+  override getRefreshToken(): Maybe<string> {
+    return this.primary.getRefreshToken();
+  }
+
+  /**
+   * Get the scopes the primary account has authorized.
+   *
+   * Use {@link ClientPool.account} to get the scopes of another one.
+   *
+   * @returns The scopes, or `undefined` if the account hasn't logged in yet.
+   */
+  override getAuthorizedScopes(): Maybe<string[]> {
+    return this.primary.getAuthorizedScopes();
+  }
+
+  /**
+   * Revoke the access token of every account in this pool.
+   *
+   * @returns A promise that resolves when all tokens have been revoked.
+   */
+  override async revokeAccessToken(): Promise<void> {
+    await this.forEachAccount(client => client.revokeAccessToken());
+  }
+
+  /**
+   * Revoke the refresh token of every account in this pool.
+   *
+   * @returns A promise that resolves when all tokens have been revoked.
+   */
+  override async revokeRefreshToken(): Promise<void> {
+    await this.forEachAccount(client => client.revokeRefreshToken());
+  }
+
+  /**
+   * Log out every account in this pool.
+   *
+   * @returns A promise that resolves when every session has been revoked.
+   */
+  override async logout(): Promise<void> {
+    await this.forEachAccount(client => client.logout());
+  }
+
+  /**
+   * Get the client of a specific account.
+   *
+   * @param key The key of the account, as given in
+   * {@link ClientPoolOptions.accounts}.
+   *
+   * @returns The client.
+   */
+  account(key: string): Client {
+    const client = this.clients.get(key);
+    if (!client) throw new SnootsError(`No account '${key}' in this pool`);
+    return client;
+  }
+
+  /**
+   * Do something with the client of every account at the same time.
+   *
+   * @param action What to do with each client.
+   *
+   * @returns A promise that resolves when it's been done for every account.
+   */
+  protected async forEachAccount(
+    action: (client: Client) => Promise<void>
+  ): Promise<void> {
+    await Promise.all([...this.clients.values()].map(client => action(client)));
+  }
+}
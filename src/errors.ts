@@ -0,0 +1,120 @@
+/** The base class for all errors thrown by snoots. */
+export class SnootsError extends Error {
+  /** @internal */
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** The details of an error returned by Reddit. */
+export interface RedditErrorDetails {
+  /** The error code, like `SUBREDDIT_NOEXIST` or `invalid_grant`. */
+  code: string;
+
+  /** A human readable description of the error, if Reddit gave one. */
+  description?: string;
+
+  /** The name of the form field that caused the error, if any. */
+  field?: string;
+
+  /** The HTTP status code of the response, if known. */
+  status?: number;
+}
+
+/** An error returned by the Reddit API. */
+export class RedditApiError extends SnootsError implements RedditErrorDetails {
+  code: string;
+  description?: string;
+  field?: string;
+  status?: number;
+
+  /** @internal */
+  constructor(details: RedditErrorDetails) {
+    let message = `Reddit returned an error: ${details.code}`;
+    if (details.description) message += `: ${details.description}`;
+    super(message);
+
+    this.code = details.code;
+    this.description = details.description;
+    this.field = details.field;
+    this.status = details.status;
+  }
+}
+
+/** Reddit refused the request because the client lacks permission (403). */
+export class ForbiddenError extends RedditApiError {}
+
+/** The requested resource does not exist (404). */
+export class NotFoundError extends RedditApiError {}
+
+/** Reddit refused the request because of rate limiting. */
+export class RateLimitedError extends RedditApiError {
+  /**
+   * How long to wait before trying again, in milliseconds, if Reddit said.
+   */
+  retryAfter?: number;
+
+  /** @internal */
+  constructor(details: RedditErrorDetails, retryAfter?: number) {
+    super(details);
+    this.retryAfter = retryAfter;
+  }
+}
+
+/** The client could not be authenticated. */
+export class AuthError extends SnootsError {
+  /** The error code returned by Reddit, if any. */
+  code?: string;
+
+  /** The HTTP status code of the response, if any. */
+  status?: number;
+
+  /** @internal */
+  constructor(message: string, code?: string, status?: number) {
+    super(message);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/**
+ * The current session was not granted a scope needed for a request.
+ *
+ * This is only thrown when {@link ClientOptions.strictScopes} is enabled,
+ * before the request is sent.
+ */
+export class MissingScopeError extends AuthError {
+  /** The scopes that are needed but were not granted. */
+  missing: string[];
+
+  /** @internal */
+  constructor(missing: string[], path: string) {
+    const scopes = missing.map(scope => `'${scope}'`).join(", ");
+    super(`Missing OAuth scope ${scopes} needed for '${path}'`);
+    this.missing = missing;
+  }
+}
+
+/** Reddit returned something that snoots did not expect. */
+export class UnexpectedResponseError extends SnootsError {}
+
+/** An invalid kind of object */
+export class InvalidKindError extends UnexpectedResponseError {
+  /** @internal */
+  constructor(expected: string, got: string) {
+    super(`Expected '${expected}', got '${got}'`);
+  }
+}
+
+/** An operation was cancelled before it could complete. */
+export class AbortError extends SnootsError {}
+
+/** An operation was cancelled because it took too long. */
+export class TimeoutError extends AbortError {}
+
+/**
+ * A {@link ReplayGateway} or {@link FakeRedditGateway} was asked for a request
+ * it can't answer.
+ */
+export class UnmatchedRequestError extends SnootsError {}
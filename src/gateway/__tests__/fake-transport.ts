@@ -0,0 +1,113 @@
+import type { Data } from "../../helper/types";
+import type {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+} from "../transport/transport";
+import type { GatewayOptions } from "../types";
+
+import { AnonGateway } from "../anon";
+import { OauthGateway } from "../oauth";
+
+/**
+ * What a {@link FakeTransport} answers a request with: a response, an error to
+ * throw, or a function that works out the response from the request.
+ */
+export type FakeResponse =
+  | TransportResponse
+  | Error
+  | ((request: TransportRequest) => Promise<TransportResponse>);
+
+/**
+ * Make a response.
+ *
+ * @param body The body of the response. Strings are sent as they are,
+ * anything else as json.
+ * @param status The status code.
+ * @param headers The headers.
+ *
+ * @returns The response.
+ */
+export function reply(
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {}
+): TransportResponse {
+  const raw = typeof body === "string" ? body : JSON.stringify(body);
+  return { status, headers, body: raw };
+}
+
+/**
+ * Make the response to a request for an access token.
+ *
+ * @param token The fields of the token, like `access_token` and `scope`.
+ *
+ * @returns The response.
+ */
+export function tokenReply(token: Data): TransportResponse {
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  return reply({ token_type: "bearer", expires_in: 3600, ...token });
+}
+
+/** A transport that answers requests with queued responses. */
+export class FakeTransport implements Transport {
+  /** Every request that was made, in order. */
+  requests: TransportRequest[] = [];
+
+  /** The answers to the next requests, used up in order. */
+  responses: FakeResponse[];
+
+  /** The answer to requests once {@link responses} has run out. */
+  fallback: FakeResponse = reply({});
+
+  /**
+   * Make a new FakeTransport.
+   *
+   * @param responses The answers to the first requests.
+   */
+  constructor(...responses: FakeResponse[]) {
+    this.responses = responses;
+  }
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    this.requests.push(request);
+    const response = this.responses.shift() ?? this.fallback;
+    if (response instanceof Error) throw response;
+    return typeof response === "function" ? response(request) : response;
+  }
+}
+
+/**
+ * Make an anonymous gateway that sends its requests through a transport.
+ *
+ * @param transport The transport.
+ * @param options The other options of the gateway.
+ *
+ * @returns The gateway.
+ */
+export function makeGateway(
+  transport: Transport,
+  options: GatewayOptions = {}
+): AnonGateway {
+  return new AnonGateway("fake-user-agent", { ...options, transport });
+}
+
+/**
+ * Make an OAuth gateway for a script app that sends its requests through a
+ * transport.
+ *
+ * @param transport The transport.
+ * @param options The other options of the gateway.
+ *
+ * @returns The gateway.
+ */
+export function makeOauthGateway(
+  transport: Transport,
+  options: GatewayOptions = {}
+): OauthGateway {
+  const creds = { clientId: "cId", clientSecret: "cSecret" };
+  return new OauthGateway(undefined, creds, "fake-user-agent", {
+    ...options,
+    transport,
+  });
+}
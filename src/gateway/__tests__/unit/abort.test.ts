@@ -0,0 +1,110 @@
+import type { AnonGateway } from "../../anon";
+import type {
+  TransportRequest,
+  TransportResponse,
+} from "../../transport/transport";
+
+import { Client } from "../../../client";
+import { AbortError, TimeoutError } from "../../../errors";
+import { FakeReddit } from "../../fake/reddit";
+import { FakeTransport, makeGateway } from "../fake-transport";
+
+// Never answers, but gives up when the request is aborted.
+async function hang(request: TransportRequest): Promise<TransportResponse> {
+  return new Promise((_resolve, reject) => {
+    request.signal?.addEventListener("abort", () =>
+      reject(new Error("aborted"))
+    );
+  });
+}
+
+// Node 14 doesn't have AbortController, so only timeouts can be tested there.
+const describeWithSignals =
+  typeof AbortController === "undefined" ? describe.skip : describe;
+
+let transport: FakeTransport;
+let gateway: AnonGateway;
+
+beforeEach(() => {
+  transport = new FakeTransport();
+  transport.fallback = hang;
+  gateway = makeGateway(transport);
+});
+
+describe("Gateway cancellation", () => {
+  it("should time out requests that take too long", async () => {
+    const request = gateway.get("foo", {}, { timeout: 10 });
+
+    await expect(request).rejects.toStrictEqual(
+      new TimeoutError("The request to 'foo' timed out after 10ms")
+    );
+  });
+
+  it("should pass the options of control methods to the gateway", async () => {
+    const client = new Client({ userAgent: "fake" }, gateway);
+
+    const request = client.subreddits.fetch("test", { timeout: 10 });
+
+    await expect(request).rejects.toStrictEqual(
+      new TimeoutError("The request to 'r/test/about' timed out after 10ms")
+    );
+  });
+});
+
+describeWithSignals("Gateway cancellation with signals", () => {
+  it("should abort requests that time out", async () => {
+    const request = gateway.get("foo", {}, { timeout: 10 });
+
+    await expect(request).rejects.toBeInstanceOf(TimeoutError);
+    expect(transport.requests[0].signal?.aborted).toBe(true);
+  });
+
+  it("should not send requests that were already cancelled", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const request = gateway.post("foo", {}, {}, { signal: controller.signal });
+
+    await expect(request).rejects.toStrictEqual(
+      new AbortError("The request to 'foo' was cancelled")
+    );
+    expect(transport.requests).toHaveLength(0);
+  });
+
+  it("should cancel requests that are in flight", async () => {
+    const controller = new AbortController();
+
+    const request = gateway.get("foo", {}, { signal: controller.signal });
+    await new Promise(resolve => setImmediate(resolve));
+    controller.abort();
+
+    await expect(request).rejects.toBeInstanceOf(AbortError);
+    expect(transport.requests[0].signal?.aborted).toBe(true);
+  });
+});
+
+describeWithSignals("Listing cancellation", () => {
+  it("should stop iterating once the signal is aborted", async () => {
+    const reddit = new FakeReddit();
+    reddit.addUser("someone");
+    reddit.addSubreddit("test");
+    for (let index = 0; index < 30; index++) {
+      reddit.addPost("test", "someone", { title: `${index}` });
+    }
+    const client = new Client({ userAgent: "fake" }, reddit.gateway("someone"));
+    const controller = new AbortController();
+    const seen: string[] = [];
+
+    const listing = client.subreddits.getNewPosts("test");
+
+    const iteration = (async () => {
+      for await (const post of listing.iterate({ signal: controller.signal })) {
+        seen.push(post.title);
+        if (seen.length === 3) controller.abort();
+      }
+    })();
+
+    await expect(iteration).rejects.toBeInstanceOf(AbortError);
+    expect(seen).toHaveLength(3);
+  });
+});
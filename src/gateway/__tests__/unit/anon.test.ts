@@ -1,5 +1,6 @@
 import nock from "nock";
 
+import { RedditApiError } from "../../../errors";
 import { AnonGateway } from "../../anon";
 
 let gateway: AnonGateway;
@@ -50,7 +51,7 @@ describe("AnonGateway", () => {
 
         const request = gateway.get("foo/bar", {});
         await expect(request).rejects.toStrictEqual(
-          new Error("Reddit returned an error: whoops")
+          new RedditApiError({ code: "whoops" })
         );
 
         n.done();
@@ -67,7 +68,10 @@ describe("AnonGateway", () => {
 
         const request = gateway.get("foo/bar", {});
         await expect(request).rejects.toStrictEqual(
-          new Error("Reddit returned an error: whoops: something went wrong :(")
+          new RedditApiError({
+            code: "whoops",
+            description: "something went wrong :(",
+          })
         );
 
         n.done();
@@ -107,7 +111,7 @@ describe("AnonGateway", () => {
 
         const request = gateway.post("foo/bar", { bar: "foo" }, {});
         await expect(request).rejects.toStrictEqual(
-          new Error("Reddit returned an error: whoops")
+          new RedditApiError({ code: "whoops" })
         );
 
         n.done();
@@ -124,7 +128,10 @@ describe("AnonGateway", () => {
 
         const request = gateway.post("foo/bar", { bar: "foo" }, {});
         await expect(request).rejects.toStrictEqual(
-          new Error("Reddit returned an error: whoops: something went wrong :(")
+          new RedditApiError({
+            code: "whoops",
+            description: "something went wrong :(",
+          })
         );
 
         n.done();
@@ -164,7 +171,7 @@ describe("AnonGateway", () => {
 
         const request = gateway.postJson("foo/bar", { bar: "foo" }, {});
         await expect(request).rejects.toStrictEqual(
-          new Error("Reddit returned an error: whoops")
+          new RedditApiError({ code: "whoops" })
         );
 
         n.done();
@@ -181,7 +188,10 @@ describe("AnonGateway", () => {
 
         const request = gateway.postJson("foo/bar", { bar: "foo" }, {});
         await expect(request).rejects.toStrictEqual(
-          new Error("Reddit returned an error: whoops: something went wrong :(")
+          new RedditApiError({
+            code: "whoops",
+            description: "something went wrong :(",
+          })
         );
 
         n.done();
@@ -0,0 +1,197 @@
+import type { CacheOptions } from "../../cache";
+import type {
+  TransportRequest,
+  TransportResponse,
+} from "../../transport/transport";
+
+import { Client } from "../../../client";
+import { MemoryCacheStore } from "../../cache";
+import { FakeReddit } from "../../fake/reddit";
+import { FakeTransport, makeGateway, reply } from "../fake-transport";
+
+// Serves the newest posts of a fake subreddit, and adds every submitted post.
+function serveSubreddit(): (
+  request: TransportRequest
+) => Promise<TransportResponse> {
+  const reddit = new FakeReddit();
+  reddit.addUser("someone");
+  reddit.addSubreddit("test");
+
+  return async request => {
+    const { pathname } = new URL(request.url);
+    if (pathname === "/api/submit.json") {
+      const title = new URLSearchParams(request.body).get("title") ?? "";
+      const post = reddit.addPost("test", "someone", { title });
+      return reply({ json: { errors: [], data: { id: post.id as string } } });
+    }
+    const posts = reddit.posts("test");
+    const children = posts.map(post => reddit.view(post, "someone"));
+    return reply({ kind: "Listing", data: { children } });
+  };
+}
+
+let transport: FakeTransport;
+
+function cachingGateway(cache: CacheOptions = {}) {
+  return makeGateway(transport, { cache });
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  transport = new FakeTransport();
+  transport.fallback = reply({ n: 1 }, 200, { etag: '"v1"' });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe("ResponseCache", () => {
+  it("should reuse fresh responses", async () => {
+    const gateway = cachingGateway();
+
+    await expect(gateway.get("r/foo/about")).resolves.toStrictEqual({ n: 1 });
+    await expect(gateway.get("r/foo/about")).resolves.toStrictEqual({ n: 1 });
+    await gateway.get("r/foo/about", { other: "query" });
+
+    expect(transport.requests).toHaveLength(2);
+  });
+
+  it("should revalidate stale responses", async () => {
+    const gateway = cachingGateway({ rules: [{ path: "r/foo", ttl: 1000 }] });
+    await gateway.get("r/foo/about");
+
+    jest.advanceTimersByTime(1001);
+    transport.responses.push(reply("", 304));
+    await expect(gateway.get("r/foo/about")).resolves.toStrictEqual({ n: 1 });
+
+    expect(transport.requests).toHaveLength(2);
+    expect(transport.requests[1].headers["if-none-match"]).toBe('"v1"');
+  });
+
+  it("should only cache what rarely changes unless told otherwise", async () => {
+    const gateway = cachingGateway();
+    await gateway.get("r/foo/about");
+    await gateway.get("r/foo/about");
+    await gateway.get("r/foo/new");
+    await gateway.get("r/foo/new");
+
+    expect(transport.requests).toHaveLength(3);
+  });
+
+  it("should use the first matching rule", async () => {
+    const gateway = cachingGateway({
+      rules: [
+        { path: "r/foo/new", ttl: 0 },
+        { path: /about$/, ttl: 60_000 },
+      ],
+    });
+
+    await gateway.get("r/foo/new");
+    await gateway.get("r/foo/new");
+    await gateway.get("r/foo/about");
+    jest.advanceTimersByTime(59_000);
+    await gateway.get("r/foo/about");
+
+    expect(transport.requests).toHaveLength(3);
+  });
+
+  it("should be bypassed by middleware", async () => {
+    const gateway = cachingGateway();
+    gateway.use(async (request, next) => next({ ...request, cache: false }));
+
+    await gateway.get("r/foo/about");
+    await gateway.get("r/foo/about");
+
+    expect(transport.requests).toHaveLength(2);
+  });
+
+  it("should invalidate subreddits after writes to them", async () => {
+    const gateway = cachingGateway();
+    await gateway.get("r/foo/about/moderators");
+    await gateway.get("r/foobar/about");
+
+    transport.fallback = reply({});
+    await gateway.post("r/Foo/api/friend", { name: "bar", type: "banned" });
+    await gateway.get("r/foo/about/moderators");
+    await gateway.get("r/foobar/about");
+
+    expect(transport.requests.map(r => new URL(r.url).pathname)).toStrictEqual([
+      "/r/foo/about/moderators.json",
+      "/r/foobar/about.json",
+      "/r/Foo/api/friend.json",
+      "/r/foo/about/moderators.json",
+    ]);
+  });
+
+  it("should invalidate posts after writes to them", async () => {
+    const gateway = cachingGateway();
+    await gateway.get("comments/abc");
+    await gateway.post("api/lock", { id: "t3_abc" });
+    await gateway.get("comments/abc");
+
+    expect(transport.requests).toHaveLength(3);
+  });
+
+  it("should invalidate listings after posts change", async () => {
+    const gateway = cachingGateway({ ttl: 60_000 });
+    await gateway.get("new");
+    await gateway.get("user/bar/submitted");
+    await gateway.get("r/foo/about/modqueue");
+    await gateway.get("r/foo/about/rules");
+
+    await gateway.post("api/remove", { id: "t3_abc" });
+    await gateway.get("new");
+    await gateway.get("user/bar/submitted");
+    await gateway.get("r/foo/about/modqueue");
+    await gateway.get("r/foo/about/rules");
+
+    expect(transport.requests).toHaveLength(8);
+  });
+
+  it("should invalidate on demand", async () => {
+    const gateway = cachingGateway();
+    await gateway.get("r/foo/about");
+    await gateway.getCache()?.invalidate("r/foo");
+    await gateway.get("r/foo/about");
+
+    expect(transport.requests).toHaveLength(2);
+  });
+});
+
+describe("Client with a cache", () => {
+  it("should show a new post in the listings after it's submitted", async () => {
+    jest.useRealTimers();
+    transport.fallback = serveSubreddit();
+    const client = new Client({
+      userAgent: "fake-user-agent",
+      transport,
+      cache: { ttl: 60_000 },
+    });
+    const titles = async (subreddit?: string) =>
+      client.subreddits
+        .getNewPosts(subreddit)
+        .map(post => post.title)
+        .toArray();
+
+    await expect(titles("test")).resolves.toStrictEqual([]);
+    await expect(titles()).resolves.toStrictEqual([]);
+    await client.subreddits.postText("test", "Hello");
+
+    await expect(titles("test")).resolves.toStrictEqual(["Hello"]);
+    await expect(titles()).resolves.toStrictEqual(["Hello"]);
+  });
+});
+
+describe("MemoryCacheStore", () => {
+  it("should evict the least recently used entry", () => {
+    const store = new MemoryCacheStore(2);
+    const entry = { body: "", expires: 0 };
+    store.set("a", entry);
+    store.set("b", entry);
+    store.get("a");
+    store.set("c", entry);
+
+    expect([...store.keys()]).toStrictEqual(["a", "c"]);
+  });
+});
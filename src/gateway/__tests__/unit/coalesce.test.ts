@@ -0,0 +1,156 @@
+import type { CoalesceEvent } from "../../telemetry";
+import type { TransportResponse } from "../../transport/transport";
+import type { GatewayRequest } from "../../types";
+
+import { RequestCoalescer } from "../../coalesce";
+import { Background } from "../../scheduler";
+import { FakeTransport, makeGateway, reply } from "../fake-transport";
+
+// Answers a moment later, so that other requests can join.
+async function slowly(): Promise<TransportResponse> {
+  await new Promise(resolve => setImmediate(resolve));
+  return reply({ bim: "bom" });
+}
+
+// Node 14 doesn't have AbortController.
+const describeWithSignals =
+  typeof AbortController === "undefined" ? describe.skip : describe;
+
+let transport: FakeTransport;
+let events: CoalesceEvent[];
+
+function coalescingGateway(coalesce = true) {
+  return makeGateway(transport, {
+    coalesce,
+    telemetry: { onCoalesce: event => events.push(event) },
+  });
+}
+
+beforeEach(() => {
+  transport = new FakeTransport();
+  transport.fallback = slowly;
+  events = [];
+});
+
+describe("Request coalescing", () => {
+  it("should share one request between identical GETs", async () => {
+    const gateway = coalescingGateway();
+
+    const [first, second] = await Promise.all([
+      gateway.get<object>("r/funny/about", { a: 1, b: 2 }),
+      gateway.get<object>("r/funny/about", { b: 2, a: 1 }),
+    ]);
+
+    expect(transport.requests).toHaveLength(1);
+    expect(first).toStrictEqual({ bim: "bom" });
+    expect(second).toStrictEqual(first);
+    expect(second).not.toBe(first);
+    expect(events).toStrictEqual([
+      { endpoint: "r/{subreddit}/about", path: "r/funny/about" },
+    ]);
+  });
+
+  it("should send different requests separately", async () => {
+    const gateway = coalescingGateway();
+
+    await Promise.all([
+      gateway.get("r/funny/about"),
+      gateway.get("r/funny/about", { a: 1 }),
+      gateway.get("r/pics/about"),
+    ]);
+
+    expect(transport.requests).toHaveLength(3);
+  });
+
+  it("should never share POSTs", async () => {
+    const gateway = coalescingGateway();
+
+    await Promise.all([
+      gateway.post("api/vote", { id: "t3_a", dir: 1 }),
+      gateway.post("api/vote", { id: "t3_a", dir: 1 }),
+    ]);
+
+    expect(transport.requests).toHaveLength(2);
+  });
+
+  it("should send the request again once it has finished", async () => {
+    const gateway = coalescingGateway();
+
+    await gateway.get("foo");
+    await gateway.get("foo");
+
+    expect(transport.requests).toHaveLength(2);
+  });
+
+  it("should not share anything unless enabled", async () => {
+    const gateway = coalescingGateway(false);
+
+    await Promise.all([gateway.get("foo"), gateway.get("foo")]);
+
+    expect(transport.requests).toHaveLength(2);
+    expect(events).toHaveLength(0);
+  });
+});
+
+describe("RequestCoalescer", () => {
+  let sent: GatewayRequest[];
+
+  async function send(request: GatewayRequest): Promise<TransportResponse> {
+    sent.push(request);
+    return slowly();
+  }
+
+  beforeEach(() => {
+    sent = [];
+  });
+
+  it("should move a shared background request to the foreground when a caller is", async () => {
+    const coalescer = new RequestCoalescer(jest.fn());
+    const background = new Background();
+
+    const first = coalescer.run(
+      { method: "GET", path: "foo", query: {}, background },
+      send
+    );
+    expect(sent[0].background?.promoted).toBe(false);
+    const second = coalescer.run(
+      { method: "GET", path: "foo", query: {} },
+      send
+    );
+    await Promise.all([first, second]);
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].background?.promoted).toBe(true);
+    expect(background.promoted).toBe(false);
+  });
+
+  it("should keep a shared request in the background while every caller is", async () => {
+    const coalescer = new RequestCoalescer(jest.fn());
+    const backgrounds = [new Background(), new Background()];
+
+    const requests = backgrounds.map(async background =>
+      coalescer.run({ method: "GET", path: "foo", query: {}, background }, send)
+    );
+    expect(sent[0].background?.promoted).toBe(false);
+    backgrounds[1].promote();
+    await Promise.all(requests);
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].background?.promoted).toBe(true);
+  });
+});
+
+describeWithSignals("Request coalescing with signals", () => {
+  it("should not cancel the shared request for everyone", async () => {
+    const gateway = coalescingGateway();
+    const controller = new AbortController();
+
+    const first = gateway.get("foo", {}, { signal: controller.signal });
+    const second = gateway.get("foo");
+    controller.abort();
+
+    await expect(first).rejects.toThrow("cancelled");
+    await expect(second).resolves.toStrictEqual({ bim: "bom" });
+    expect(transport.requests).toHaveLength(1);
+  });
+});
@@ -1,5 +1,6 @@
 import nock from "nock";
 
+import { AuthError } from "../../../errors";
 import { CredsGateway } from "../../creds";
 
 let gateway: CredsGateway;
@@ -57,7 +58,7 @@ describe("CredsGateway", () => {
 
         const request = gateway.get("foo/bar", {});
         await expect(request).rejects.toStrictEqual(
-          new Error("Reddit returned an error: whoops")
+          new AuthError("Authentication failed: whoops")
         );
 
         n.done();
@@ -74,7 +75,9 @@ describe("CredsGateway", () => {
 
         const request = gateway.get("foo/bar", {});
         await expect(request).rejects.toStrictEqual(
-          new Error("Reddit returned an error: whoops: something went wrong :(")
+          new AuthError(
+            "Authentication failed: whoops: something went wrong :("
+          )
         );
 
         n.done();
@@ -114,7 +117,7 @@ describe("CredsGateway", () => {
 
         const request = gateway.post("foo/bar", { bar: "foo" }, {});
         await expect(request).rejects.toStrictEqual(
-          new Error("Reddit returned an error: whoops")
+          new AuthError("Authentication failed: whoops")
         );
 
         n.done();
@@ -131,7 +134,9 @@ describe("CredsGateway", () => {
 
         const request = gateway.post("foo/bar", { bar: "foo" }, {});
         await expect(request).rejects.toStrictEqual(
-          new Error("Reddit returned an error: whoops: something went wrong :(")
+          new AuthError(
+            "Authentication failed: whoops: something went wrong :("
+          )
         );
 
         n.done();
@@ -171,7 +176,7 @@ describe("CredsGateway", () => {
 
         const request = gateway.postJson("foo/bar", { bar: "foo" }, {});
         await expect(request).rejects.toStrictEqual(
-          new Error("Reddit returned an error: whoops")
+          new AuthError("Authentication failed: whoops")
         );
 
         n.done();
@@ -188,7 +193,9 @@ describe("CredsGateway", () => {
 
         const request = gateway.postJson("foo/bar", { bar: "foo" }, {});
         await expect(request).rejects.toStrictEqual(
-          new Error("Reddit returned an error: whoops: something went wrong :(")
+          new AuthError(
+            "Authentication failed: whoops: something went wrong :("
+          )
         );
 
         n.done();
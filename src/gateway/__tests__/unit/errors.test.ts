@@ -0,0 +1,88 @@
+import type { AnonGateway } from "../../anon";
+
+import {
+  AuthError,
+  ForbiddenError,
+  NotFoundError,
+  RateLimitedError,
+  RedditApiError,
+  UnexpectedResponseError,
+} from "../../../errors";
+import { FakeTransport, makeGateway, reply } from "../fake-transport";
+
+async function catchError(promise: Promise<unknown>): Promise<unknown> {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+  throw new Error("Expected the promise to reject");
+}
+
+let transport: FakeTransport;
+let gateway: AnonGateway;
+
+beforeEach(() => {
+  transport = new FakeTransport();
+  gateway = makeGateway(transport);
+});
+
+describe("Gateway errors", () => {
+  it("should include the code and field of json errors", async () => {
+    transport.responses.push(
+      reply({
+        json: {
+          errors: [["SUBREDDIT_NOEXIST", "that subreddit doesn't exist", "sr"]],
+        },
+      })
+    );
+
+    const error: unknown = await catchError(gateway.post("api/submit", {}));
+    expect(error).toBeInstanceOf(RedditApiError);
+    expect(error).toMatchObject({
+      code: "SUBREDDIT_NOEXIST",
+      description: "that subreddit doesn't exist",
+      field: "sr",
+    });
+  });
+
+  it.each([
+    [401, AuthError],
+    [403, ForbiddenError],
+    [404, NotFoundError],
+    [500, RedditApiError],
+  ])("should map status %d to the right error", async (status, type) => {
+    transport.responses.push(reply("", status));
+
+    const error: unknown = await catchError(gateway.get("foo/bar"));
+    expect(error).toBeInstanceOf(type);
+    expect(error).toMatchObject({ status });
+  });
+
+  it("should use the reason and message from the body", async () => {
+    transport.responses.push(
+      reply({ reason: "private", message: "Forbidden" }, 403)
+    );
+
+    await expect(gateway.get("r/secret/about")).rejects.toStrictEqual(
+      new ForbiddenError({ code: "private", description: "Forbidden" })
+    );
+  });
+
+  it("should include Retry-After when rate limited", async () => {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    transport.responses.push(reply("", 429, { "retry-after": "3" }));
+
+    const error: unknown = await catchError(gateway.get("foo/bar"));
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect((error as RateLimitedError).retryAfter).toBe(3000);
+  });
+
+  it("should throw on invalid json", async () => {
+    transport.responses.push(reply("<html>"));
+
+    await expect(gateway.get("foo/bar")).rejects.toBeInstanceOf(
+      UnexpectedResponseError
+    );
+  });
+});
@@ -0,0 +1,119 @@
+import type { Comment } from "../../../reddit/comment/object";
+import type { Post } from "../../../reddit/post/object";
+
+import { Client } from "../../../client";
+import { AuthError, ForbiddenError } from "../../../errors";
+import { FakeReddit } from "../../fake/reddit";
+
+let reddit: FakeReddit;
+let moderator: Client;
+let user: Client;
+
+async function collect<T>(listing: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of listing) items.push(item);
+  return items;
+}
+
+beforeEach(() => {
+  reddit = new FakeReddit();
+  reddit.addUser("mod");
+  reddit.addUser("someone");
+  reddit.addSubreddit("test", { moderators: ["mod"] });
+  moderator = new Client({ userAgent: "fake" }, reddit.gateway("mod"));
+  user = new Client({ userAgent: "fake" }, reddit.gateway("someone"));
+});
+
+describe("FakeReddit", () => {
+  it("should show new posts in listings", async () => {
+    const first = await user.subreddits.postText("test", "First", "Hello");
+    const second = await user.subreddits.postLink(
+      "test",
+      "Second",
+      "https://example.com"
+    );
+
+    const posts = await collect(moderator.subreddits.getNewPosts("test"));
+    expect(posts.map(post => post.id)).toStrictEqual([second, first]);
+    expect(posts[1]).toMatchObject({ title: "First", body: "Hello" });
+    expect(posts[0]).toMatchObject({ url: "https://example.com" });
+  });
+
+  it("should page through long listings", async () => {
+    for (let index = 0; index < 30; index++) {
+      reddit.addPost("test", "someone", { title: `${index}` });
+    }
+
+    const posts = await collect(user.subreddits.getNewPosts("test"));
+    expect(posts).toHaveLength(30);
+    expect(posts[0].title).toBe("29");
+  });
+
+  it("should build comment trees", async () => {
+    const id = await user.subreddits.postText("test", "Post", "Body");
+    const post = await moderator.posts.fetch(id);
+    const reply = await post.reply("Top level");
+    await reply.reply("Nested");
+
+    const refetched = await user.posts.fetch(id);
+    const comments = await collect<Comment>(refetched.comments);
+    expect(comments.map(comment => comment.body)).toStrictEqual(["Top level"]);
+    const replies = await collect<Comment>(comments[0].replies);
+    expect(replies.map(comment => comment.body)).toStrictEqual(["Nested"]);
+    expect(refetched.numComments).toBe(2);
+  });
+
+  it("should track votes per user", async () => {
+    const id = await user.subreddits.postText("test", "Post", "Body");
+    await moderator.posts.upvote(id);
+
+    await expect(moderator.posts.fetch(id)).resolves.toMatchObject({
+      score: 2,
+      likes: true,
+    });
+    await expect(user.posts.fetch(id)).resolves.toMatchObject({
+      score: 2,
+      likes: undefined,
+    });
+  });
+
+  it("should put reported items in the modqueue", async () => {
+    const id = await user.subreddits.postText("test", "Post", "Body");
+    await user.posts.report(id, "spam");
+
+    const queue = await collect<Post | Comment>(
+      moderator.subreddits.getModqueue("test")
+    );
+    expect(queue.map(item => item.id)).toStrictEqual([id]);
+
+    await moderator.posts.approve(id);
+    await expect(
+      collect(moderator.subreddits.getModqueue("test"))
+    ).resolves.toStrictEqual([]);
+  });
+
+  it("should keep track of banned users", async () => {
+    await moderator.subreddits.banUser("test", "someone");
+
+    const banned = await collect(moderator.subreddits.getBannedUsers("test"));
+    expect(banned.map(ban => ban.name)).toStrictEqual(["someone"]);
+    await expect(
+      user.subreddits.postText("test", "Post", "Body")
+    ).rejects.toMatchObject({ code: "SUBREDDIT_NOTALLOWED" });
+  });
+
+  it("should only let moderators moderate", async () => {
+    const id = await user.subreddits.postText("test", "Post", "Body");
+
+    await expect(user.posts.lock(id)).rejects.toBeInstanceOf(ForbiddenError);
+    await moderator.posts.lock(id);
+    await expect(user.posts.fetch(id)).resolves.toMatchObject({ locked: true });
+  });
+
+  it("should know who is logged in", async () => {
+    const anonymous = new Client({ userAgent: "fake" }, reddit.gateway());
+
+    await expect(moderator.me.fetch()).resolves.toMatchObject({ name: "mod" });
+    await expect(anonymous.me.fetch()).rejects.toBeInstanceOf(AuthError);
+  });
+});
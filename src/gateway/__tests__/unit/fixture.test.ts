@@ -0,0 +1,144 @@
+import type {
+  TransportRequest,
+  TransportResponse,
+} from "../../transport/transport";
+
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { Client } from "../../../client";
+import { NotFoundError, UnmatchedRequestError } from "../../../errors";
+import { RecordingGateway } from "../../fixture/recording";
+import { ReplayGateway } from "../../fixture/replay";
+import { Background } from "../../scheduler";
+import { FakeTransport, makeGateway, reply } from "../fake-transport";
+
+async function route(request: TransportRequest): Promise<TransportResponse> {
+  switch (new URL(request.url).pathname) {
+    case "/api/username_available.json":
+      return reply(true);
+    case "/missing.json":
+      return reply("", 404);
+    default:
+      return reply({ json: { errors: [] } });
+  }
+}
+
+function makeInner() {
+  const transport = new FakeTransport();
+  transport.fallback = route;
+  return makeGateway(transport);
+}
+
+let directory: string;
+let file: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), "snoots-"));
+  file = path.join(directory, "fixture.json");
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+async function record() {
+  const inner = makeInner();
+  const recorder = new RecordingGateway(inner, file);
+  const client = new Client({ userAgent: "fake-user-agent" }, recorder);
+
+  await expect(client.users.isUsernameAvailable("foo")).resolves.toBe(true);
+  await expect(recorder.get("missing")).rejects.toBeInstanceOf(NotFoundError);
+  await recorder.post("api/login", { user: "foo", passwd: "hunter2" });
+  await recorder.flush();
+  return recorder;
+}
+
+describe("RecordingGateway", () => {
+  it("should write fixtures with secrets scrubbed", async () => {
+    const recorder = await record();
+
+    const contents = await readFile(file, "utf8");
+    expect(contents).not.toContain("hunter2");
+    expect(JSON.parse(contents)).toEqual({
+      fixtures: recorder.fixtures,
+    });
+    expect(recorder.fixtures).toHaveLength(3);
+    expect(recorder.fixtures[2].request.form).toMatchObject({
+      user: "foo",
+      passwd: "[scrubbed]",
+    });
+  });
+
+  it("should send requests through the public methods of the inner gateway", async () => {
+    const inner = makeInner();
+    const get = jest.spyOn(inner, "get");
+    const post = jest.spyOn(inner, "post");
+    const recorder = new RecordingGateway(inner, file);
+
+    await recorder.get("api/username_available", { user: "foo" });
+    await recorder.post("api/login", { user: "foo" });
+    await recorder.flush();
+
+    expect(get).toHaveBeenCalledWith(
+      "api/username_available",
+      { user: "foo" },
+      expect.anything()
+    );
+    expect(post).toHaveBeenCalledWith(
+      "api/login",
+      expect.objectContaining({ user: "foo" }),
+      {},
+      expect.anything()
+    );
+  });
+
+  it("should record raw responses and only what is sent to Reddit", async () => {
+    const inner = makeInner();
+    inner.use(async (request, next) =>
+      next({ ...request, headers: { accept: "text/plain" } })
+    );
+    const recorder = new RecordingGateway(inner, file);
+
+    await recorder.get(
+      "api/username_available",
+      { user: "foo" },
+      { background: new Background() }
+    );
+
+    expect(recorder.fixtures).toStrictEqual([
+      {
+        request: {
+          method: "GET",
+          path: "api/username_available",
+          query: { user: "foo" },
+        },
+        response: { status: 200, headers: {}, body: "true" },
+      },
+    ]);
+  });
+});
+
+describe("ReplayGateway", () => {
+  it("should replay recorded responses and errors", async () => {
+    await record();
+    const replay = await ReplayGateway.fromFile(file);
+    const client = new Client({ userAgent: "fake-user-agent" }, replay);
+
+    await expect(client.users.isUsernameAvailable("foo")).resolves.toBe(true);
+    await expect(replay.get("missing")).rejects.toBeInstanceOf(NotFoundError);
+    await replay.post("api/login", { user: "foo", passwd: "different" });
+    expect(() => replay.assertDone()).not.toThrow();
+  });
+
+  it("should fail loudly on unmatched requests", async () => {
+    await record();
+    const replay = await ReplayGateway.fromFile(file);
+
+    await expect(replay.get("somewhere/else")).rejects.toBeInstanceOf(
+      UnmatchedRequestError
+    );
+    expect(() => replay.assertDone()).toThrow(UnmatchedRequestError);
+  });
+});
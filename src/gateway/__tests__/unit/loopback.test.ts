@@ -0,0 +1,104 @@
+import type { LoopbackOptions } from "../../loopback";
+
+import { get } from "node:http";
+
+import { AuthError } from "../../../errors";
+import { receiveAuthCode } from "../../loopback";
+
+function request(url: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    get(url, response => {
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    }).on("error", reject);
+  });
+}
+
+function makeUrl(redirectUri: string, state: string) {
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  const q = new URLSearchParams({ redirect_uri: redirectUri, state });
+  return `https://www.reddit.com/api/v1/authorize?${q.toString()}`;
+}
+
+type Redirect = (state: string) => Record<string, string>;
+
+// Pretend to be the user's browser, following Reddit's redirects.
+function redirectWith(...redirects: Redirect[]) {
+  const statuses: number[] = [];
+  const options: LoopbackOptions = {
+    scopes: ["identity"],
+    port: 0,
+    host: "127.0.0.1",
+    path: "/auth",
+    open: async url => {
+      const { searchParams } = new URL(url);
+      const state = searchParams.get("state") ?? "";
+      const redirectUri = searchParams.get("redirect_uri") ?? "";
+      statuses.push(
+        await request(redirectUri.replace("/auth", "/favicon.ico"))
+      );
+      for (const redirect of redirects) {
+        const q = new URLSearchParams(redirect(state));
+        statuses.push(await request(`${redirectUri}?${q.toString()}`));
+      }
+    },
+  };
+  return { options, statuses };
+}
+
+describe("receiveAuthCode()", () => {
+  it("should resolve with the code once redirected", async () => {
+    const { options, statuses } = redirectWith(state => ({
+      code: "abc",
+      state,
+    }));
+
+    const result = await receiveAuthCode(options, makeUrl);
+
+    expect(result.code).toBe("abc");
+    expect(result.redirectUri).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/auth$/);
+    expect(statuses[0]).toBe(404);
+  });
+
+  it("should ignore stray requests", async () => {
+    const { options, statuses } = redirectWith(
+      () => ({ code: "evil", state: "evil" }),
+      state => ({ state }),
+      state => ({ code: "abc", state })
+    );
+
+    const result = await receiveAuthCode(options, makeUrl);
+
+    expect(result.code).toBe("abc");
+    expect(statuses.slice(0, 3)).toStrictEqual([404, 403, 400]);
+  });
+
+  it("should keep waiting until the timeout after stray requests", async () => {
+    const { options } = redirectWith(() => ({ code: "abc", state: "evil" }));
+
+    await expect(
+      receiveAuthCode({ ...options, timeout: 100 }, makeUrl)
+    ).rejects.toStrictEqual(
+      new AuthError("Timed out waiting for authorization")
+    );
+  });
+
+  it("should reject when the user declines", async () => {
+    const { options } = redirectWith(state => ({
+      error: "access_denied",
+      state,
+    }));
+
+    await expect(receiveAuthCode(options, makeUrl)).rejects.toStrictEqual(
+      new AuthError("Authorization failed: access_denied")
+    );
+  });
+
+  it("should time out", async () => {
+    const options = { scopes: [], port: 0, timeout: 10, open: jest.fn() };
+
+    await expect(receiveAuthCode(options, makeUrl)).rejects.toBeInstanceOf(
+      AuthError
+    );
+  });
+});
@@ -0,0 +1,87 @@
+import type { Middleware } from "../../middleware";
+import type { GatewayRequest } from "../../types";
+
+import { FakeTransport, makeGateway, reply } from "../fake-transport";
+
+let transport: FakeTransport;
+
+beforeEach(() => {
+  transport = new FakeTransport();
+  transport.fallback = reply({ foo: "bar" });
+});
+
+describe("Gateway middleware", () => {
+  it("should run middleware in order for every method", async () => {
+    const calls: string[] = [];
+    const logger =
+      (name: string): Middleware =>
+      async (request, next) => {
+        calls.push(`${name} ${request.method} ${request.path}`);
+        return next();
+      };
+    const gateway = makeGateway(transport, { middleware: [logger("a")] });
+    gateway.use(logger("b"));
+
+    await gateway.get("foo");
+    await gateway.post("bar", {});
+    await gateway.postJson("baz", {});
+
+    expect(calls).toStrictEqual([
+      "a GET foo",
+      "b GET foo",
+      "a POST bar",
+      "b POST bar",
+      "a POST baz",
+      "b POST baz",
+    ]);
+  });
+
+  it("should let middleware change the request", async () => {
+    const gateway = makeGateway(transport);
+    gateway.use(async (request, next) =>
+      next({
+        ...request,
+        query: { ...request.query, extra: "yes" },
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        headers: { "x-signature": "signed" },
+      })
+    );
+
+    await gateway.get("foo");
+
+    const sent = transport.requests[0];
+    expect(new URL(sent.url).searchParams.get("extra")).toBe("yes");
+    expect(sent.headers["x-signature"]).toBe("signed");
+    expect(sent.headers["user-agent"]).toBe("fake-user-agent");
+  });
+
+  it("should let middleware see and rewrite the response", async () => {
+    const gateway = makeGateway(transport);
+    let seen: unknown;
+    gateway.use(async (_request, next) => {
+      seen = await next();
+      return { rewritten: true };
+    });
+
+    await expect(gateway.get("foo")).resolves.toStrictEqual({
+      rewritten: true,
+    });
+    expect(seen).toStrictEqual({ foo: "bar" });
+  });
+
+  it("should let middleware short-circuit the request", async () => {
+    const gateway = makeGateway(transport);
+    const requests: GatewayRequest[] = [];
+    gateway.use(async request => {
+      requests.push(request);
+      return { json: { errors: [], data: { synthetic: true } } };
+    });
+
+    await expect(gateway.post("api/foo", { a: 1 })).resolves.toStrictEqual({
+      synthetic: true,
+    });
+    expect(transport.requests).toHaveLength(0);
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    expect(requests[0].form).toStrictEqual({ api_type: "json", a: 1 });
+  });
+});
@@ -4,7 +4,8 @@ import type { ClientAuth, Token, TokenResponse } from "../../oauth";
 import fc from "fast-check";
 import nock from "nock";
 
-import { OauthGateway } from "../../oauth";
+import { AuthError, RedditApiError } from "../../../errors";
+import { OauthGateway, parseImplicitToken } from "../../oauth";
 
 const fcUsernameAuth = () =>
   fc.record({ username: fc.string(), password: fc.string() });
@@ -177,6 +178,39 @@ describe("OauthGateway", () => {
       );
     });
 
+    it("uses the installed client grant for installed app auth", async () => {
+      // eslint-disable-next-line unicorn/no-useless-undefined
+      gateway.setToken(undefined);
+      gateway.setInitialAuth({ deviceId: "DO_NOT_TRACK_THIS_DEVICE" });
+
+      const body = {
+        /* eslint-disable @typescript-eslint/naming-convention */
+        api_type: "json",
+        grant_type: "https://oauth.reddit.com/grants/installed_client",
+        device_id: "DO_NOT_TRACK_THIS_DEVICE",
+        /* eslint-enable @typescript-eslint/naming-convention */
+      };
+      const n = nock("https://www.reddit.com", commonNockOptions)
+        .post("/api/v1/access_token.json?raw_json=1&api_type=json", body)
+        .reply(200, { accessToken: "a", expiresIn: 3600, scope: "*" });
+
+      await gateway.updateAccessToken();
+
+      n.done();
+    });
+
+    it("refuses to fall back on client credentials without a secret", async () => {
+      const installed = new PublicOauthGateway(
+        undefined,
+        { clientId: "cId" },
+        "fake-user-agent"
+      );
+
+      await expect(installed.updateAccessToken()).rejects.toBeInstanceOf(
+        AuthError
+      );
+    });
+
     it("sets the stored token from the response", async () => {
       await fc.assert(
         fc.asyncProperty(
@@ -200,7 +234,9 @@ describe("OauthGateway", () => {
             expect(newToken).not.toBe(token);
             expect(newToken?.access).toEqual(tokenResponse.accessToken);
             expect(newToken?.expiration).toBeGreaterThan(Date.now());
-            expect(newToken?.refresh).toEqual(tokenResponse.refreshToken);
+            expect(newToken?.refresh).toEqual(
+              tokenResponse.refreshToken ?? token?.refresh
+            );
           }
         )
       );
@@ -314,7 +350,7 @@ describe("OauthGateway", () => {
 
           const request = gateway.get("foo/bar", {});
           await expect(request).rejects.toStrictEqual(
-            new Error("Reddit returned an error: whoops")
+            new RedditApiError({ code: "whoops" })
           );
 
           n.done();
@@ -331,9 +367,10 @@ describe("OauthGateway", () => {
 
           const request = gateway.get("foo/bar", {});
           await expect(request).rejects.toStrictEqual(
-            new Error(
-              "Reddit returned an error: whoops: something went wrong :("
-            )
+            new RedditApiError({
+              code: "whoops",
+              description: "something went wrong :(",
+            })
           );
 
           n.done();
@@ -379,7 +416,7 @@ describe("OauthGateway", () => {
 
           const request = gateway.post("foo/bar", { bar: "foo" }, {});
           await expect(request).rejects.toStrictEqual(
-            new Error("Reddit returned an error: whoops")
+            new RedditApiError({ code: "whoops" })
           );
 
           n.done();
@@ -396,9 +433,10 @@ describe("OauthGateway", () => {
 
           const request = gateway.post("foo/bar", { bar: "foo" }, {});
           await expect(request).rejects.toStrictEqual(
-            new Error(
-              "Reddit returned an error: whoops: something went wrong :("
-            )
+            new RedditApiError({
+              code: "whoops",
+              description: "something went wrong :(",
+            })
           );
 
           n.done();
@@ -444,7 +482,7 @@ describe("OauthGateway", () => {
 
           const request = gateway.postJson("foo/bar", { bar: "foo" }, {});
           await expect(request).rejects.toStrictEqual(
-            new Error("Reddit returned an error: whoops")
+            new RedditApiError({ code: "whoops" })
           );
 
           n.done();
@@ -461,9 +499,10 @@ describe("OauthGateway", () => {
 
           const request = gateway.postJson("foo/bar", { bar: "foo" }, {});
           await expect(request).rejects.toStrictEqual(
-            new Error(
-              "Reddit returned an error: whoops: something went wrong :("
-            )
+            new RedditApiError({
+              code: "whoops",
+              description: "something went wrong :(",
+            })
           );
 
           n.done();
@@ -472,3 +511,31 @@ describe("OauthGateway", () => {
     });
   });
 });
+
+describe("parseImplicitToken()", () => {
+  it("should parse the token out of the redirect url", () => {
+    const token = parseImplicitToken(
+      "https://example.com/cb#access_token=tkn&token_type=bearer&state=xyz&expires_in=3600&scope=read+identity",
+      "xyz"
+    );
+
+    expect(token).toMatchObject({
+      access: "tkn",
+      scopes: ["read", "identity"],
+    });
+    expect(token.refresh).toBeUndefined();
+    expect(token.expiration).toBeGreaterThan(Date.now());
+  });
+
+  it("should reject mismatched state", () => {
+    expect(() =>
+      parseImplicitToken("access_token=tkn&state=abc&expires_in=3600", "xyz")
+    ).toThrow(AuthError);
+  });
+
+  it("should reject declined authorization", () => {
+    expect(() =>
+      parseImplicitToken("#error=access_denied&state=xyz", "xyz")
+    ).toThrow(new AuthError("Implicit grant failed: access_denied"));
+  });
+});
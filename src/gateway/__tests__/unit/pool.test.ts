@@ -0,0 +1,158 @@
+import type { TransportRequest } from "../../transport/transport";
+
+import { ClientPool } from "../../../client-pool";
+import { AuthError, SnootsError } from "../../../errors";
+import { MemoryTokenStore } from "../../token-store";
+import { FakeTransport, reply, tokenReply } from "../fake-transport";
+
+let transport: FakeTransport;
+let pool: ClientPool;
+// The rate limit left for each account.
+let limits: Record<string, number>;
+
+// Every account gets a token named after it, and a rate limit from `limits`.
+async function respond(request: TransportRequest) {
+  if (request.url.includes("access_token")) {
+    const [, account] = /refresh_token=(\w+)/.exec(request.body ?? "") ?? [];
+    /* eslint-disable @typescript-eslint/naming-convention */
+    return tokenReply({
+      access_token: account,
+      refresh_token: account,
+      scope: "*",
+    });
+  }
+
+  const account = request.headers.authorization.replace("bearer ", "");
+  limits[account] -= 1;
+  return reply({}, 200, {
+    "x-ratelimit-remaining": String(limits[account]),
+    "x-ratelimit-reset": "600",
+  });
+  /* eslint-enable @typescript-eslint/naming-convention */
+}
+
+// The accounts that sent requests other than for tokens.
+function accounts(): string[] {
+  return transport.requests
+    .filter(({ url }) => !url.includes("access_token"))
+    .map(({ headers }) => headers.authorization.replace("bearer ", ""));
+}
+
+beforeEach(() => {
+  transport = new FakeTransport();
+  transport.fallback = respond;
+  limits = { bot1: 100, bot2: 50 };
+  pool = new ClientPool({
+    userAgent: "fake-user-agent",
+    creds: { clientId: "cId", clientSecret: "cSecret" },
+    accounts: {
+      one: { refreshToken: "bot1" },
+      two: { refreshToken: "bot2" },
+    },
+    transport,
+  });
+});
+
+describe("ClientPool", () => {
+  it("should send requests from the account with the most rate limit left", async () => {
+    // Both accounts are unused at first, so both get a turn.
+    await pool.gateway.get("foo");
+    await pool.gateway.get("foo");
+    for (let index = 0; index < 3; index++) await pool.gateway.get("foo");
+
+    expect(accounts()).toStrictEqual(["bot1", "bot2", "bot1", "bot1", "bot1"]);
+  });
+
+  it("should send requests from a specific account", async () => {
+    await pool.account("two").gateway.post("api/lock", { id: "t3_foo" });
+
+    expect(accounts()).toStrictEqual(["bot2"]);
+  });
+
+  it("should send writes from the primary account", async () => {
+    await pool.posts.lock("foo");
+    await pool.posts.lock("bar");
+
+    expect(accounts()).toStrictEqual(["bot1", "bot1"]);
+  });
+
+  it("should send requests that depend on the account from the primary account", async () => {
+    await pool.gateway.get("api/v1/me");
+    await pool.gateway.get("r/test/about/modqueue");
+    await pool.gateway.get("message/inbox");
+    expect(accounts()).toStrictEqual(["bot1", "bot1", "bot1"]);
+
+    // The moderators of a subreddit are the same for everyone.
+    await pool.gateway.get("r/test/about/moderators");
+    expect(accounts()).toStrictEqual(["bot1", "bot1", "bot1", "bot2"]);
+  });
+
+  it("should use the primary account that was picked", async () => {
+    pool = new ClientPool({
+      userAgent: "fake-user-agent",
+      creds: { clientId: "cId", clientSecret: "cSecret" },
+      accounts: {
+        one: { refreshToken: "bot1" },
+        two: { refreshToken: "bot2" },
+      },
+      primary: "two",
+      transport,
+    });
+
+    await pool.posts.lock("foo");
+
+    expect(accounts()).toStrictEqual(["bot2"]);
+    expect(
+      () =>
+        new ClientPool({
+          userAgent: "fake-user-agent",
+          creds: { clientId: "cId", clientSecret: "cSecret" },
+          accounts: { one: { refreshToken: "bot1" } },
+          primary: "two",
+          transport,
+        })
+    ).toThrow(SnootsError);
+  });
+
+  it("should expose the controls of a client", async () => {
+    await pool.users.isUsernameAvailable("foo");
+
+    expect(accounts()).toHaveLength(1);
+    expect(pool.accounts).toStrictEqual(["one", "two"]);
+    expect(() => pool.account("three")).toThrow(SnootsError);
+  });
+
+  it("should log out every account", async () => {
+    await pool.logout();
+
+    await expect(pool.account("one").me.fetch()).rejects.toBeInstanceOf(
+      AuthError
+    );
+    await expect(pool.account("two").me.fetch()).rejects.toBeInstanceOf(
+      AuthError
+    );
+  });
+
+  it("should have the session of the primary account", async () => {
+    await pool.posts.lock("foo");
+
+    expect(pool.getRefreshToken()).toBe("bot1");
+    expect(pool.getAuthorizedScopes()).toStrictEqual(["*"]);
+    expect(pool.cache).toBe(pool.account("one").cache);
+  });
+
+  it("should keep the token of each account in its own store", async () => {
+    const store = new MemoryTokenStore();
+    pool = new ClientPool({
+      userAgent: "fake-user-agent",
+      creds: { clientId: "cId", clientSecret: "cSecret" },
+      accounts: { one: { refreshToken: "bot1" } },
+      tokenStores: { one: store },
+      transport,
+    });
+
+    await pool.gateway.get("foo");
+
+    expect(store.load()?.access).toBe("bot1");
+  });
+});
@@ -0,0 +1,129 @@
+import type { TransportRequest } from "../../transport/transport";
+import type { GatewayRequest } from "../../types";
+
+import { RetryPolicy } from "../../retry";
+import { FakeTransport, reply } from "../fake-transport";
+
+function status(code: number, headers: Record<string, string> = {}) {
+  return reply("", code, headers);
+}
+
+function networkError(code: string): Error {
+  return Object.assign(new Error(code), { code });
+}
+
+const get: GatewayRequest = { method: "GET", path: "foo/bar", query: {} };
+const submit: GatewayRequest = {
+  method: "POST",
+  path: "api/submit",
+  query: {},
+};
+const vote: GatewayRequest = { method: "POST", path: "api/vote", query: {} };
+
+const dummyRequest: TransportRequest = { method: "GET", url: "", headers: {} };
+
+let transport: FakeTransport;
+let policy: RetryPolicy;
+
+beforeEach(() => {
+  transport = new FakeTransport();
+  transport.fallback = new Error("No more responses");
+  policy = new RetryPolicy({ baseDelay: 0 });
+});
+
+function run(request: GatewayRequest) {
+  return policy.run(request, () => transport.request(dummyRequest));
+}
+
+describe("RetryPolicy", () => {
+  it("should not retry successful requests", async () => {
+    transport.responses = [status(200)];
+
+    await expect(run(get)).resolves.toStrictEqual(status(200));
+    expect(transport.requests).toHaveLength(1);
+  });
+
+  it("should retry GET requests on server errors", async () => {
+    transport.responses = [status(503), status(502), status(200)];
+
+    await expect(run(get)).resolves.toStrictEqual(status(200));
+    expect(transport.requests).toHaveLength(3);
+  });
+
+  it("should give up after the maximum number of attempts", async () => {
+    transport.responses = [status(500), status(500), status(500), status(200)];
+
+    await expect(run(get)).resolves.toStrictEqual(status(500));
+    expect(transport.requests).toHaveLength(3);
+  });
+
+  it("should not retry non-idempotent POST requests on server errors", async () => {
+    transport.responses = [status(502), status(200)];
+
+    await expect(run(submit)).resolves.toStrictEqual(status(502));
+    expect(transport.requests).toHaveLength(1);
+  });
+
+  it("should retry idempotent POST requests on server errors", async () => {
+    transport.responses = [status(502), status(200)];
+
+    await expect(run(vote)).resolves.toStrictEqual(status(200));
+    expect(transport.requests).toHaveLength(2);
+  });
+
+  it("should retry any request that was rate limited", async () => {
+    transport.responses = [status(429), status(200)];
+
+    await expect(run(submit)).resolves.toStrictEqual(status(200));
+    expect(transport.requests).toHaveLength(2);
+  });
+
+  it("should respect the Retry-After header", async () => {
+    jest.useFakeTimers();
+    try {
+      transport.responses = [
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        status(429, { "retry-after": "5" }),
+        status(200),
+      ];
+
+      const result = run(get);
+      await jest.advanceTimersByTimeAsync(4999);
+      expect(transport.requests).toHaveLength(1);
+      await jest.advanceTimersByTimeAsync(1);
+      await expect(result).resolves.toStrictEqual(status(200));
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("should retry dropped connections for idempotent requests", async () => {
+    transport.responses = [networkError("ECONNRESET"), status(200)];
+
+    await expect(run(get)).resolves.toStrictEqual(status(200));
+    expect(transport.requests).toHaveLength(2);
+  });
+
+  it("should not retry dropped connections for non-idempotent requests", async () => {
+    const error = networkError("ECONNRESET");
+    transport.responses = [error, status(200)];
+
+    await expect(run(submit)).rejects.toBe(error);
+    expect(transport.requests).toHaveLength(1);
+  });
+
+  it("should retry requests that never reached Reddit", async () => {
+    transport.responses = [networkError("ECONNREFUSED"), status(200)];
+
+    await expect(run(submit)).resolves.toStrictEqual(status(200));
+    expect(transport.requests).toHaveLength(2);
+  });
+
+  it("should not retry unknown errors", async () => {
+    const error = new Error("something else");
+    transport.responses = [error, status(200)];
+
+    await expect(run(get)).rejects.toBe(error);
+    expect(transport.requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,134 @@
+import { Background, RequestScheduler } from "../../scheduler";
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.setSystemTime(0);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+async function flush() {
+  // Let any pending promise callbacks run.
+  for (let index = 0; index < 10; index++) await Promise.resolve();
+}
+
+describe("RequestScheduler", () => {
+  it("should send requests immediately without rate limit data", async () => {
+    const scheduler = new RequestScheduler({});
+    const task = jest.fn(async () => "done");
+
+    await expect(scheduler.schedule(task)).resolves.toBe("done");
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it("should hold requests until the window resets when exhausted", async () => {
+    const onWait = jest.fn();
+    const scheduler = new RequestScheduler({ onWait });
+    scheduler.update({ remaining: 0, reset: 5000 });
+
+    const task = jest.fn(async () => "done");
+    const result = scheduler.schedule(task);
+    await flush();
+
+    expect(task).not.toHaveBeenCalled();
+    expect(scheduler.queueDepth).toBe(1);
+    expect(onWait).toHaveBeenCalledWith({
+      wait: 5000,
+      queueDepth: 1,
+      remaining: 0,
+      reset: 5000,
+    });
+
+    await jest.advanceTimersByTimeAsync(5000);
+    await expect(result).resolves.toBe("done");
+    expect(scheduler.queueDepth).toBe(0);
+  });
+
+  it("should keep the reserve free", async () => {
+    const scheduler = new RequestScheduler({ reserve: 2, spread: false });
+    scheduler.update({ remaining: 2, reset: 1000 });
+
+    const task = jest.fn(async () => "done");
+    void scheduler.schedule(task);
+    await flush();
+
+    expect(task).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it("should spread requests over the window", async () => {
+    const scheduler = new RequestScheduler({});
+    scheduler.update({ remaining: 10, reset: 10_000 });
+
+    const task = jest.fn(async () => "done");
+    void scheduler.schedule(task);
+    void scheduler.schedule(task);
+    await flush();
+
+    // The first request can go right away...
+    expect(task).toHaveBeenCalledTimes(1);
+
+    // ...but the second has to wait its turn. There are 9 requests left in
+    // the 10s window, so they should be spaced ~1.1s apart.
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(task).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(200);
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it("should only send background requests when nothing else waits", async () => {
+    const scheduler = new RequestScheduler({});
+    scheduler.update({ remaining: 0, reset: 1000 });
+    const order: string[] = [];
+    const task = (name: string) => async () => {
+      order.push(name);
+    };
+
+    const done = Promise.all([
+      scheduler.schedule(task("background"), new Background()),
+      scheduler.schedule(task("first")),
+      scheduler.schedule(task("second")),
+    ]);
+    await flush();
+    expect(scheduler.queueDepth).toBe(3);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await done;
+    expect(order).toStrictEqual(["first", "second", "background"]);
+  });
+
+  it("should send promoted background requests in turn", async () => {
+    const scheduler = new RequestScheduler({});
+    scheduler.update({ remaining: 0, reset: 1000 });
+    const order: string[] = [];
+    const task = (name: string) => async () => {
+      order.push(name);
+    };
+    const background = new Background();
+
+    const done = Promise.all([
+      scheduler.schedule(task("background"), background),
+      scheduler.schedule(task("first")),
+      scheduler.schedule(task("second")),
+    ]);
+    await flush();
+    background.promote();
+    const third = scheduler.schedule(task("third"));
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await Promise.all([done, third]);
+    expect(order).toStrictEqual(["first", "second", "background", "third"]);
+  });
+
+  it("should report the queue depth", async () => {
+    const onQueueDepth = jest.fn();
+    const scheduler = new RequestScheduler({ onQueueDepth, spread: false });
+
+    await scheduler.schedule(async () => "done");
+
+    expect(onQueueDepth.mock.calls).toStrictEqual([[1], [0]]);
+  });
+});
@@ -0,0 +1,87 @@
+import { MissingScopeError } from "../../../errors";
+import { withScopes } from "../../scopes";
+import { MemoryTokenStore } from "../../token-store";
+import { FakeTransport, makeOauthGateway } from "../fake-transport";
+
+let transport: FakeTransport;
+
+async function later() {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+function makeGateway(scopes: string[], strictScopes = true) {
+  const tokenStore = new MemoryTokenStore({
+    access: "accessTkn",
+    expiration: Date.now() + 60_000,
+    scopes,
+  });
+  return makeOauthGateway(transport, { tokenStore, strictScopes });
+}
+
+beforeEach(() => {
+  transport = new FakeTransport();
+});
+
+describe("OauthGateway with strict scopes", () => {
+  it("should send requests that were granted the needed scope", async () => {
+    const gateway = makeGateway(["read"]);
+
+    await withScopes(["read"], async () => gateway.get("r/foo/about"));
+
+    expect(transport.requests).toHaveLength(1);
+  });
+
+  it("should fail before sending requests missing a scope", async () => {
+    const gateway = makeGateway(["read"]);
+
+    const request = withScopes(["read", "modcontributors"], async () =>
+      gateway.post("r/foo/api/friend", { type: "banned" })
+    );
+    await expect(request).rejects.toStrictEqual(
+      new MissingScopeError(["modcontributors"], "r/foo/api/friend")
+    );
+    expect(transport.requests).toHaveLength(0);
+  });
+
+  it("should check requests made after the method awaited something", async () => {
+    const gateway = makeGateway(["read"]);
+    // Give the scopes a moment to start following promises around.
+    withScopes(["read"], () => 0);
+    await later();
+
+    const request = withScopes(["modposts"], async () => {
+      await later();
+      return gateway.post("api/lock", { id: "t3_foo" });
+    });
+    await expect(request).rejects.toBeInstanceOf(MissingScopeError);
+    expect(transport.requests).toHaveLength(0);
+  });
+
+  it("should treat the wildcard scope as every scope", async () => {
+    const gateway = makeGateway(["*"]);
+
+    await withScopes(["modposts"], async () =>
+      gateway.post("api/lock", { id: "t3_foo" })
+    );
+
+    expect(transport.requests).toHaveLength(1);
+  });
+
+  it("should not check anything unless enabled", async () => {
+    const gateway = makeGateway(["read"], false);
+
+    await withScopes(["modposts"], async () =>
+      gateway.post("api/lock", { id: "t3_foo" })
+    );
+
+    expect(transport.requests).toHaveLength(1);
+  });
+
+  it("should not check requests made outside of scoped methods", async () => {
+    const gateway = makeGateway([]);
+
+    await gateway.post("api/lock", { id: "t3_foo" });
+
+    expect(transport.requests).toHaveLength(1);
+  });
+});
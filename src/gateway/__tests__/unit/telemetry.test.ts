@@ -0,0 +1,111 @@
+import type { PageEvent, RequestEvent } from "../../telemetry";
+
+import { Client } from "../../../client";
+import { endpointTemplate } from "../../telemetry";
+import { FakeTransport, makeGateway, reply } from "../fake-transport";
+
+const headers = {
+  /* eslint-disable @typescript-eslint/naming-convention */
+  "x-ratelimit-remaining": "42",
+  "x-ratelimit-reset": "60",
+  /* eslint-enable @typescript-eslint/naming-convention */
+};
+
+function status(code: number) {
+  return reply('{"a":"ü"}', code, headers);
+}
+
+describe("endpointTemplate()", () => {
+  it.each([
+    ["r/funny/about", "r/{subreddit}/about"],
+    ["user/someone/submitted", "user/{username}/submitted"],
+    ["comments/abc123", "comments/{id}"],
+    ["by_id/t3_a,t3_b", "by_id/{fullnames}"],
+    ["api/info", "api/info"],
+    ["api/v1/me/friends/someone", "api/v1/me/friends/{username}"],
+  ])("should turn %s into %s", (path, template) => {
+    expect(endpointTemplate(path)).toBe(template);
+  });
+});
+
+describe("Telemetry", () => {
+  let transport: FakeTransport;
+  let requests: RequestEvent[];
+
+  beforeEach(() => {
+    transport = new FakeTransport();
+    transport.fallback = status(200);
+    requests = [];
+  });
+
+  function reportingGateway() {
+    return makeGateway(transport, {
+      retry: { baseDelay: 0 },
+      telemetry: { onRequest: event => requests.push(event) },
+    });
+  }
+
+  it("should report every request once, including its retries", async () => {
+    transport.responses = [status(503), status(200)];
+
+    await reportingGateway().get("r/funny/about");
+
+    expect(requests).toStrictEqual([
+      {
+        method: "GET",
+        endpoint: "r/{subreddit}/about",
+        path: "r/funny/about",
+        status: 200,
+        duration: expect.any(Number) as number,
+        bytes: 10,
+        retries: 1,
+        rateLimitRemaining: 42,
+      },
+    ]);
+  });
+
+  it("should report requests that fail without a response", async () => {
+    const error = new Error("boom");
+    transport.responses = [error];
+
+    await expect(reportingGateway().post("api/submit", {})).rejects.toBe(error);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0]).toMatchObject({ status: undefined, bytes: 0, error });
+  });
+
+  it("should ignore errors thrown by hooks", async () => {
+    const gateway = makeGateway(transport, {
+      telemetry: {
+        onRequest: () => {
+          throw new Error("broken exporter");
+        },
+      },
+    });
+
+    await expect(gateway.get("foo")).resolves.toStrictEqual({ a: "ü" });
+  });
+
+  it("should report the pages of listings", async () => {
+    transport.fallback = reply({ kind: "Listing", data: { children: [] } });
+    const pages: PageEvent[] = [];
+    const client = new Client({
+      userAgent: "fake-user-agent",
+      transport,
+      telemetry: { onPage: event => pages.push(event) },
+    });
+
+    await client.subreddits.getNewPosts("test").eachPage(jest.fn());
+
+    expect(pages).toStrictEqual([
+      {
+        endpoint: "r/{subreddit}/new",
+        path: "r/test/new",
+        after: undefined,
+        items: 0,
+        duration: expect.any(Number) as number,
+        done: true,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,166 @@
+import type { TransportRequest } from "../../transport/transport";
+
+import { chmod, mkdtemp, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { Client } from "../../../client";
+import { AuthError } from "../../../errors";
+import { FileTokenStore, MemoryTokenStore } from "../../token-store";
+import {
+  FakeTransport,
+  makeOauthGateway,
+  reply,
+  tokenReply,
+} from "../fake-transport";
+
+const creds = { clientId: "cId", clientSecret: "cSecret" };
+const validToken = {
+  access: "stored",
+  expiration: Date.now() + 60_000,
+  refresh: "refreshTkn",
+  scopes: ["read"],
+};
+
+let transport: FakeTransport;
+// Reddit doesn't always send a new refresh token when refreshing.
+let rotates: boolean;
+
+beforeEach(() => {
+  transport = new FakeTransport();
+  transport.fallback = async (request: TransportRequest) => {
+    if (!request.url.includes("access_token")) return reply({});
+    /* eslint-disable @typescript-eslint/naming-convention */
+    return tokenReply({
+      access_token: "fresh",
+      ...(rotates && { refresh_token: "rotated" }),
+      scope: "read",
+    });
+    /* eslint-enable @typescript-eslint/naming-convention */
+  };
+  rotates = true;
+});
+
+describe("OauthGateway with a token store", () => {
+  it("should reuse a stored token that is still valid", async () => {
+    const tokenStore = new MemoryTokenStore(validToken);
+    const gateway = makeOauthGateway(transport, { tokenStore });
+
+    await gateway.get("foo");
+
+    expect(transport.requests).toHaveLength(1);
+    expect(transport.requests[0].headers.authorization).toBe("bearer stored");
+  });
+
+  it("should refresh an expired stored token and save the new one", async () => {
+    const tokenStore = new MemoryTokenStore({ ...validToken, expiration: 0 });
+    const gateway = makeOauthGateway(transport, { tokenStore });
+
+    await gateway.get("foo");
+
+    expect(transport.requests[0].body).toContain("refresh_token=refreshTkn");
+    expect(tokenStore.load()).toMatchObject({
+      access: "fresh",
+      refresh: "rotated",
+    });
+  });
+
+  it("should keep the refresh token if the response has no new one", async () => {
+    rotates = false;
+    const tokenStore = new MemoryTokenStore({ ...validToken, expiration: 0 });
+    const gateway = makeOauthGateway(transport, { tokenStore });
+
+    await gateway.get("foo");
+
+    expect(tokenStore.load()).toMatchObject({
+      access: "fresh",
+      refresh: "refreshTkn",
+    });
+  });
+});
+
+describe("Client token revocation", () => {
+  it("should revoke the refresh token and log out", async () => {
+    const tokenStore = new MemoryTokenStore(validToken);
+    const client = new Client({
+      userAgent: "fake-user-agent",
+      auth: { refreshToken: "refreshTkn" },
+      creds,
+      transport,
+      tokenStore,
+    });
+
+    await client.logout();
+
+    expect(transport.requests).toHaveLength(1);
+    expect(transport.requests[0].url).toContain("api/v1/revoke_token");
+    expect(transport.requests[0].body).toContain(
+      "token=refreshTkn&token_type_hint=refresh_token"
+    );
+    expect(tokenStore.load()).toBeUndefined();
+    expect(client.getRefreshToken()).toBeUndefined();
+    await expect(client.me.fetch()).rejects.toBeInstanceOf(AuthError);
+  });
+
+  it("should revoke just the access token", async () => {
+    const tokenStore = new MemoryTokenStore(validToken);
+    const client = new Client({
+      userAgent: "fake-user-agent",
+      creds,
+      transport,
+      tokenStore,
+    });
+
+    await client.revokeAccessToken();
+
+    expect(transport.requests[0].body).toContain(
+      "token=stored&token_type_hint=access_token"
+    );
+    await expect(client.me.fetch()).rejects.toBeInstanceOf(AuthError);
+    expect(transport.requests).toHaveLength(1);
+    expect(client.getRefreshToken()).toBe("refreshTkn");
+    expect(tokenStore.load()).toStrictEqual({
+      ...validToken,
+      access: "",
+      expiration: 0,
+    });
+  });
+});
+
+describe("FileTokenStore", () => {
+  let directory: string;
+  let file: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "snoots-"));
+    file = path.join(directory, "token.json");
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should have nothing stored until a token is saved", async () => {
+    await expect(new FileTokenStore(file).load()).resolves.toBeUndefined();
+  });
+
+  it("should load tokens saved by another store", async () => {
+    await new FileTokenStore(file).save(validToken);
+
+    await expect(new FileTokenStore(file).load()).resolves.toStrictEqual(
+      validToken
+    );
+    const { mode } = await stat(file);
+    expect(mode & 0o777).toBe(0o600);
+  });
+
+  it("should only let the owner read a file that already existed", async () => {
+    await writeFile(file, "{}");
+    await chmod(file, 0o644);
+
+    await new FileTokenStore(file).save(validToken);
+
+    const { mode } = await stat(file);
+    expect(mode & 0o777).toBe(0o600);
+  });
+});
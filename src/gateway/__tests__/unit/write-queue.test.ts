@@ -0,0 +1,113 @@
+import type { WriteQueueWaitEvent } from "../../write-queue";
+
+import { AbortError, RateLimitedError } from "../../../errors";
+import { WriteQueue } from "../../write-queue";
+import { FakeTransport, makeGateway, reply } from "../fake-transport";
+
+const ratelimitResponse = reply({
+  json: {
+    errors: [
+      [
+        "RATELIMIT",
+        "you are doing that too much. try again in 7 minutes.",
+        "ratelimit",
+      ],
+    ],
+  },
+});
+
+function rateLimited(retryAfter: number) {
+  return new RateLimitedError({ code: "RATELIMIT" }, retryAfter);
+}
+
+describe("RATELIMIT errors", () => {
+  it("should parse the wait time", async () => {
+    const gateway = makeGateway(new FakeTransport(ratelimitResponse));
+
+    const request = gateway.post("api/submit", {});
+    await expect(request).rejects.toBeInstanceOf(RateLimitedError);
+    await expect(request).rejects.toMatchObject({
+      field: "ratelimit",
+      retryAfter: 7 * 60 * 1000,
+    });
+  });
+
+  it("should retry after the wait time with a write queue", async () => {
+    jest.useFakeTimers();
+    try {
+      const waits: WriteQueueWaitEvent[] = [];
+      const transport = new FakeTransport(ratelimitResponse);
+      const gateway = makeGateway(transport, {
+        writeQueue: { onWait: event => waits.push(event) },
+      });
+
+      const request = gateway.post("api/submit", {});
+      await jest.advanceTimersByTimeAsync(7 * 60 * 1000 - 1);
+      expect(transport.requests).toHaveLength(1);
+      await jest.advanceTimersByTimeAsync(1);
+      await request;
+
+      expect(transport.requests).toHaveLength(2);
+      expect(waits).toStrictEqual([
+        { path: "api/submit", wait: 7 * 60 * 1000, queueDepth: 1 },
+      ]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe("WriteQueue", () => {
+  it("should send writes one at a time", async () => {
+    const queue = new WriteQueue({});
+    const order: string[] = [];
+    const task = (name: string) => async () => {
+      order.push(`start ${name}`);
+      await Promise.resolve();
+      order.push(`end ${name}`);
+      return name;
+    };
+
+    const results = await Promise.all([
+      queue.run("a", task("a")),
+      queue.run("b", task("b")),
+    ]);
+
+    expect(results).toStrictEqual(["a", "b"]);
+    expect(order).toStrictEqual(["start a", "end a", "start b", "end b"]);
+  });
+
+  it("should give up after maxRetries", async () => {
+    const queue = new WriteQueue({ maxRetries: 1 });
+    const task = jest.fn(async () => {
+      throw rateLimited(0);
+    });
+
+    await expect(queue.run("a", task)).rejects.toBeInstanceOf(RateLimitedError);
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not wait longer than maxWait", async () => {
+    const queue = new WriteQueue({ maxWait: 1000 });
+    const task = jest.fn(async () => {
+      throw rateLimited(2000);
+    });
+
+    await expect(queue.run("a", task)).rejects.toBeInstanceOf(RateLimitedError);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it("should cancel waiting and queued writes", async () => {
+    const queue = new WriteQueue({});
+    const first = queue.run("a", async () => {
+      throw rateLimited(60_000);
+    });
+    const second = queue.run("b", async () => "b");
+    await Promise.resolve();
+
+    expect(queue.cancel()).toBe(2);
+    await expect(first).rejects.toBeInstanceOf(AbortError);
+    await expect(second).rejects.toBeInstanceOf(AbortError);
+    expect(queue.queueDepth).toBe(0);
+  });
+});
@@ -0,0 +1,97 @@
+import type { Maybe } from "../helper/types";
+import type { Background } from "./scheduler";
+
+import { AbortError, TimeoutError } from "../errors";
+
+/** Options for cancelling a request. */
+export interface RequestOptions {
+  /** A signal that cancels the request when it's aborted. */
+  signal?: AbortSignal;
+
+  /**
+   * How long to wait for the request, in milliseconds, before cancelling it
+   * with a {@link TimeoutError}. This includes time spent waiting for the rate
+   * limit, write queue, and retries.
+   */
+  timeout?: number;
+
+  /**
+   * Set if nobody is waiting for the request yet, like when the next page of a
+   * listing is prefetched. The request scheduler only sends these when no
+   * other requests are waiting, or once they are promoted.
+   *
+   * @internal
+   */
+  background?: Background;
+}
+
+function abortError(signal: AbortSignal, what: string): AbortError {
+  // Keep the reason if it's already one of ours (like a TimeoutError).
+  const { reason } = signal as { reason?: unknown };
+  return reason instanceof AbortError
+    ? reason
+    : new AbortError(`${what} was cancelled`);
+}
+
+/**
+ * Throw if a signal has been aborted.
+ *
+ * @internal
+ *
+ * @param signal The signal to check.
+ * @param what What is being cancelled, for the error message.
+ */
+export function throwIfAborted(signal: Maybe<AbortSignal>, what: string): void {
+  if (signal?.aborted) throw abortError(signal, what);
+}
+
+/**
+ * Run a task that can be cancelled by a signal or a timeout.
+ *
+ * The returned promise rejects as soon as the task is cancelled, even if the
+ * task itself doesn't stop right away.
+ *
+ * @internal
+ *
+ * @param what What is being run, for the error message.
+ * @param options The signal and timeout.
+ * @param task The task to run. It's given a signal that is aborted when the
+ * task is cancelled.
+ *
+ * @returns The result of the task.
+ */
+export async function withAbort<T>(
+  what: string,
+  options: RequestOptions,
+  task: (signal?: AbortSignal) => Promise<T>
+): Promise<T> {
+  const { signal, timeout } = options;
+  if (!signal && timeout == undefined) return task();
+  throwIfAborted(signal, what);
+
+  // Node 14 doesn't have AbortController. There the task keeps running after
+  // it's cancelled, but the caller still stops waiting for it.
+  const controller =
+    typeof AbortController === "undefined" ? undefined : new AbortController();
+  let timer: Maybe<ReturnType<typeof setTimeout>>;
+  let onAbort: Maybe<() => void>;
+  const cancelled = new Promise<never>((_resolve, reject) => {
+    const cancel = (error: AbortError) => {
+      controller?.abort();
+      reject(error);
+    };
+    onAbort = () => cancel(abortError(signal!, what));
+    signal?.addEventListener("abort", onAbort, { once: true });
+    if (timeout != undefined) {
+      const message = `${what} timed out after ${timeout}ms`;
+      timer = setTimeout(() => cancel(new TimeoutError(message)), timeout);
+    }
+  });
+
+  try {
+    return await Promise.race([task(controller?.signal ?? signal), cancelled]);
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) signal?.removeEventListener("abort", onAbort);
+  }
+}
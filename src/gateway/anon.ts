@@ -1,10 +1,16 @@
+import type { GatewayOptions } from "./types";
+
 import { Gateway } from "./gateway";
 
 /** @internal */
 export class AnonGateway extends Gateway {
   /** @internal */
-  constructor(userAgent: string) {
-    super("https://www.reddit.com", userAgent);
+  constructor(userAgent: string, options: GatewayOptions = {}) {
+    super(
+      options.endpoints?.www ?? "https://www.reddit.com",
+      userAgent,
+      options
+    );
   }
 
   protected async auth(): Promise<undefined> {
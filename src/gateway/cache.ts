@@ -0,0 +1,307 @@
+import type { Awaitable, Data, Maybe } from "../helper/types";
+import type { TransportResponse } from "./transport/transport";
+import type { GatewayRequest } from "./types";
+
+import { makeDebug } from "../helper/debug";
+
+const debug = makeDebug("gateway:cache");
+
+/** A cached response. */
+export interface CacheEntry {
+  /** The raw body of the response. */
+  body: string;
+
+  /** When the entry stops being fresh, in milliseconds since the epoch. */
+  expires: number;
+
+  /** The `ETag` header of the response, if there was one. */
+  etag?: string;
+
+  /** The `Last-Modified` header of the response, if there was one. */
+  lastModified?: string;
+}
+
+/**
+ * A place to keep cached responses.
+ *
+ * Stale entries are kept around so they can be revalidated with a conditional
+ * request, so stores should evict entries on their own terms (like size).
+ */
+export interface CacheStore {
+  get(key: string): Awaitable<Maybe<CacheEntry>>;
+  set(key: string, entry: CacheEntry): Awaitable<void>;
+  delete(key: string): Awaitable<void>;
+  keys(): Awaitable<Iterable<string>>;
+  clear(): Awaitable<void>;
+}
+
+/** A rule that controls how long responses for some paths are cached. */
+export interface CacheRule {
+  /**
+   * The paths this rule applies to.
+   *
+   * Strings match the path itself and everything below it, so `r/funny`
+   * matches `r/funny/about` but not `r/funnyandsad`.
+   */
+  path: string | RegExp;
+
+  /**
+   * How long responses stay fresh, in milliseconds. A TTL of `0` disables
+   * caching for these paths.
+   */
+  ttl: number;
+}
+
+/** Options for the GET response cache. */
+export interface CacheOptions {
+  /**
+   * How long responses stay fresh, in milliseconds, for paths that no rule
+   * matches. Defaults to `0`, so only the paths of the rules are cached.
+   */
+  ttl?: number;
+
+  /**
+   * Per-path TTLs. The first matching rule is used.
+   *
+   * These are checked before the default rules, which cache things that rarely
+   * change for 30 seconds: the about pages, rules and moderators of
+   * subreddits, and the about pages of users.
+   */
+  rules?: CacheRule[];
+
+  /**
+   * Where to keep cached responses. Defaults to a {@link MemoryCacheStore}.
+   *
+   * @note Cache keys do not include the account making the request, so stores
+   * should not be shared between clients for different accounts.
+   */
+  store?: CacheStore;
+}
+
+/** An in-memory {@link CacheStore} that evicts least recently used entries. */
+export class MemoryCacheStore implements CacheStore {
+  protected maxEntries: number;
+  protected entries: Map<string, CacheEntry> = new Map();
+
+  /**
+   * Make a new in-memory store.
+   *
+   * @param maxEntries The most entries to keep at once.
+   */
+  constructor(maxEntries: number = 500) {
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string): Maybe<CacheEntry> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Move the entry to the end of the map to mark it as recently used.
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): Iterable<string> {
+    return [...this.entries.keys()];
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+// What is cached unless the rules say otherwise.
+const defaultRules: CacheRule[] = [
+  { path: /^r\/[^/]+\/about(\/(rules|moderators))?$/i, ttl: 30 * 1000 },
+  { path: /^user\/[^/]+\/about$/i, ttl: 30 * 1000 },
+];
+
+// Listings that a new or changed post or comment can show up in.
+const listingPaths = [
+  /^((r|user)\/[^/]+\/)?(best|hot|new|rising|top|controversial|comments)$/i,
+  /^user\/[^/]+\/(overview|submitted|saved|hidden|upvoted|downvoted)$/i,
+  /^r\/[^/]+\/about\/(modqueue|reports|spam|edited|unmoderated)$/i,
+];
+
+function pathOf(key: string): string {
+  return key.split("?", 1)[0];
+}
+
+function isBelow(path: string, parent: string): boolean {
+  const lowerPath = path.toLowerCase();
+  const lowerParent = parent.toLowerCase();
+  return lowerPath === lowerParent || lowerPath.startsWith(`${lowerParent}/`);
+}
+
+/**
+ * Work out which cached paths could be affected by a write.
+ *
+ * @param request The write request.
+ *
+ * @returns The paths to invalidate, and whether listings could be affected.
+ */
+function affectedPaths(request: GatewayRequest): {
+  paths: Set<string>;
+  listings: boolean;
+} {
+  const paths = new Set<string>();
+  // We don't know which listings a post or comment shows up in, so every
+  // listing is invalidated when one is posted or changed.
+  let listings = request.path === "api/submit";
+
+  const subredditApi = /^r\/([^/]+)\/api\//.exec(request.path);
+  if (subredditApi) paths.add(`r/${subredditApi[1]}`);
+
+  const data: Data = { ...request.form, ...request.json };
+  for (const key of ["sr", "sr_name"]) {
+    if (typeof data[key] === "string") paths.add(`r/${data[key] as string}`);
+  }
+
+  for (const key of ["id", "thing_id", "parent"]) {
+    if (typeof data[key] !== "string") continue;
+    listings = true;
+    paths.add("api/info");
+    for (const id of (data[key] as string).split(",")) {
+      // Comments are only cached as part of their post, which we don't know.
+      if (id.startsWith("t1_")) paths.add("comments");
+      if (id.startsWith("t3_")) paths.add(`comments/${id.slice(3)}`);
+    }
+  }
+
+  return { paths, listings };
+}
+
+/**
+ * A cache for GET responses.
+ *
+ * Responses are kept fresh for a configurable time, revalidated with
+ * conditional requests once they go stale, and invalidated automatically when
+ * a write could have changed them.
+ */
+export class ResponseCache {
+  protected options: CacheOptions;
+  protected store: CacheStore;
+
+  /** @internal */
+  constructor(options: CacheOptions) {
+    this.options = options;
+    this.store = options.store ?? new MemoryCacheStore();
+  }
+
+  /**
+   * Remove every cached response for a path and everything below it.
+   *
+   * @example Forget everything about a subreddit
+   * ```ts
+   * await client.cache?.invalidate("r/funny");
+   * ```
+   *
+   * @param path The path to invalidate.
+   */
+  async invalidate(path: string): Promise<void> {
+    await this.remove(cached => isBelow(cached, path));
+  }
+
+  /** Remove every cached response. */
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  /**
+   * Make a request through the cache.
+   *
+   * @internal
+   *
+   * @param request The request to make.
+   * @param send A function that sends the request with some extra headers.
+   *
+   * @returns The response, either from the cache or from Reddit.
+   */
+  async run(
+    request: GatewayRequest,
+    send: (headers: Record<string, string>) => Promise<TransportResponse>
+  ): Promise<TransportResponse> {
+    if (request.method !== "GET") {
+      const response = await send({});
+      const { paths, listings } = affectedPaths(request);
+      for (const path of paths) await this.invalidate(path);
+      if (listings) {
+        await this.remove(cached =>
+          listingPaths.some(pattern => pattern.test(cached))
+        );
+      }
+      return response;
+    }
+
+    const ttl = this.ttl(request.path);
+    if (ttl <= 0 || request.cache === false) return send({});
+
+    const key = this.key(request);
+    const entry = await this.store.get(key);
+    if (entry && entry.expires > Date.now()) {
+      debug("Cache hit for '%s'", key);
+      return { status: 200, headers: {}, body: entry.body };
+    }
+
+    const headers: Record<string, string> = {};
+    if (entry?.etag) headers["if-none-match"] = entry.etag;
+    if (entry?.lastModified) headers["if-modified-since"] = entry.lastModified;
+
+    const response = await send(headers);
+    if (entry && response.status === 304) {
+      debug("Revalidated '%s'", key);
+      await this.store.set(key, { ...entry, expires: Date.now() + ttl });
+      return { ...response, status: 200, body: entry.body };
+    }
+
+    if (response.status >= 200 && response.status < 300) {
+      await this.store.set(key, {
+        body: response.body,
+        expires: Date.now() + ttl,
+        etag: response.headers["etag"],
+        lastModified: response.headers["last-modified"],
+      });
+    }
+    return response;
+  }
+
+  protected async remove(matches: (path: string) => boolean): Promise<void> {
+    for (const key of await this.store.keys()) {
+      if (matches(pathOf(key))) await this.store.delete(key);
+    }
+  }
+
+  protected ttl(path: string): number {
+    for (const rule of [...(this.options.rules ?? []), ...defaultRules]) {
+      const matches =
+        typeof rule.path === "string"
+          ? isBelow(path, rule.path)
+          : rule.path.test(path);
+      if (matches) return rule.ttl;
+    }
+    return this.options.ttl ?? 0;
+  }
+
+  protected key(request: GatewayRequest): string {
+    const query = Object.entries(request.query)
+      .filter(([, value]) => value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, value]) => `${key}=${String(value)}`)
+      .join("&");
+    return `${request.path}?${query}`;
+  }
+}
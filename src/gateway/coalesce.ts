@@ -0,0 +1,101 @@
+import type { Maybe } from "../helper/types";
+import type { TransportResponse } from "./transport/transport";
+import type { GatewayRequest } from "./types";
+
+import { makeDebug } from "../helper/debug";
+import { Background } from "./scheduler";
+
+const debug = makeDebug("gateway:coalesce");
+
+function sortedEntries(record: Record<string, unknown>): [string, unknown][] {
+  return Object.entries(record)
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+}
+
+interface InFlight {
+  response: Promise<TransportResponse>;
+  background?: Background;
+}
+
+/**
+ * Lets identical GET requests that are in flight at the same time share one
+ * response.
+ *
+ * Every gateway has its own coalescer, so requests are only shared between
+ * callers with the same authorization.
+ *
+ * @internal
+ */
+export class RequestCoalescer {
+  protected inFlight = new Map<string, InFlight>();
+  protected onJoin: (request: GatewayRequest) => void;
+
+  /**
+   * Make a new RequestCoalescer.
+   *
+   * @param onJoin Called every time a request joins one that's in flight.
+   */
+  constructor(onJoin: (request: GatewayRequest) => void) {
+    this.onJoin = onJoin;
+  }
+
+  /**
+   * Send a request, unless an identical one is already in flight.
+   *
+   * The shared request is sent without a signal, since cancelling it would
+   * also cancel it for everyone else waiting on it. Callers can still stop
+   * waiting for it on their own. It stays in the background only until one of
+   * its callers is in the foreground.
+   *
+   * @param request The request to send.
+   * @param send Send the request for real.
+   *
+   * @returns The (possibly shared) response. Since the transport response is
+   * shared, and not the parsed one, every caller gets its own copy of the data.
+   */
+  async run(
+    request: GatewayRequest,
+    send: (request: GatewayRequest) => Promise<TransportResponse>
+  ): Promise<TransportResponse> {
+    if (request.method !== "GET") return send(request);
+
+    const key = this.key(request);
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      debug("Joining in-flight request '%s'", key);
+      this.onJoin(request);
+      this.follow(request, pending.background);
+      return pending.response;
+    }
+
+    const background = request.background && new Background();
+    this.follow(request, background);
+    const response = send({ ...request, signal: undefined, background });
+    this.inFlight.set(key, { response, background });
+    try {
+      return await response;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  // Move the shared request to the foreground once the caller is.
+  protected follow(request: GatewayRequest, shared: Maybe<Background>): void {
+    if (!shared) return;
+    if (request.background) {
+      request.background.onPromote(() => shared.promote());
+    } else {
+      shared.promote();
+    }
+  }
+
+  protected key(request: GatewayRequest): string {
+    return JSON.stringify([
+      request.path,
+      sortedEntries(request.query),
+      sortedEntries(request.headers ?? {}),
+      request.cache,
+    ]);
+  }
+}
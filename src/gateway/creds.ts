@@ -1,5 +1,7 @@
-import type { BasicAuth } from "./types";
+import type { RedditErrorDetails } from "../errors";
+import type { BasicAuth, GatewayOptions } from "./types";
 
+import { AuthError } from "../errors";
 import { Gateway } from "./gateway";
 
 /**
@@ -17,13 +19,17 @@ import { Gateway } from "./gateway";
  * 1. The ID is just below the name of the application, and the secret is where
  *    it says "secret"
  *
+ * Installed apps don't have a secret, so leave it out for those. They can only
+ * log in using {@link InstalledClientAuth}, a refresh token, an auth code or
+ * the implicit grant.
+ *
  * ![Where to find the client ID and secret](media://app_creds.png)
  */
 export interface Credentials {
   /** The ID of your Reddit application. */
   clientId: string;
-  /** The secret of your Reddit application. */
-  clientSecret: string;
+  /** The secret of your Reddit application, unless it's an installed app. */
+  clientSecret?: string;
 }
 
 /** @internal */
@@ -31,13 +37,30 @@ export class CredsGateway extends Gateway {
   protected creds: Credentials;
 
   /** @internal */
-  constructor(creds: Credentials, userAgent: string) {
-    super("https://www.reddit.com", userAgent);
+  constructor(
+    creds: Credentials,
+    userAgent: string,
+    options: GatewayOptions = {}
+  ) {
+    super(
+      options.endpoints?.www ?? "https://www.reddit.com",
+      userAgent,
+      options
+    );
     this.creds = creds;
   }
 
   protected async auth(): Promise<BasicAuth> {
-    return { user: this.creds.clientId, pass: this.creds.clientSecret };
+    // Installed apps authenticate with an empty secret.
+    return { user: this.creds.clientId, pass: this.creds.clientSecret ?? "" };
+  }
+
+  protected override handleError(details: RedditErrorDetails): never {
+    // This gateway is only used for authentication, so any error it gets is an
+    // authentication error.
+    let message = `Authentication failed: ${details.code}`;
+    if (details.description) message += `: ${details.description}`;
+    throw new AuthError(message, details.code, details.status);
   }
 
   protected mapPath(path: string): string {
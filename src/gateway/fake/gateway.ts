@@ -0,0 +1,48 @@
+import type { Maybe } from "../../helper/types";
+import type { GatewayRequest } from "../types";
+import type { FakeReddit } from "./reddit";
+
+import { Gateway } from "../gateway";
+import { noTransport } from "../transport/transport";
+import { route } from "./routes";
+
+/**
+ * A gateway that answers requests from a {@link FakeReddit} instead of the
+ * network.
+ *
+ * Use {@link FakeReddit.gateway} to make one.
+ */
+export class FakeRedditGateway extends Gateway {
+  protected reddit: FakeReddit;
+  protected username: Maybe<string>;
+
+  /** @internal */
+  constructor(reddit: FakeReddit, username?: string) {
+    super("https://www.reddit.com", "snoots fake", {
+      transport: noTransport("A fake gateway"),
+    });
+    this.reddit = reddit;
+    this.username = username;
+  }
+
+  protected async auth(): Promise<undefined> {
+    return undefined;
+  }
+
+  protected mapPath(path: string): string {
+    return path;
+  }
+
+  protected override async dispatch(request: GatewayRequest): Promise<unknown> {
+    const response = route({
+      reddit: this.reddit,
+      request,
+      user: this.username,
+      body: { ...request.form, ...request.json },
+    });
+
+    // Round trip through JSON so callers can't mutate the fake's state, and so
+    // the response looks exactly like it came over the wire.
+    return JSON.parse(JSON.stringify(response) ?? "null") as unknown;
+  }
+}
@@ -0,0 +1,505 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import type { Data, Maybe } from "../../helper/types";
+import type { Query } from "../types";
+
+import { AuthError, ForbiddenError, NotFoundError } from "../../errors";
+import { FakeRedditGateway } from "./gateway";
+
+/** The relationships a user can have with a subreddit. */
+export type FakeRelationship =
+  | "banned"
+  | "contributor"
+  | "moderator_invite"
+  | "muted"
+  | "wikibanned"
+  | "wikicontributor";
+
+/** @internal */
+export interface FakeSubreddit {
+  data: Data;
+  moderators: Map<string, number>;
+  relationships: Map<FakeRelationship, Map<string, number>>;
+}
+
+/** Options for creating a post in a {@link FakeReddit}. */
+export interface FakePostOptions {
+  /** The title of the post. */
+  title: string;
+
+  /** The text of the post, for text posts. */
+  text?: string;
+
+  /** The url of the post, for link posts. */
+  url?: string;
+}
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function key(name: string): string {
+  return name.toLowerCase();
+}
+
+function idNumber(data: Data): number {
+  return Number.parseInt(data.id as string, 36);
+}
+
+/**
+ * An in-memory model of Reddit, for testing code built on snoots without
+ * touching the network.
+ *
+ * A FakeReddit holds users, subreddits, posts and comments. Clients talk to it
+ * through a {@link FakeRedditGateway}, so changes made by one client (like
+ * submitting a post) are visible to every other client using the same
+ * FakeReddit.
+ *
+ * @example Testing a bot against a fake Reddit
+ * ```ts
+ * const reddit = new FakeReddit();
+ * reddit.addUser("bot");
+ * reddit.addSubreddit("test", { moderators: ["bot"] });
+ *
+ * const client = new Client({ userAgent: "test" }, reddit.gateway("bot"));
+ * const id = await client.subreddits.postText("test", "Hello", "World");
+ * const first = await client.subreddits.getNewPosts("test").first();
+ * ```
+ */
+export class FakeReddit {
+  /** @internal */
+  readonly users: Map<string, Data> = new Map();
+  /** @internal */
+  readonly subreddits: Map<string, FakeSubreddit> = new Map();
+  /** @internal */
+  readonly things: Map<string, Data> = new Map();
+  /** @internal */
+  readonly votes: Map<string, Map<string, number>> = new Map();
+  /** @internal */
+  readonly saved: Map<string, Set<string>> = new Map();
+  /** @internal */
+  readonly hidden: Map<string, Set<string>> = new Map();
+
+  protected lastId: number = 36 ** 4;
+
+  /**
+   * Make a gateway that acts on this fake Reddit.
+   *
+   * @param username The user to act as. If this is left off the gateway acts
+   * like a logged out user, and every write will fail.
+   *
+   * @returns The gateway.
+   */
+  gateway(username?: string): FakeRedditGateway {
+    return new FakeRedditGateway(this, username);
+  }
+
+  /**
+   * Add a user.
+   *
+   * @param name The name of the user.
+   * @param data Any extra raw data for the user.
+   *
+   * @returns The raw data of the user.
+   */
+  addUser(name: string, data: Data = {}): Data {
+    const user: Data = {
+      id: this.nextId(),
+      name,
+      created_utc: now(),
+      link_karma: 1,
+      comment_karma: 0,
+      total_karma: 1,
+      awardee_karma: 0,
+      awarder_karma: 0,
+      icon_img: "",
+      is_employee: false,
+      is_gold: false,
+      is_mod: false,
+      verified: true,
+      has_verified_email: true,
+      hide_from_robots: false,
+      ...data,
+    };
+    this.users.set(key(name), user);
+    return user;
+  }
+
+  /**
+   * Add a subreddit.
+   *
+   * @param name The name of the subreddit.
+   * @param options The moderators of the subreddit and any extra raw data.
+   *
+   * @returns The raw data of the subreddit.
+   */
+  addSubreddit(
+    name: string,
+    options: { moderators?: string[]; data?: Data } = {}
+  ): Data {
+    const id = this.nextId();
+    const data: Data = {
+      id,
+      name: `t5_${id}`,
+      display_name: name,
+      display_name_prefixed: `r/${name}`,
+      title: name,
+      url: `/r/${name}/`,
+      created_utc: now(),
+      description: "",
+      public_description: "",
+      subreddit_type: "public",
+      submission_type: "any",
+      subscribers: 0,
+      over18: false,
+      wiki_enabled: true,
+      spoilers_enabled: true,
+      ...options.data,
+    };
+
+    const moderators = new Map<string, number>();
+    for (const moderator of options.moderators ?? []) {
+      moderators.set(key(moderator), now());
+    }
+
+    this.subreddits.set(key(name), {
+      data,
+      moderators,
+      relationships: new Map(),
+    });
+    return data;
+  }
+
+  /**
+   * Add a post.
+   *
+   * @param subreddit The name of the subreddit to post in.
+   * @param author The name of the author.
+   * @param options The content of the post.
+   *
+   * @returns The raw data of the post.
+   */
+  addPost(subreddit: string, author: string, options: FakePostOptions): Data {
+    const subredditData = this.subreddit(subreddit).data;
+    const subredditName = subredditData.display_name as string;
+    const id = this.nextId();
+    const permalink = `/r/${subredditName}/comments/${id}/post/`;
+    const isSelf = options.url == undefined;
+    const post: Data = {
+      ...this.votableData(author, subredditData),
+      id,
+      name: `t3_${id}`,
+      title: options.title,
+      selftext: options.text ?? "",
+      selftext_html: undefined,
+      url: options.url ?? `https://www.reddit.com${permalink}`,
+      domain: isSelf ? `self.${subredditName}` : new URL(options.url!).hostname,
+      is_self: isSelf,
+      permalink,
+      num_comments: 0,
+      num_crossposts: 0,
+      over_18: false,
+      spoiler: false,
+      pinned: false,
+      contest_mode: false,
+      hide_score: false,
+      upvote_ratio: 1,
+      suggested_sort: undefined,
+      thumbnail: isSelf ? "self" : "default",
+    };
+    this.things.set(post.name as string, post);
+    return post;
+  }
+
+  /**
+   * Add a comment.
+   *
+   * @param parent The fullname of the post or comment to reply to.
+   * @param author The name of the author.
+   * @param text The text of the comment.
+   *
+   * @returns The raw data of the comment.
+   */
+  addComment(parent: string, author: string, text: string): Data {
+    const parentData = this.thing(parent);
+    const postName = (parentData.link_id ?? parentData.name) as string;
+    const post = this.thing(postName);
+    const subredditData = this.subreddit(post.subreddit as string).data;
+
+    const id = this.nextId();
+    const comment: Data = {
+      ...this.votableData(author, subredditData),
+      id,
+      name: `t1_${id}`,
+      body: text,
+      body_html: text,
+      link_id: postName,
+      parent_id: parent,
+      permalink: `${post.permalink as string}${id}/`,
+      is_submitter: post.author === author,
+      collapsed: false,
+      score_hidden: false,
+    };
+    this.things.set(comment.name as string, comment);
+    post.num_comments = (post.num_comments as number) + 1;
+    return comment;
+  }
+
+  /** @internal */
+  nextId(): string {
+    this.lastId += 1;
+    return this.lastId.toString(36);
+  }
+
+  /** @internal */
+  subreddit(name: string): FakeSubreddit {
+    const subreddit = this.subreddits.get(key(name));
+    if (!subreddit) {
+      throw new NotFoundError({ code: "SUBREDDIT_NOEXIST", status: 404 });
+    }
+    return subreddit;
+  }
+
+  /** @internal */
+  user(name: string): Data {
+    const user = this.users.get(key(name));
+    if (!user) throw new NotFoundError({ code: "USER_DOESNT_EXIST" });
+    return user;
+  }
+
+  /**
+   * Get a list of users that have some relationship with a subreddit.
+   *
+   * @internal
+   *
+   * @param users The users, keyed by their lowercased name.
+   *
+   * @returns The raw user list entries.
+   */
+  userList(users: Map<string, number>): Data[] {
+    return [...users].map(([name, date]) => {
+      const user = this.users.get(name);
+      const id = (user?.id ?? name) as string;
+      const displayName = (user?.name ?? name) as string;
+      return { name: displayName, id: `t2_${id}`, date, rel_id: id };
+    });
+  }
+
+  /** @internal */
+  thing(fullname: string): Data {
+    const thing = this.things.get(fullname);
+    if (!thing) throw new NotFoundError({ code: "NO_THING_ID", status: 404 });
+    return thing;
+  }
+
+  /** @internal */
+  relationship(
+    subreddit: FakeSubreddit,
+    type: FakeRelationship
+  ): Map<string, number> {
+    const existing = subreddit.relationships.get(type);
+    if (existing) return existing;
+    const created = new Map<string, number>();
+    subreddit.relationships.set(type, created);
+    return created;
+  }
+
+  /** @internal */
+  isModerator(subreddit: FakeSubreddit, user: Maybe<string>): boolean {
+    return !!user && subreddit.moderators.has(key(user));
+  }
+
+  /** @internal */
+  requireUser(user: Maybe<string>): string {
+    if (!user) {
+      throw new AuthError("Reddit rejected the authorization: 401", "401", 401);
+    }
+    return user;
+  }
+
+  /** @internal */
+  requireModerator(subreddit: FakeSubreddit, user: Maybe<string>): void {
+    if (!this.isModerator(subreddit, this.requireUser(user))) {
+      throw new ForbiddenError({ code: "403", status: 403 });
+    }
+  }
+
+  /** @internal */
+  userSet(sets: Map<string, Set<string>>, user: string): Set<string> {
+    const existing = sets.get(key(user));
+    if (existing) return existing;
+    const created = new Set<string>();
+    sets.set(key(user), created);
+    return created;
+  }
+
+  /**
+   * Get the raw representation of a thing, as seen by a user.
+   *
+   * @internal
+   *
+   * @param data The raw data of the thing.
+   * @param user The user looking at it.
+   *
+   * @returns The Reddit object.
+   */
+  view(data: Data, user: Maybe<string>): Data {
+    const name = data.name as string;
+    const kind = name.slice(0, 2);
+    if (kind === "t5") return { kind, data: this.subredditView(data, user) };
+
+    const myVote = user ? this.votes.get(name)?.get(key(user)) ?? 0 : 0;
+    const score = this.score(name);
+
+    const view: Data = {
+      ...data,
+      score,
+      ups: score,
+      likes: myVote === 0 ? undefined : myVote > 0,
+      saved: user ? this.userSet(this.saved, user).has(name) : false,
+    };
+    if (kind === "t3") {
+      view.hidden = user ? this.userSet(this.hidden, user).has(name) : false;
+    }
+    return { kind, data: view };
+  }
+
+  /**
+   * Paginate a list of things into a Listing.
+   *
+   * @internal
+   *
+   * @param items The raw data of the things, in order.
+   * @param query The query of the request.
+   * @param user The user looking at the listing.
+   *
+   * @returns The Listing.
+   */
+  listing(items: Data[], query: Query, user: Maybe<string>): Data {
+    const limit = Number(query.limit ?? 25);
+    if (query.before) {
+      // Reddit returns nothing if the item isn't in the listing anymore.
+      const end = items.findIndex(item => item.name === query.before);
+      const start = Math.max(end - limit, 0);
+      const page = end === -1 ? [] : items.slice(start, end);
+
+      return {
+        kind: "Listing",
+        data: {
+          after: undefined,
+          before: start > 0 ? (page[0]?.name as string) : undefined,
+          dist: page.length,
+          children: page.map(item => this.view(item, user)),
+        },
+      };
+    }
+
+    const after = query.after ? String(query.after) : "";
+    const start = after ? items.findIndex(item => item.name === after) + 1 : 0;
+    const page = items.slice(start, start + limit);
+    const more = start + limit < items.length;
+
+    return {
+      kind: "Listing",
+      data: {
+        // Node 14 doesn't have Array.prototype.at.
+        // eslint-disable-next-line unicorn/prefer-at
+        after: more ? (page[page.length - 1].name as string) : undefined,
+        before: undefined,
+        dist: page.length,
+        children: page.map(item => this.view(item, user)),
+      },
+    };
+  }
+
+  /**
+   * Get the comment tree for a post.
+   *
+   * @internal
+   *
+   * @param parent The fullname of the post or comment to get the replies of.
+   * @param user The user looking at the tree.
+   *
+   * @returns The replies, as a Listing.
+   */
+  replies(parent: string, user: Maybe<string>): Data {
+    const children = this.comments()
+      .filter(comment => comment.parent_id === parent)
+      .map(comment => {
+        const view = this.view(comment, user);
+        (view.data as Data).replies = this.replies(
+          comment.name as string,
+          user
+        );
+        return view;
+      });
+    return { kind: "Listing", data: { children } };
+  }
+
+  /** @internal */
+  score(name: string): number {
+    let score = 1;
+    for (const vote of this.votes.get(name)?.values() ?? []) score += vote;
+    return score;
+  }
+
+  /** @internal */
+  posts(subreddit?: string): Data[] {
+    return this.newest("t3", subreddit);
+  }
+
+  /** @internal */
+  comments(subreddit?: string): Data[] {
+    return this.newest("t1", subreddit);
+  }
+
+  protected newest(kind: string, subreddit?: string): Data[] {
+    return [...this.things.values()]
+      .filter(thing => (thing.name as string).startsWith(kind))
+      .filter(
+        thing => !subreddit || key(thing.subreddit as string) === key(subreddit)
+      )
+      .sort((a, b) => idNumber(b) - idNumber(a));
+  }
+
+  protected subredditView(data: Data, user: Maybe<string>): Data {
+    const subreddit = this.subreddit(data.display_name as string);
+    const has = (type: FakeRelationship) =>
+      !!user && this.relationship(subreddit, type).has(key(user));
+    return {
+      ...data,
+      user_is_moderator: this.isModerator(subreddit, user),
+      user_is_banned: has("banned"),
+      user_is_contributor: has("contributor"),
+      user_is_muted: has("muted"),
+    };
+  }
+
+  protected votableData(author: string, subreddit: Data): Data {
+    return {
+      author,
+      subreddit: subreddit.display_name as string,
+      subreddit_id: subreddit.name as string,
+      subreddit_type: subreddit.subreddit_type as string,
+      created_utc: now(),
+      edited: false,
+      archived: false,
+      locked: false,
+      stickied: false,
+      distinguished: undefined,
+      approved: false,
+      approved_by: undefined,
+      removed: false,
+      spam: false,
+      send_replies: true,
+      ignore_reports: false,
+      num_reports: 0,
+      user_reports: [],
+      mod_reports: [],
+      gilded: 0,
+      gildings: {},
+      can_gild: true,
+      can_mod_post: false,
+    };
+  }
+}
+/* eslint-enable @typescript-eslint/naming-convention */
@@ -0,0 +1,485 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import type { Data, Maybe } from "../../helper/types";
+import type { HttpMethod } from "../transport/transport";
+import type { GatewayRequest } from "../types";
+import type { FakeReddit, FakeRelationship } from "./reddit";
+
+import { NotFoundError, UnmatchedRequestError } from "../../errors";
+
+/** @internal */
+export interface RouteContext {
+  reddit: FakeReddit;
+  request: GatewayRequest;
+  user: Maybe<string>;
+  body: Data;
+}
+
+type Handler = (context: RouteContext, match: string[]) => unknown;
+
+interface Route {
+  method: HttpMethod;
+  pattern: RegExp;
+  handler: Handler;
+}
+
+const relationshipTypes: Record<string, FakeRelationship> = {
+  banned: "banned",
+  contributors: "contributor",
+  muted: "muted",
+  wikibanned: "wikibanned",
+  wikicontributors: "wikicontributor",
+};
+
+function jsonData(data?: Data) {
+  return { json: { errors: [], data } };
+}
+
+function jsonError(code: string, description: string, field?: string) {
+  return { json: { errors: [[code, description, field]] } };
+}
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function ids(value: unknown): string[] {
+  return typeof value === "string" ? value.split(",").filter(Boolean) : [];
+}
+
+// #region helpers
+function moderatedThing({ reddit, user, body }: RouteContext): Data {
+  const thing = reddit.thing(String(body.id));
+  reddit.requireModerator(reddit.subreddit(thing.subreddit as string), user);
+  return thing;
+}
+
+function ownThing({ reddit, user }: RouteContext, id: string): Data {
+  const thing = reddit.thing(id);
+  if (thing.author !== reddit.requireUser(user)) {
+    reddit.requireModerator(reddit.subreddit(thing.subreddit as string), user);
+  }
+  return thing;
+}
+
+function setFlag(flag: string, value: boolean): Handler {
+  return context => {
+    moderatedThing(context)[flag] = value;
+    return jsonData();
+  };
+}
+
+function setOwnFlag(flag: string, value: boolean): Handler {
+  return context => {
+    ownThing(context, String(context.body.id))[flag] = value;
+    return jsonData();
+  };
+}
+
+function setUserFlag(set: "saved" | "hidden", value: boolean): Handler {
+  return ({ reddit, user, body }) => {
+    const names = reddit.userSet(reddit[set], reddit.requireUser(user));
+    const name = reddit.thing(String(body.id)).name as string;
+    if (value) names.add(name);
+    else names.delete(name);
+    return jsonData();
+  };
+}
+
+function sortedPosts(reddit: FakeReddit, sort: string, subreddit?: string) {
+  const posts = reddit.posts(subreddit);
+  if (sort === "new") return posts;
+  return posts.sort(
+    (a, b) => reddit.score(b.name as string) - reddit.score(a.name as string)
+  );
+}
+
+function inQueue(type: string, thing: Data): boolean {
+  const moderated = !!thing.approved || !!thing.removed;
+  switch (type) {
+    case "modqueue":
+      return !moderated && (thing.num_reports as number) > 0;
+    case "reports":
+      return (thing.num_reports as number) > 0;
+    case "spam":
+      return !!thing.removed;
+    case "edited":
+      return !!thing.edited;
+    default:
+      return !moderated && (thing.name as string).startsWith("t3_");
+  }
+}
+// #endregion helpers
+
+// #region reading
+const getMe: Handler = ({ reddit, user }) => ({
+  ...reddit.user(reddit.requireUser(user)),
+  coins: 0,
+  inbox_count: 0,
+  has_mail: false,
+  has_mod_mail: false,
+});
+
+const getUser: Handler = ({ reddit }, [, name]) => ({
+  kind: "t2",
+  data: reddit.user(name),
+});
+
+const getUserItems: Handler = ({ reddit, request, user }, [, name, type]) => {
+  const items = type === "comments" ? reddit.comments() : reddit.posts();
+  const byUser = items.filter(
+    item => (item.author as string).toLowerCase() === name.toLowerCase()
+  );
+  return reddit.listing(byUser, request.query, user);
+};
+
+const getSubreddit: Handler = ({ reddit, user }, [, name]) =>
+  reddit.view(reddit.subreddit(name).data, user);
+
+const getModerators: Handler = ({ reddit }, [, name]) => {
+  const moderators = reddit.userList(reddit.subreddit(name).moderators);
+  const children = moderators.map(m => ({ ...m, mod_permissions: ["all"] }));
+  return { kind: "UserList", data: { children } };
+};
+
+const getRelationships: Handler = ({ reddit, user }, [, name, type]) => {
+  const subreddit = reddit.subreddit(name);
+  reddit.requireModerator(subreddit, user);
+  const users = reddit.relationship(subreddit, relationshipTypes[type]);
+  return { kind: "Listing", data: { children: reddit.userList(users) } };
+};
+
+const getModerationQueue: Handler = (context, [, name, type]) => {
+  const { reddit, request, user } = context;
+  reddit.requireModerator(reddit.subreddit(name), user);
+
+  const { only } = request.query;
+  let items = [...reddit.posts(name), ...reddit.comments(name)];
+  if (only === "links") items = reddit.posts(name);
+  if (only === "comments") items = reddit.comments(name);
+  items = items.filter(item => inQueue(type, item));
+
+  return reddit.listing(items, request.query, user);
+};
+
+const getPosts: Handler = ({ reddit, request, user }, [, subreddit, sort]) => {
+  if (subreddit) reddit.subreddit(subreddit);
+  const posts = sortedPosts(reddit, sort, subreddit);
+  return reddit.listing(posts, request.query, user);
+};
+
+const getComments: Handler = ({ reddit, request, user }, [, subreddit]) =>
+  reddit.listing(reddit.comments(subreddit), request.query, user);
+
+const getPost: Handler = ({ reddit, request, user }, [, id]) => {
+  const post = reddit.thing(`t3_${id}`);
+  const postListing = { kind: "Listing", data: { children: [] as Data[] } };
+  postListing.data.children.push(reddit.view(post, user));
+
+  const focus = reddit.things.get(`t1_${String(request.query.comment)}`);
+  if (!focus || focus.link_id !== post.name) {
+    return [postListing, reddit.replies(post.name as string, user)];
+  }
+
+  const comment = reddit.view(focus, user);
+  (comment.data as Data).replies = reddit.replies(focus.name as string, user);
+  return [postListing, { kind: "Listing", data: { children: [comment] } }];
+};
+
+const getInfo: Handler = ({ reddit, request, user }) => {
+  const things = [
+    ...ids(request.query.id).map(id => reddit.things.get(id)),
+    ...ids(request.query.sr_name).map(
+      name => reddit.subreddits.get(name.toLowerCase())?.data
+    ),
+  ].filter((thing): thing is Data => !!thing);
+  const children = things.map(thing => {
+    const view = reddit.view(thing, user);
+    if ("body" in thing) (view.data as Data).replies = "";
+    return view;
+  });
+  return { kind: "Listing", data: { children } };
+};
+
+const getMoreChildren: Handler = ({ reddit, request, user }) => {
+  const things = ids(request.query.children)
+    .map(id => reddit.things.get(`t1_${id}`))
+    .filter((thing): thing is Data => !!thing)
+    .map(thing => {
+      const view = reddit.view(thing, user);
+      (view.data as Data).replies = "";
+      return view;
+    });
+  return jsonData({ things });
+};
+
+const getRandom: Handler = ({ reddit }, [, subreddit]) => {
+  const posts = reddit.posts(subreddit);
+  if (posts.length === 0) throw new NotFoundError({ code: "404", status: 404 });
+  const post = posts[Math.floor(Math.random() * posts.length)];
+  const location = `https://www.reddit.com${post.permalink as string}`;
+  return { kind: "snoots_redirect", data: { location } };
+};
+
+const getSubreddits: Handler = ({ reddit, request, user }, [, where]) => {
+  let subreddits = [...reddit.subreddits.values()];
+  if (where === "moderator") {
+    subreddits = subreddits.filter(subreddit =>
+      reddit.isModerator(subreddit, user)
+    );
+  } else if (where === "contributor") {
+    subreddits = subreddits.filter(
+      subreddit =>
+        !!user &&
+        reddit.relationship(subreddit, "contributor").has(user.toLowerCase())
+    );
+  }
+  const data = subreddits.map(subreddit => subreddit.data).reverse();
+  return reddit.listing(data, request.query, user);
+};
+// #endregion reading
+
+// #region writing
+const submit: Handler = ({ reddit, user, body }) => {
+  const author = reddit.requireUser(user);
+  const subreddit = reddit.subreddits.get(String(body.sr).toLowerCase());
+  if (!subreddit) {
+    return jsonError("SUBREDDIT_NOEXIST", "that subreddit doesn't exist", "sr");
+  }
+  if (reddit.relationship(subreddit, "banned").has(author.toLowerCase())) {
+    return jsonError(
+      "SUBREDDIT_NOTALLOWED",
+      "you aren't allowed to post there",
+      "sr"
+    );
+  }
+  if (!body.title)
+    return jsonError("NO_TEXT", "we need something here", "title");
+
+  let url = body.url as Maybe<string>;
+  if (body.kind === "crosspost") {
+    url = `https://www.reddit.com${
+      reddit.thing(String(body.crosspost_fullname)).permalink as string
+    }`;
+  }
+  const post = reddit.addPost(subreddit.data.display_name as string, author, {
+    title: String(body.title),
+    text: body.kind === "self" ? String(body.text ?? "") : undefined,
+    url: body.kind === "self" ? undefined : url,
+  });
+  const { id, name, url: postUrl } = post as Record<string, string>;
+  return jsonData({ id, name, url: postUrl });
+};
+
+const comment: Handler = ({ reddit, user, body }) => {
+  const author = reddit.requireUser(user);
+  const parent = reddit.thing(String(body.thing_id));
+  const post = reddit.thing((parent.link_id ?? parent.name) as string);
+  if (post.locked || parent.locked) {
+    return jsonError("THREAD_LOCKED", "that thread is locked", "parent");
+  }
+
+  const reply = reddit.addComment(
+    parent.name as string,
+    author,
+    String(body.text)
+  );
+  const view = reddit.view(reply, user);
+  (view.data as Data).replies = "";
+  return jsonData({ things: [view] });
+};
+
+const vote: Handler = ({ reddit, user, body }) => {
+  const voter = reddit.requireUser(user).toLowerCase();
+  const name = reddit.thing(String(body.id)).name as string;
+  const votes = reddit.votes.get(name) ?? new Map<string, number>();
+  votes.set(voter, Number(body.dir));
+  reddit.votes.set(name, votes);
+  return jsonData();
+};
+
+const remove: Handler = context => {
+  const thing = moderatedThing(context);
+  thing.removed = true;
+  thing.spam = context.body.spam === true || context.body.spam === "true";
+  thing.approved = false;
+  return jsonData();
+};
+
+const approve: Handler = context => {
+  const thing = moderatedThing(context);
+  Object.assign(thing, { approved: true, removed: false, spam: false });
+  thing.approved_by = context.user;
+  return jsonData();
+};
+
+const deleteThing: Handler = context => {
+  const thing = ownThing(context, String(context.body.id));
+  thing.author = "[deleted]";
+  if ("body" in thing) thing.body = "[deleted]";
+  else thing.selftext = "[deleted]";
+  return jsonData();
+};
+
+const edit: Handler = context => {
+  const { reddit, user, body } = context;
+  const thing = ownThing(context, String(body.thing_id));
+  const text = String(body.text);
+  if ("body" in thing) thing.body = text;
+  else thing.selftext = text;
+  thing.edited = now();
+  const view = reddit.view(thing, user);
+  if ("body" in thing) (view.data as Data).replies = "";
+  return jsonData({ things: [view] });
+};
+
+const distinguish: Handler = context => {
+  const thing = moderatedThing(context);
+  const how = context.body.how as string;
+  thing.distinguished = how === "no" ? undefined : "moderator";
+  thing.stickied = how !== "no" && !!context.body.sticky;
+  return jsonData();
+};
+
+const report: Handler = ({ reddit, user, body }) => {
+  reddit.requireUser(user);
+  const thing = reddit.thing(String(body.thing_id));
+  const reason = String(body.other_reason ?? body.reason ?? "");
+  (thing.user_reports as [string, number][]).push([reason, 1]);
+  thing.num_reports = (thing.num_reports as number) + 1;
+  return jsonData();
+};
+
+const friend: Handler = ({ reddit, user, body }, [, name, action]) => {
+  const subreddit = reddit.subreddit(name);
+  reddit.requireModerator(subreddit, user);
+  const target = reddit.user(String(body.name)).name as string;
+  const users = reddit.relationship(subreddit, body.type as FakeRelationship);
+  if (action === "friend") users.set(target.toLowerCase(), now());
+  else users.delete(target.toLowerCase());
+  return jsonData();
+};
+
+const acceptInvite: Handler = ({ reddit, user }, [, name]) => {
+  const subreddit = reddit.subreddit(name);
+  const invitee = reddit.requireUser(user).toLowerCase();
+  const invites = reddit.relationship(subreddit, "moderator_invite");
+  if (!invites.delete(invitee)) {
+    return jsonError("NO_INVITE_FOUND", "there is no pending invite");
+  }
+  subreddit.moderators.set(invitee, now());
+  return jsonData();
+};
+
+const leaveContributor: Handler = ({ reddit, user, body }) => {
+  const leaver = reddit.requireUser(user).toLowerCase();
+  for (const subreddit of reddit.subreddits.values()) {
+    if (subreddit.data.name === body.id) {
+      reddit.relationship(subreddit, "contributor").delete(leaver);
+    }
+  }
+  return jsonData();
+};
+
+const setState =
+  (flag: string, own: boolean): Handler =>
+  context => {
+    const thing = own
+      ? ownThing(context, String(context.body.id))
+      : moderatedThing(context);
+    thing[flag] = context.body.state === true || context.body.state === "true";
+    return jsonData();
+  };
+
+const setOption =
+  (flag: string, field: string): Handler =>
+  context => {
+    moderatedThing(context)[flag] = context.body[field] as unknown;
+    return jsonData();
+  };
+// #endregion writing
+
+function get(pattern: RegExp, handler: Handler): Route {
+  return { method: "GET", pattern, handler };
+}
+
+function post(pattern: RegExp, handler: Handler): Route {
+  return { method: "POST", pattern, handler };
+}
+
+const routes: Route[] = [
+  get(/^api\/v1\/me$/, getMe),
+  get(/^api\/username_available$/, ({ reddit, request }) => {
+    return !reddit.users.has(String(request.query.user).toLowerCase());
+  }),
+  get(/^api\/info$/, getInfo),
+  get(/^api\/morechildren$/, getMoreChildren),
+  get(/^user\/([^/]+)\/about$/, getUser),
+  get(/^user\/([^/]+)\/(submitted|comments)$/, getUserItems),
+  get(/^r\/([^/]+)\/about$/, getSubreddit),
+  get(/^r\/([^/]+)\/about\/moderators$/, getModerators),
+  get(
+    /^r\/([^/]+)\/about\/(banned|contributors|muted|wikibanned|wikicontributors)$/,
+    getRelationships
+  ),
+  get(
+    /^r\/([^/]+)\/about\/(modqueue|reports|spam|edited|unmoderated)$/,
+    getModerationQueue
+  ),
+  get(/^(?:r\/([^/]+)\/)?(new|hot|top|rising|controversial|best)$/, getPosts),
+  get(/^(?:r\/([^/]+)\/)?comments$/, getComments),
+  get(/^(?:r\/([^/]+)\/)?random$/, getRandom),
+  get(/^comments\/([^/]+)$/, getPost),
+  get(/^subreddits\/(?:mine\/)?(\w+)$/, getSubreddits),
+
+  post(/^api\/submit$/, submit),
+  post(/^api\/comment$/, comment),
+  post(/^api\/vote$/, vote),
+  post(/^api\/del$/, deleteThing),
+  post(/^api\/editusertext$/, edit),
+  post(/^api\/report$/, report),
+  post(/^api\/block$/, () => jsonData()),
+  post(/^api\/approve$/, approve),
+  post(/^api\/remove$/, remove),
+  post(/^api\/distinguish$/, distinguish),
+  post(/^api\/lock$/, setFlag("locked", true)),
+  post(/^api\/unlock$/, setFlag("locked", false)),
+  post(/^api\/ignore_reports$/, setFlag("ignore_reports", true)),
+  post(/^api\/unignore_reports$/, setFlag("ignore_reports", false)),
+  post(/^api\/marknsfw$/, setOwnFlag("over_18", true)),
+  post(/^api\/unmarknsfw$/, setOwnFlag("over_18", false)),
+  post(/^api\/spoiler$/, setOwnFlag("spoiler", true)),
+  post(/^api\/unspoiler$/, setOwnFlag("spoiler", false)),
+  post(/^api\/save$/, setUserFlag("saved", true)),
+  post(/^api\/unsave$/, setUserFlag("saved", false)),
+  post(/^api\/hide$/, setUserFlag("hidden", true)),
+  post(/^api\/unhide$/, setUserFlag("hidden", false)),
+  post(/^api\/sendreplies$/, setState("send_replies", true)),
+  post(/^api\/set_subreddit_sticky$/, setState("stickied", false)),
+  post(/^api\/set_contest_mode$/, setState("contest_mode", false)),
+  post(/^api\/set_suggested_sort$/, setOption("suggested_sort", "sort")),
+  post(/^r\/([^/]+)\/api\/(friend|unfriend)$/, friend),
+  post(/^r\/([^/]+)\/api\/accept_moderator_invite$/, acceptInvite),
+  post(/^api\/leavecontributor$/, leaveContributor),
+];
+
+/**
+ * Answer a request against a fake Reddit.
+ *
+ * @internal
+ *
+ * @param context The request and the state to answer it from.
+ *
+ * @returns The response Reddit would have given.
+ */
+export function route(context: RouteContext): unknown {
+  const { method, path } = context.request;
+  for (const { pattern, handler, ...route } of routes) {
+    const match = route.method === method ? pattern.exec(path) : undefined;
+    if (match) return handler(context, [...match]);
+  }
+
+  throw new UnmatchedRequestError(
+    `The fake Reddit does not implement ${method} '${path}'`
+  );
+}
+/* eslint-enable @typescript-eslint/naming-convention */
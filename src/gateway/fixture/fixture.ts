@@ -0,0 +1,154 @@
+import type { Data } from "../../helper/types";
+import type { TransportResponse } from "../transport/transport";
+import type { GatewayRequest } from "../types";
+
+import {
+  AuthError,
+  ForbiddenError,
+  NotFoundError,
+  RateLimitedError,
+  RedditApiError,
+  SnootsError,
+  UnexpectedResponseError,
+} from "../../errors";
+
+/** An error that was thrown while recording a fixture. */
+export interface FixtureError {
+  name: string;
+  message: string;
+  code?: string;
+  description?: string;
+  field?: string;
+  status?: number;
+  retryAfter?: number;
+}
+
+/** The parts of a request that are recorded in a fixture. */
+export type FixtureRequest = Pick<
+  GatewayRequest,
+  "method" | "path" | "query" | "form" | "json"
+>;
+
+/** A single recorded request and its outcome. */
+export interface Fixture {
+  /** The request that was made, with secrets scrubbed. */
+  request: FixtureRequest;
+
+  /** The raw response, if Reddit answered the request. */
+  response?: TransportResponse;
+
+  /** The error that was thrown, if no response was received. */
+  error?: FixtureError;
+}
+
+/** The contents of a fixture file. */
+export interface FixtureFile {
+  fixtures: Fixture[];
+}
+
+const sensitiveKey = /token|password|passwd|secret|authorization|cookie/i;
+
+/**
+ * Replace the values of any keys that look like they hold secrets.
+ *
+ * @internal
+ *
+ * @param value The value to scrub.
+ *
+ * @returns A scrubbed copy of the value.
+ */
+export function scrub<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(item => scrub<unknown>(item)) as T;
+  if (typeof value !== "object" || value == undefined) return value;
+
+  const scrubbed: Data = {};
+  for (const [key, item] of Object.entries(value)) {
+    scrubbed[key] = sensitiveKey.test(key)
+      ? "[scrubbed]"
+      : scrub<unknown>(item);
+  }
+  return scrubbed as T;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item)).join(",")}]`;
+  }
+  if (typeof value !== "object" || value == undefined) {
+    return JSON.stringify(value) ?? "undefined";
+  }
+
+  const entries = Object.entries(value)
+    .filter(([, item]) => item !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`);
+  return `{${entries.join(",")}}`;
+}
+
+/**
+ * Get the parts of a request that are recorded, with secrets scrubbed.
+ *
+ * Headers are left out, since they are usually added by middleware and can
+ * change between runs. So are signals and the other options that don't change
+ * what is sent to Reddit.
+ *
+ * @internal
+ *
+ * @param request The request.
+ *
+ * @returns The request to record.
+ */
+export function fixtureRequest(request: GatewayRequest): FixtureRequest {
+  const { method, path, query, form, json } = request;
+  return scrub({
+    method,
+    path,
+    query,
+    ...(form && { form }),
+    ...(json && { json }),
+  });
+}
+
+/**
+ * Get the key used to match a request against recorded fixtures.
+ *
+ * @internal
+ *
+ * @param request The recorded request.
+ *
+ * @returns The key.
+ */
+export function fixtureKey(request: FixtureRequest): string {
+  const { method, path, query, form, json } = request;
+  return stableStringify({ method, path, query, form, json });
+}
+
+/** @internal */
+export function serializeError(error: unknown): FixtureError {
+  if (!(error instanceof Error)) {
+    return { name: "Error", message: String(error) };
+  }
+  const { name, message } = error;
+  return { ...scrub(error as unknown as Data), name, message };
+}
+
+/** @internal */
+export function deserializeError(error: FixtureError): Error {
+  const details = { ...error, code: error.code ?? error.name };
+  switch (error.name) {
+    case "AuthError":
+      return new AuthError(error.message, error.code, error.status);
+    case "ForbiddenError":
+      return new ForbiddenError(details);
+    case "NotFoundError":
+      return new NotFoundError(details);
+    case "RateLimitedError":
+      return new RateLimitedError(details, error.retryAfter);
+    case "RedditApiError":
+      return new RedditApiError(details);
+    case "UnexpectedResponseError":
+      return new UnexpectedResponseError(error.message);
+    default:
+      return new SnootsError(error.message);
+  }
+}
@@ -0,0 +1,153 @@
+import type { Data, Maybe } from "../../helper/types";
+import type { RequestOptions } from "../abort";
+import type { ResponseCache } from "../cache";
+import type { Middleware } from "../middleware";
+import type { PageEvent } from "../telemetry";
+import type { TransportResponse } from "../transport/transport";
+import type { GatewayRequest, Query, RateLimit } from "../types";
+import type { Fixture, FixtureFile } from "./fixture";
+
+import { writeFile } from "node:fs/promises";
+
+import { Gateway } from "../gateway";
+import { noTransport } from "../transport/transport";
+import { fixtureRequest, scrub, serializeError } from "./fixture";
+
+/**
+ * A gateway that records every request made through another gateway, so it
+ * can be replayed later by a {@link ReplayGateway}.
+ *
+ * Every request that reaches Reddit is recorded with its raw response, so
+ * requests answered by the cache of the inner gateway are left out. Tokens,
+ * passwords and cookies are scrubbed before anything is written to disk. The
+ * fixture file is rewritten after every request.
+ *
+ * @example Recording the requests made by a bot
+ * ```ts
+ * const live = new Client({ userAgent, auth, creds });
+ * const recorder = new RecordingGateway(live.gateway, "fixtures/bot.json");
+ * const client = new Client({ userAgent }, recorder);
+ * await runBot(client);
+ * ```
+ */
+export class RecordingGateway extends Gateway {
+  /** The fixtures recorded so far. */
+  public readonly fixtures: Fixture[] = [];
+
+  protected inner: Gateway;
+  protected file: string;
+  protected saving: Promise<void> = Promise.resolve();
+
+  /**
+   * Make a new recording gateway.
+   *
+   * @param inner The gateway to send requests through.
+   * @param file The path of the fixture file to write.
+   */
+  constructor(inner: Gateway, file: string) {
+    super("https://www.reddit.com", "snoots recording", {
+      transport: noTransport("A recording gateway"),
+    });
+    this.inner = inner;
+    this.file = file;
+    inner.record(async (request, outcome) => this.save(request, outcome));
+  }
+
+  // Requests are sent through the public methods of the inner gateway, so they
+  // go through the middleware, queues and caches of that gateway too.
+  public override async get<T>(
+    path: string,
+    query: Query = {},
+    options: RequestOptions = {}
+  ): Promise<T> {
+    return this.inner.get(path, query, options);
+  }
+
+  public override async post<T>(
+    path: string,
+    form: Data,
+    query: Query = {},
+    options: RequestOptions = {}
+  ): Promise<T> {
+    return this.inner.post(path, form, query, options);
+  }
+
+  public override async postJson<T>(
+    path: string,
+    json: Data,
+    query: Query = {},
+    options: RequestOptions = {}
+  ): Promise<T> {
+    return this.inner.postJson(path, json, query, options);
+  }
+
+  /** @internal */
+  public override getRateLimit(): Maybe<RateLimit> {
+    return this.inner.getRateLimit();
+  }
+
+  /** @internal */
+  public override getQueueDepth(): number {
+    return this.inner.getQueueDepth();
+  }
+
+  /** @internal */
+  public override getCache(): Maybe<ResponseCache> {
+    return this.inner.getCache();
+  }
+
+  /** @internal */
+  public override cancelWrites(): number {
+    return this.inner.cancelWrites();
+  }
+
+  /** @internal */
+  public override use(middleware: Middleware): void {
+    this.inner.use(middleware);
+  }
+
+  /** @internal */
+  public override reportPage(event: PageEvent): void {
+    this.inner.reportPage(event);
+  }
+
+  /**
+   * Wait for the fixture file to be written.
+   *
+   * @returns A promise that resolves once every recorded request is on disk.
+   */
+  public async flush(): Promise<void> {
+    await this.saving;
+  }
+
+  protected async auth(): Promise<undefined> {
+    return undefined;
+  }
+
+  protected mapPath(path: string): string {
+    return path;
+  }
+
+  protected async save(
+    request: GatewayRequest,
+    outcome: { response?: TransportResponse; error?: unknown }
+  ): Promise<void> {
+    const { response, error } = outcome;
+    const fixture: Fixture = { request: fixtureRequest(request) };
+    if (response) {
+      fixture.response = scrub(response);
+    } else {
+      fixture.error = serializeError(error);
+    }
+    this.fixtures.push(fixture);
+
+    // Writes are chained so that they can never interleave.
+    const previous = this.saving;
+    const contents: FixtureFile = { fixtures: this.fixtures };
+    this.saving = (async () => {
+      await previous;
+      await writeFile(this.file, JSON.stringify(contents, undefined, 2));
+    })();
+    await this.saving;
+  }
+}
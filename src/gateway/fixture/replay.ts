@@ -0,0 +1,102 @@
+import type { Maybe } from "../../helper/types";
+import type { TransportResponse } from "../transport/transport";
+import type { GatewayRequest } from "../types";
+import type { Fixture, FixtureFile } from "./fixture";
+
+import { readFile } from "node:fs/promises";
+
+import { UnmatchedRequestError } from "../../errors";
+import { Gateway } from "../gateway";
+import { noTransport } from "../transport/transport";
+import { deserializeError, fixtureKey, fixtureRequest } from "./fixture";
+
+/**
+ * A gateway that answers requests from fixtures recorded by a
+ * {@link RecordingGateway}, without touching the network.
+ *
+ * Identical requests are answered in the order they were recorded. Requests
+ * without a matching fixture fail with an {@link UnmatchedRequestError}.
+ *
+ * @example Replaying recorded requests in a test
+ * ```ts
+ * const replay = await ReplayGateway.fromFile("fixtures/bot.json");
+ * const client = new Client({ userAgent }, replay);
+ * await runBot(client);
+ * replay.assertDone();
+ * ```
+ */
+export class ReplayGateway extends Gateway {
+  protected pending: Map<string, Fixture[]> = new Map();
+
+  /**
+   * Make a new replay gateway.
+   *
+   * @param fixtures The fixtures to replay.
+   */
+  constructor(fixtures: Fixture[]) {
+    super("https://www.reddit.com", "snoots replay", {
+      transport: noTransport("A replay gateway"),
+    });
+    for (const fixture of fixtures) {
+      const key = fixtureKey(fixture.request);
+      const queue = this.pending.get(key) ?? [];
+      queue.push(fixture);
+      this.pending.set(key, queue);
+    }
+  }
+
+  /**
+   * Load a replay gateway from a fixture file.
+   *
+   * @param file The path of the fixture file.
+   *
+   * @returns The replay gateway.
+   */
+  static async fromFile(file: string): Promise<ReplayGateway> {
+    const contents = JSON.parse(await readFile(file, "utf8")) as FixtureFile;
+    return new ReplayGateway(contents.fixtures);
+  }
+
+  /**
+   * Make sure every fixture was used.
+   *
+   * @throws {UnmatchedRequestError} If any fixture was never requested.
+   */
+  assertDone(): void {
+    const unused = [...this.pending.values()].flat();
+    if (unused.length > 0) {
+      const list = unused
+        .map(({ request }) => `${request.method} ${request.path}`)
+        .join(", ");
+      throw new UnmatchedRequestError(
+        `${unused.length} fixture(s) were never requested: ${list}`
+      );
+    }
+  }
+
+  protected async auth(): Promise<Maybe<undefined>> {
+    return undefined;
+  }
+
+  protected mapPath(path: string): string {
+    return path;
+  }
+
+  // Recorded responses are raw, so they are parsed and checked for errors just
+  // like responses from Reddit.
+  protected override async request(
+    request: GatewayRequest
+  ): Promise<TransportResponse> {
+    const key = fixtureKey(fixtureRequest(request));
+    const fixture = this.pending.get(key)?.shift();
+    if (this.pending.get(key)?.length === 0) this.pending.delete(key);
+
+    if (!fixture) {
+      throw new UnmatchedRequestError(
+        `No fixture for ${request.method} '${request.path}': ${key}`
+      );
+    }
+    if (fixture.error) throw deserializeError(fixture.error);
+    return fixture.response!;
+  }
+}
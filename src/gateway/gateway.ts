@@ -1,16 +1,43 @@
+import type { RedditErrorDetails } from "../errors";
 import type { Data, Maybe } from "../helper/types";
+import type { RequestOptions } from "./abort";
+import type { Middleware } from "./middleware";
+import type { Background } from "./scheduler";
+import type { PageEvent } from "./telemetry";
+import type {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+} from "./transport/transport";
 import type {
   Auth,
-  GotOptions,
-  GotResponse,
+  GatewayOptions,
+  GatewayRequest,
   Query,
   RateLimit,
+  Recorder,
   SomeResponse,
 } from "./types";
 
-import got from "got";
-
+import {
+  AuthError,
+  ForbiddenError,
+  NotFoundError,
+  RateLimitedError,
+  RedditApiError,
+  UnexpectedResponseError,
+} from "../errors";
 import { makeDebug } from "../helper/debug";
+import { throwIfAborted, withAbort } from "./abort";
+import { ResponseCache } from "./cache";
+import { RequestCoalescer } from "./coalesce";
+import { runMiddleware } from "./middleware";
+import { parseRetryAfter, RetryPolicy } from "./retry";
+import { RequestScheduler } from "./scheduler";
+import { currentScopes } from "./scopes";
+import { emit, endpointTemplate } from "./telemetry";
+import { GotTransport } from "./transport/got";
+import { WriteQueue } from "./write-queue";
 
 // #region debug logging
 const debug = {
@@ -19,12 +46,12 @@ const debug = {
   response: makeDebug("gateway:response"),
 };
 
-function debugRequest(method: string, path: string, options: GotOptions) {
+function debugRequest(path: string, request: TransportRequest) {
   debug.request(
     "Making %s request to path '%s' with options %O",
-    method,
+    request.method,
     path,
-    options
+    request
   );
 }
 
@@ -38,6 +65,37 @@ function debugResponse(method: string, path: string, response: unknown) {
 }
 // #endregion debug logging
 
+function appendParameters(parameters: URLSearchParams, data: Data) {
+  for (const [key, value] of Object.entries(data)) {
+    // Skip undefined values, and send null values as empty strings.
+    if (value === undefined) continue;
+    parameters.append(key, value === null ? "" : String(value));
+  }
+}
+
+const unitMilliseconds: Record<string, number> = {
+  millisecond: 1,
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+};
+
+/**
+ * Parse the delay out of a `RATELIMIT` error description, like "you are doing
+ * that too much. try again in 7 minutes."
+ *
+ * @param description The description of the error.
+ *
+ * @returns The delay in milliseconds, or `undefined` if there wasn't one.
+ */
+function parseRatelimitDelay(description: Maybe<string>): Maybe<number> {
+  const match = /(\d+) (millisecond|second|minute|hour)s?/i.exec(
+    description ?? ""
+  );
+  if (!match) return undefined;
+  return Number(match[1]) * unitMilliseconds[match[2].toLowerCase()];
+}
+
 /**
  * The gateway to the Reddit api.
  *
@@ -49,11 +107,45 @@ export abstract class Gateway {
   protected rateLimit: Maybe<RateLimit>;
   protected userAgent: string;
   protected endpoint: string;
+  protected options: GatewayOptions;
+  protected transport: Transport;
+  protected scheduler: Maybe<RequestScheduler>;
+  protected retry: Maybe<RetryPolicy>;
+  protected writeQueue: Maybe<WriteQueue>;
+  protected middleware: Middleware[];
+  protected cache: Maybe<ResponseCache>;
+  protected coalescer: Maybe<RequestCoalescer>;
+  protected recorders: Recorder[] = [];
 
   /** @internal */
-  constructor(endpoint: string, userAgent: string) {
-    this.endpoint = endpoint;
+  constructor(endpoint: string, userAgent: string, options: GatewayOptions) {
+    this.endpoint = endpoint.replace(/\/+$/, "");
     this.userAgent = userAgent;
+    this.options = options;
+    this.transport =
+      options.transport ??
+      new GotTransport({ proxy: options.proxy, agent: options.agent });
+    this.middleware = [...(options.middleware ?? [])];
+    if (options.cache) {
+      this.cache = new ResponseCache(options.cache);
+    }
+    if (options.scheduler) {
+      this.scheduler = new RequestScheduler(options.scheduler);
+    }
+    if (options.retry) {
+      this.retry = new RetryPolicy(options.retry);
+    }
+    if (options.writeQueue) {
+      this.writeQueue = new WriteQueue(options.writeQueue);
+    }
+    if (options.coalesce) {
+      this.coalescer = new RequestCoalescer(request =>
+        emit(options.telemetry?.onCoalesce, {
+          endpoint: endpointTemplate(request.path),
+          path: request.path,
+        })
+      );
+    }
   }
 
   /**
@@ -68,14 +160,28 @@ export abstract class Gateway {
    *
    * @param path The path to GET.
    * @param query The query params.
+   * @param options The options to cancel the request with.
    * @returns The result.
    */
-  public async get<T>(path: string, query: Query = {}): Promise<T> {
-    const options = await this.buildOptions(query);
-    debugRequest("GET", path, options);
-    const response: T = await got.get(this.mapPath(path), options).json();
-    debugResponse("GET", path, response);
-    return this.unwrap(response);
+  public async get<T>(
+    path: string,
+    query: Query = {},
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const { background } = options;
+    const scopes = currentScopes();
+    return withAbort(`The request to '${path}'`, options, async signal =>
+      this.unwrap(
+        await this.send({
+          method: "GET",
+          path,
+          query,
+          signal,
+          ...(background && { background }),
+          ...(scopes && { scopes }),
+        })
+      )
+    );
   }
 
   /**
@@ -91,16 +197,32 @@ export abstract class Gateway {
    * @param path The path to POST.
    * @param form The data to POST.
    * @param query The query params.
+   * @param options The options to cancel the request with.
    * @returns The result.
    */
   public async post<T>(
     path: string,
     form: Data,
-    query: Query = {}
+    query: Query = {},
+    options: RequestOptions = {}
   ): Promise<T> {
     // eslint-disable-next-line @typescript-eslint/naming-convention
-    const formOptions = { form: { api_type: "json", ...form } };
-    return await this.doPost(path, formOptions, query);
+    const body = { api_type: "json", ...form };
+    const scopes = currentScopes();
+    return withAbort(`The request to '${path}'`, options, async signal =>
+      this.write(path, async () =>
+        this.unwrap(
+          await this.send({
+            method: "POST",
+            path,
+            query,
+            form: body,
+            signal,
+            ...(scopes && { scopes }),
+          })
+        )
+      )
+    );
   }
 
   /**
@@ -116,16 +238,32 @@ export abstract class Gateway {
    * @param path The path to POST.
    * @param json The data to POST.
    * @param query The query params.
+   * @param options The options to cancel the request with.
    * @returns The result.
    */
   public async postJson<T>(
     path: string,
     json: Data,
-    query: Query = {}
+    query: Query = {},
+    options: RequestOptions = {}
   ): Promise<T> {
     // eslint-disable-next-line @typescript-eslint/naming-convention
-    const jsonOptions = { json: { api_type: "json", ...json } };
-    return await this.doPost(path, jsonOptions, query);
+    const body = { api_type: "json", ...json };
+    const scopes = currentScopes();
+    return withAbort(`The request to '${path}'`, options, async signal =>
+      this.write(path, async () =>
+        this.unwrap(
+          await this.send({
+            method: "POST",
+            path,
+            query,
+            json: body,
+            signal,
+            ...(scopes && { scopes }),
+          })
+        )
+      )
+    );
   }
 
   /** @internal */
@@ -133,27 +271,193 @@ export abstract class Gateway {
     return this.rateLimit ? { ...this.rateLimit } : undefined;
   }
 
+  /** @internal */
+  public getQueueDepth(): number {
+    return this.scheduler?.queueDepth ?? 0;
+  }
+
+  /**
+   * Add a middleware to the end of the chain.
+   *
+   * @internal
+   *
+   * @param middleware The middleware to add.
+   */
+  public use(middleware: Middleware): void {
+    this.middleware.push(middleware);
+  }
+
+  /** @internal */
+  public getCache(): Maybe<ResponseCache> {
+    return this.cache;
+  }
+
+  /**
+   * Report a page of a listing to the telemetry hooks.
+   *
+   * @internal
+   *
+   * @param event Information about the page.
+   */
+  public reportPage(event: PageEvent): void {
+    emit(this.options.telemetry?.onPage, event);
+  }
+
+  /** @internal */
+  public cancelWrites(): number {
+    return this.writeQueue?.cancel() ?? 0;
+  }
+
+  /**
+   * Pass every request that reaches the transport to a recorder, once it has
+   * been answered.
+   *
+   * @internal
+   *
+   * @param recorder The recorder to add.
+   */
+  public record(recorder: Recorder): void {
+    this.recorders.push(recorder);
+  }
+
   protected abstract auth(): Promise<Maybe<Auth>>;
 
-  protected async doPost<T>(
-    path: string,
-    overrideOptions: GotOptions,
-    query: Query
-  ): Promise<T> {
-    const baseOptions = await this.buildOptions(query);
-    const options = { ...baseOptions, ...overrideOptions };
-    debugRequest("POST", path, options);
-    const response: T = await got.post(this.mapPath(path), options).json();
-    debugResponse("POST", path, response);
-    return this.unwrap(response);
+  protected async write<T>(path: string, task: () => Promise<T>): Promise<T> {
+    return this.writeQueue ? this.writeQueue.run(path, task) : task();
+  }
+
+  protected async send<T>(request: GatewayRequest): Promise<SomeResponse<T>> {
+    const response = await runMiddleware(
+      this.middleware,
+      request,
+      async current => this.dispatch(current)
+    );
+    return response as SomeResponse<T>;
+  }
+
+  protected async dispatch(request: GatewayRequest): Promise<unknown> {
+    const response = this.coalescer
+      ? await this.coalescer.run(request, async current => this.fetch(current))
+      : await this.fetch(request);
+    const parsed: unknown = this.parseResponse(response);
+    debugResponse(request.method, request.path, parsed);
+    return parsed;
+  }
+
+  protected async fetch(request: GatewayRequest): Promise<TransportResponse> {
+    return this.cache
+      ? this.cache.run(request, async headers =>
+          this.request({
+            ...request,
+            headers: { ...request.headers, ...headers },
+          })
+        )
+      : this.request(request);
+  }
+
+  protected async request(request: GatewayRequest): Promise<TransportResponse> {
+    const transportRequest = await this.buildRequest(request);
+    debugRequest(request.path, transportRequest);
+
+    const start = Date.now();
+    let attempts = 0;
+    const attempt = async () => {
+      attempts += 1;
+      return this.perform(transportRequest, request.background);
+    };
+
+    let response: Maybe<TransportResponse>;
+    let error: unknown;
+    try {
+      response = this.retry
+        ? await this.retry.run(request, attempt)
+        : await attempt();
+      return response;
+    } catch (error_) {
+      error = error_;
+      throw error_;
+    } finally {
+      emit(this.options.telemetry?.onRequest, {
+        method: request.method,
+        endpoint: endpointTemplate(request.path),
+        path: request.path,
+        status: response?.status,
+        duration: Date.now() - start,
+        bytes: response ? Buffer.byteLength(response.body) : 0,
+        retries: Math.max(attempts - 1, 0),
+        rateLimitRemaining: this.rateLimit?.remaining,
+        ...(error !== undefined && { error }),
+      });
+      const outcome = error === undefined ? { response } : { error };
+      for (const recorder of this.recorders) await recorder(request, outcome);
+    }
+  }
+
+  protected async perform(
+    request: TransportRequest,
+    background?: Background
+  ): Promise<TransportResponse> {
+    const send = async () => {
+      // The request may have been cancelled while waiting for the scheduler
+      // or a retry, in which case there's no point in sending it.
+      throwIfAborted(request.signal, `The request to '${request.url}'`);
+      return this.transport.request(request);
+    };
+    const response = this.scheduler
+      ? await this.scheduler.schedule(send, background)
+      : await send();
+    this.updateRatelimit(response);
+    return response;
   }
 
   protected abstract mapPath(path: string): string;
 
-  protected handleError(message: string, description?: string): never {
-    let errorMessage = `Reddit returned an error: ${message}`;
-    if (description) errorMessage += `: ${description}`;
-    throw new Error(errorMessage);
+  protected handleError(details: RedditErrorDetails): never {
+    if (details.code === "RATELIMIT") {
+      const retryAfter = parseRatelimitDelay(details.description);
+      throw new RateLimitedError(details, retryAfter);
+    }
+    throw new RedditApiError(details);
+  }
+
+  protected handleHttpError(response: TransportResponse): never {
+    const { status, headers, body } = response;
+
+    // Reddit usually sends a json body like `{ message: "Forbidden" }` along
+    // with error codes, but not always.
+    let parsed: Data = {};
+    try {
+      parsed = JSON.parse(body) as Data;
+    } catch {
+      // Not json, just use the status code.
+    }
+
+    const details: RedditErrorDetails = {
+      code: typeof parsed.reason === "string" ? parsed.reason : `${status}`,
+      description:
+        typeof parsed.message === "string" ? parsed.message : undefined,
+      status,
+    };
+
+    switch (status) {
+      case 401:
+        throw new AuthError(
+          `Reddit rejected the authorization: ${details.code}`,
+          details.code,
+          status
+        );
+      case 403:
+        throw new ForbiddenError(details);
+      case 404:
+        throw new NotFoundError(details);
+      case 429:
+        throw new RateLimitedError(
+          details,
+          parseRetryAfter(headers["retry-after"])
+        );
+      default:
+        throw new RedditApiError(details);
+    }
   }
 
   protected unwrap<T>(response: SomeResponse<T>): T {
@@ -162,65 +466,92 @@ export abstract class Gateway {
     } else if ("json" in response) {
       const { errors, data } = response.json;
       if (errors.length > 0) {
-        this.handleError(errors[0]);
+        const [code, description, field] = errors[0];
+        this.handleError({ code, description, field });
       } else {
         return data!;
       }
     } else {
       if ("error" in response) {
-        this.handleError(response.error, response.error_description);
+        this.handleError({
+          code: response.error,
+          description: response.error_description,
+        });
       } else {
         return response;
       }
     }
   }
 
-  protected async buildOptions(query: Query): Promise<GotOptions> {
-    const options: GotOptions = {
-      prefixUrl: this.endpoint,
-      // eslint-disable-next-line @typescript-eslint/naming-convention
-      headers: { "user-agent": this.userAgent },
-      // eslint-disable-next-line @typescript-eslint/naming-convention
-      searchParams: { ...query, raw_json: 1, api_type: "json" },
-      hooks: {
-        afterResponse: [
-          r => this.transformRedirect(r),
-          r => this.updateRatelimit(r),
-        ],
-      },
-      followRedirect: false,
-    };
+  protected async buildRequest(
+    request: GatewayRequest
+  ): Promise<TransportRequest> {
+    const url = new URL(`${this.endpoint}/${this.mapPath(request.path)}`);
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    const query: Query = { ...request.query, raw_json: 1, api_type: "json" };
+    appendParameters(url.searchParams, query);
+
+    const headers: Record<string, string> = { ...request.headers };
+    headers["user-agent"] = this.userAgent;
+
+    let body: Maybe<string>;
+    if (request.form) {
+      const form = new URLSearchParams();
+      appendParameters(form, request.form);
+      body = form.toString();
+      headers["content-type"] = "application/x-www-form-urlencoded";
+    } else if (request.json) {
+      body = JSON.stringify(request.json);
+      headers["content-type"] = "application/json";
+    }
 
     const auth = await this.auth();
     if (auth) {
       if ("bearer" in auth) {
-        options.headers!["Authorization"] = `bearer ${auth.bearer}`;
+        headers["authorization"] = `bearer ${auth.bearer}`;
       } else {
-        options.username = auth.user;
-        options.password = auth.pass;
+        const basic = Buffer.from(`${auth.user}:${auth.pass}`).toString(
+          "base64"
+        );
+        headers["authorization"] = `Basic ${basic}`;
       }
     }
 
-    return options;
+    const { method, signal } = request;
+    return { method, url: url.toString(), headers, body, signal };
   }
 
-  protected transformRedirect(response: GotResponse): GotResponse {
-    const { statusCode, headers } = response;
-    if (headers.location && statusCode >= 300 && statusCode < 400) {
-      response.rawBody = Buffer.from(
-        JSON.stringify({
-          kind: "snoots_redirect",
-          data: { location: headers.location },
-        })
+  protected parseResponse<T>(response: TransportResponse): SomeResponse<T> {
+    const { status, headers, body } = response;
+    if (headers.location && status >= 300 && status < 400) {
+      // Redirects are passed on as a special object so that methods like
+      // SubredditControls.getRandomPostId can read them.
+      const redirect = {
+        kind: "snoots_redirect",
+        data: { location: headers.location },
+      };
+      return redirect as SomeResponse<T>;
+    }
+
+    if (status < 200 || status >= 300) this.handleHttpError(response);
+    if (body.length === 0) return "" as T;
+
+    try {
+      return JSON.parse(body) as T;
+    } catch {
+      throw new UnexpectedResponseError(
+        `Reddit returned invalid json (status ${status})`
       );
     }
-    return response;
   }
 
-  protected updateRatelimit(response: GotResponse): GotResponse {
+  protected updateRatelimit(response: TransportResponse): void {
     const { headers } = response;
-    const remain = Number.parseInt(headers["x-ratelimit-remaining"] as string);
-    const reset = Number.parseInt(headers["x-ratelimit-reset"] as string);
+    const remain = Number.parseInt(headers["x-ratelimit-remaining"]);
+    const reset = Number.parseInt(headers["x-ratelimit-reset"]);
+
+    // Not every response includes the rate limit headers.
+    if (Number.isNaN(remain) || Number.isNaN(reset)) return;
 
     // To prevent race conditions, only update the rate limit if either...
     if (
@@ -232,13 +563,12 @@ export abstract class Gateway {
       this.rateLimit.remaining > remain
     ) {
       this.rateLimit = { remaining: remain, reset: Date.now() + reset * 1000 };
+      this.scheduler?.update(this.rateLimit);
       debug.general(
         "Updated ratelimit: %d requests remaining, resets at %s",
         this.rateLimit.remaining,
         new Date(this.rateLimit.reset)
       );
     }
-
-    return response;
   }
 }
@@ -1,6 +1,60 @@
 // Publicly exported types
 
+export type { RequestOptions } from "./abort";
+export type { CacheEntry, CacheOptions, CacheRule, CacheStore } from "./cache";
+export { MemoryCacheStore, ResponseCache } from "./cache";
 export type { Credentials } from "./creds";
+export { FakeRedditGateway } from "./fake/gateway";
+export type { FakePostOptions, FakeRelationship } from "./fake/reddit";
+export { FakeReddit } from "./fake/reddit";
+export type {
+  Fixture,
+  FixtureError,
+  FixtureFile,
+  FixtureRequest,
+} from "./fixture/fixture";
+export { RecordingGateway } from "./fixture/recording";
+export { ReplayGateway } from "./fixture/replay";
 export type { Gateway } from "./gateway";
-export type { ClientAuth, TokenAuth, UsernameAuth } from "./oauth";
-export type { RateLimit } from "./types";
+export type { AuthCodeResult, LoopbackOptions } from "./loopback";
+export type { Middleware, NextMiddleware } from "./middleware";
+export type {
+  ClientAuth,
+  InstalledClientAuth,
+  Token,
+  TokenAuth,
+  UsernameAuth,
+} from "./oauth";
+export type { RetryOptions } from "./retry";
+export type { SchedulerOptions, SchedulerWaitEvent } from "./scheduler";
+export type { Scope } from "./scopes";
+export type {
+  CoalesceEvent,
+  PageEvent,
+  RequestEvent,
+  Telemetry,
+} from "./telemetry";
+export type { TokenStore } from "./token-store";
+export { FileTokenStore, MemoryTokenStore } from "./token-store";
+export type {
+  FetchFunction,
+  FetchInit,
+  FetchResponse,
+} from "./transport/fetch";
+export { FetchTransport } from "./transport/fetch";
+export type { GotTransportOptions, HttpAgents } from "./transport/got";
+export { GotTransport } from "./transport/got";
+export type {
+  HttpMethod,
+  Transport,
+  TransportRequest,
+  TransportResponse,
+} from "./transport/transport";
+export type {
+  Endpoints,
+  GatewayRequest,
+  Query,
+  QueryValue,
+  RateLimit,
+} from "./types";
+export type { WriteQueueOptions, WriteQueueWaitEvent } from "./write-queue";
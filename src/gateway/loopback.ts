@@ -0,0 +1,139 @@
+import type { Awaitable } from "../helper/types";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { randomBytes } from "node:crypto";
+import { createServer } from "node:http";
+
+import { AuthError } from "../errors";
+import { makeDebug } from "../helper/debug";
+
+const debug = makeDebug("gateway:loopback");
+
+/** Options for logging in through a temporary server on localhost. */
+export interface LoopbackOptions {
+  /** The scopes to authorize with. */
+  scopes: string[];
+
+  /**
+   * Called with the URL the user needs to visit to authorize the app, once the
+   * server is ready to receive the redirect. Open it in a browser, or print it.
+   */
+  open: (url: string) => Awaitable<void>;
+
+  /**
+   * The port to listen on. Defaults to 8080.
+   *
+   * The redirect uri (`http://<host>:<port><path>`) has to match the one
+   * registered for your app on Reddit exactly. Use `0` to pick a random free
+   * port, which is only useful if you control the redirect yourself.
+   */
+  port?: number;
+
+  /** The host name to listen on. Defaults to `localhost`. */
+  host?: string;
+
+  /** The path to receive the redirect on. Defaults to `/`. */
+  path?: string;
+
+  /**
+   * How long to wait for the user to authorize the app, in milliseconds.
+   * Defaults to 5 minutes.
+   */
+  timeout?: number;
+
+  /**
+   * Whether the auth should be temporary (expires after 1hr), or permanent.
+   * Defaults to `false`, since temporary auth has no refresh token.
+   */
+  temporary?: boolean;
+}
+
+/** The result of the authorization-code flow. */
+export interface AuthCodeResult {
+  /** The authorization code. */
+  code: string;
+  /** The redirect uri the code was sent to. */
+  redirectUri: string;
+}
+
+function respond(response: ServerResponse, status: number, message: string) {
+  response.writeHead(status, {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    "content-type": "text/plain; charset=utf-8",
+    connection: "close",
+  });
+  response.end(message);
+}
+
+/**
+ * Run the authorization-code flow against a temporary server on localhost.
+ *
+ * @internal
+ *
+ * @param options The loopback options.
+ * @param makeUrl Makes the auth url from the redirect uri and state.
+ *
+ * @returns The code, once the user has authorized the app.
+ */
+export async function receiveAuthCode(
+  options: LoopbackOptions,
+  makeUrl: (redirectUri: string, state: string) => string
+): Promise<AuthCodeResult> {
+  const { port = 8080, host = "localhost", path = "/" } = options;
+  const { timeout = 5 * 60 * 1000 } = options;
+  const state = randomBytes(16).toString("hex");
+  const server = createServer();
+  let redirectUri = "";
+
+  try {
+    return await new Promise<AuthCodeResult>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new AuthError("Timed out waiting for authorization"));
+      }, timeout);
+      server.once("close", () => clearTimeout(timer));
+      server.once("error", reject);
+
+      server.on("request", (request: IncomingMessage, response) => {
+        const url = new URL(request.url ?? "/", redirectUri);
+        if (url.pathname !== path) {
+          respond(response, 404, "Not found");
+          return;
+        }
+
+        // Anything can hit a port on localhost, so only a redirect that
+        // carries our state can end the flow. Everything else is turned away
+        // and we keep waiting for the real one.
+        const { searchParams } = url;
+        const error = searchParams.get("error") ?? undefined;
+        const code = searchParams.get("code");
+        if (searchParams.get("state") !== state) {
+          debug("Ignoring a request with the wrong state");
+          respond(response, 403, "Authorization failed: state does not match");
+        } else if (error) {
+          respond(response, 400, "Authorization failed");
+          reject(new AuthError(`Authorization failed: ${error}`, error));
+        } else if (code) {
+          respond(response, 200, "Authorized! You can close this window.");
+          resolve({ code, redirectUri });
+        } else {
+          debug("Ignoring a request without a code");
+          respond(response, 400, "Authorization failed: no code was given");
+        }
+      });
+
+      server.listen(port, host, () => {
+        // Use the actual port, in case we were asked for a random one.
+        const address = server.address() as AddressInfo;
+        redirectUri = `http://${host}:${address.port}${path}`;
+        debug("Listening for the redirect on '%s'", redirectUri);
+
+        const open = async () => options.open(makeUrl(redirectUri, state));
+        open().catch(reject);
+      });
+    });
+  } finally {
+    debug("Shutting down loopback server");
+    server.close();
+  }
+}
@@ -0,0 +1,66 @@
+import type { GatewayRequest } from "./types";
+
+/**
+ * Pass a request on to the next middleware in the chain.
+ *
+ * @param request The request to pass on. Defaults to the request the current
+ * middleware was given.
+ *
+ * @returns The parsed response from Reddit.
+ */
+export type NextMiddleware = (request?: GatewayRequest) => Promise<unknown>;
+
+/**
+ * A function that sits between the controls and the Reddit API.
+ *
+ * Middleware is called for every request made through a {@link Gateway}, in
+ * the order it was registered. It can inspect or change the request before
+ * passing it on by calling `next`, inspect or rewrite the response that `next`
+ * resolves to, or skip `next` altogether and resolve to a synthetic response.
+ *
+ * The response is the parsed JSON body, before any `json.errors` have been
+ * turned into exceptions.
+ *
+ * @example Adding a header to every request
+ * ```ts
+ * client.use(async (request, next) =>
+ *   next({ ...request, headers: { ...request.headers, "x-foo": "bar" } })
+ * );
+ * ```
+ *
+ * @param request The request being made.
+ * @param next A function to pass the request on to the next middleware.
+ *
+ * @returns The parsed response.
+ */
+export type Middleware = (
+  request: GatewayRequest,
+  next: NextMiddleware
+) => Promise<unknown>;
+
+/**
+ * Run a request through a chain of middleware.
+ *
+ * @internal
+ *
+ * @param middleware The middleware to run, outermost first.
+ * @param request The request to run.
+ * @param dispatch The function to call once all middleware has run.
+ *
+ * @returns The response.
+ */
+export async function runMiddleware(
+  middleware: Middleware[],
+  request: GatewayRequest,
+  dispatch: (request: GatewayRequest) => Promise<unknown>
+): Promise<unknown> {
+  const run = async (
+    index: number,
+    current: GatewayRequest
+  ): Promise<unknown> => {
+    const handler = middleware[index];
+    if (!handler) return dispatch(current);
+    return handler(current, async (next = current) => run(index + 1, next));
+  };
+  return run(0, request);
+}
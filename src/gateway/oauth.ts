@@ -1,7 +1,8 @@
 import type { Data, Maybe } from "../helper/types";
 import type { Credentials } from "./creds";
-import type { BearerAuth } from "./types";
+import type { BearerAuth, GatewayOptions, GatewayRequest } from "./types";
 
+import { AuthError, MissingScopeError } from "../errors";
 import { makeDebug } from "../helper/debug";
 import { fromRedditData } from "../reddit/util";
 import { CredsGateway } from "./creds";
@@ -24,13 +25,32 @@ export interface TokenAuth {
   refreshToken: string;
 }
 
+/**
+ * Installed app authentication
+ *
+ * This logs in without a user, like application-only auth, but works for
+ * installed apps that don't have a client secret.
+ */
+export interface InstalledClientAuth {
+  /**
+   * A unique, per-device ID, between 20 and 30 characters long. Use
+   * `DO_NOT_TRACK_THIS_DEVICE` if you don't want to identify the device.
+   */
+  deviceId: string;
+}
+
 /** Some kind of authorization */
-export type ClientAuth = UsernameAuth | TokenAuth;
+export type ClientAuth = UsernameAuth | TokenAuth | InstalledClientAuth;
 
+/** An OAuth token, as kept in a {@link TokenStore}. */
 export interface Token {
+  /** The access token. */
   access: string;
+  /** When the access token expires, in milliseconds since the epoch. */
   expiration: number;
+  /** The refresh token, if there is one. */
   refresh?: string;
+  /** The scopes this token was granted. */
   scopes: string[];
 }
 
@@ -55,6 +75,10 @@ interface PasswordGrant {
 interface ClientCredentialsGrant {
   grant_type: "client_credentials";
 }
+interface InstalledClientGrant {
+  grant_type: "https://oauth.reddit.com/grants/installed_client";
+  device_id: string;
+}
 interface AuthorizationCodeGrant {
   grant_type: "authorization_code";
   code: string;
@@ -66,22 +90,66 @@ type Grant =
   | RefreshTokenGrant
   | PasswordGrant
   | ClientCredentialsGrant
+  | InstalledClientGrant
   | AuthorizationCodeGrant;
 
+/**
+ * Parse the token out of the URL the implicit grant redirected to.
+ *
+ * @internal
+ *
+ * @param response The URL that was redirected to, or just its fragment.
+ * @param state The state that was given to the auth url.
+ *
+ * @returns The token.
+ */
+export function parseImplicitToken(response: string, state: string): Token {
+  const hash = response.indexOf("#");
+  const fragment = new URLSearchParams(
+    hash === -1 ? response : response.slice(hash + 1)
+  );
+
+  if (fragment.get("state") !== state) {
+    throw new AuthError("Implicit grant failed: state does not match");
+  }
+  const error = fragment.get("error");
+  if (error) throw new AuthError(`Implicit grant failed: ${error}`, error);
+
+  const access = fragment.get("access_token");
+  const expiresIn = Number(fragment.get("expires_in"));
+  if (!access || !expiresIn) {
+    throw new AuthError("Implicit grant failed: no access token was given");
+  }
+
+  return {
+    access,
+    expiration: Date.now() + expiresIn * 1000,
+    scopes: (fragment.get("scope") ?? "").split(" "),
+  };
+}
+
 /** @internal */
 export class OauthGateway extends Gateway {
   protected initialAuth: Maybe<ClientAuth>;
   protected creds: Credentials;
   protected token: Maybe<Token>;
+  protected tokenLoaded: Maybe<Promise<void>>;
+  protected loggedOut = false;
 
   /** @internal */
   static async fromAuthCode(
     code: string,
     redirectUri: string,
     creds: Credentials,
-    userAgent: string
+    userAgent: string,
+    options: GatewayOptions = {}
   ): Promise<OauthGateway> {
-    const gateway = new OauthGateway({ refreshToken: "" }, creds, userAgent);
+    const gateway = new OauthGateway(
+      { refreshToken: "" },
+      creds,
+      userAgent,
+      options
+    );
     await gateway.updateTokenFromGrant({
       /* eslint-disable @typescript-eslint/naming-convention */
       grant_type: "authorization_code",
@@ -94,8 +162,29 @@ export class OauthGateway extends Gateway {
   }
 
   /** @internal */
-  constructor(auth: Maybe<ClientAuth>, creds: Credentials, userAgent: string) {
-    super("https://oauth.reddit.com", userAgent);
+  static fromToken(
+    token: Token,
+    creds: Credentials,
+    userAgent: string,
+    options: GatewayOptions = {}
+  ): OauthGateway {
+    const gateway = new OauthGateway(undefined, creds, userAgent, options);
+    gateway.token = token;
+    return gateway;
+  }
+
+  /** @internal */
+  constructor(
+    auth: Maybe<ClientAuth>,
+    creds: Credentials,
+    userAgent: string,
+    options: GatewayOptions = {}
+  ) {
+    super(
+      options.endpoints?.oauth ?? "https://oauth.reddit.com",
+      userAgent,
+      options
+    );
     this.initialAuth = auth;
     this.creds = creds;
   }
@@ -110,9 +199,48 @@ export class OauthGateway extends Gateway {
     return this.token?.scopes;
   }
 
+  /** @internal */
+  public async revokeToken(type: "access" | "refresh"): Promise<void> {
+    await this.loadToken();
+    const token = type === "access" ? this.token?.access : this.token?.refresh;
+
+    if (token) {
+      debug("Revoking %s token", type);
+      const credGate = this.credsGateway();
+      /* eslint-disable @typescript-eslint/naming-convention */
+      await credGate.post("api/v1/revoke_token", {
+        token,
+        token_type_hint: `${type}_token`,
+      });
+      /* eslint-enable @typescript-eslint/naming-convention */
+    }
+
+    // Without the token we could silently log back in with the initial auth,
+    // so refuse to do anything else from now on.
+    this.loggedOut = true;
+
+    // Revoking the access token leaves the refresh token valid, so keep it
+    // around for whoever wants to start a new session with it.
+    const refresh = type === "access" ? this.token?.refresh : undefined;
+    if (this.token && refresh) {
+      this.token = { ...this.token, access: "", expiration: 0 };
+      await this.options.tokenStore?.save(this.token);
+    } else {
+      this.token = undefined;
+      await this.options.tokenStore?.clear();
+    }
+  }
+
+  /** @internal */
+  public async logout(): Promise<void> {
+    await this.loadToken();
+    // Revoking a refresh token also revokes the access tokens granted by it.
+    await this.revokeToken(this.token?.refresh ? "refresh" : "access");
+  }
+
   protected async auth(): Promise<BearerAuth> {
     await this.ensureTokenValid();
-    if (!this.token) throw new Error("Something has gone horribly wrong.");
+    if (!this.token) throw new AuthError("Unable to obtain an access token");
     return { bearer: this.token.access };
   }
 
@@ -121,7 +249,26 @@ export class OauthGateway extends Gateway {
     return path;
   }
 
+  protected override async dispatch(request: GatewayRequest): Promise<unknown> {
+    if (this.options.strictScopes) await this.checkScopes(request);
+    return super.dispatch(request);
+  }
+
+  protected async checkScopes(request: GatewayRequest): Promise<void> {
+    const needed = request.scopes;
+    if (!needed) return;
+
+    await this.ensureTokenValid();
+    const granted = this.token?.scopes ?? [];
+    if (granted.includes("*")) return;
+    const missing = needed.filter(scope => !granted.includes(scope));
+    if (missing.length > 0) throw new MissingScopeError(missing, request.path);
+  }
+
   protected async ensureTokenValid(): Promise<void> {
+    if (this.loggedOut) throw new AuthError("This client has been logged out");
+    await this.loadToken();
+
     // If the token is missing or expired, update it.
     const expiresAt = this.token?.expiration ?? 0;
     debug(
@@ -134,6 +281,17 @@ export class OauthGateway extends Gateway {
     }
   }
 
+  protected async loadToken(): Promise<void> {
+    // Only ever load once, and only if we don't already have a token.
+    this.tokenLoaded ??= (async () => {
+      const store = this.options.tokenStore;
+      if (this.token || !store) return;
+      this.token = await store.load();
+      debug("Loaded token from store (found = %b)", !!this.token);
+    })();
+    await this.tokenLoaded;
+  }
+
   protected async updateAccessToken(): Promise<void> {
     let grant: Grant;
     /* eslint-disable @typescript-eslint/naming-convention */
@@ -143,11 +301,11 @@ export class OauthGateway extends Gateway {
         refresh_token: this.token.refresh,
       };
     } else if (this.initialAuth) {
-      const auth = this.initialAuth;
-      grant =
-        "refreshToken" in auth
-          ? { grant_type: "refresh_token", refresh_token: auth.refreshToken }
-          : { grant_type: "password", ...auth };
+      grant = this.initialGrant(this.initialAuth);
+    } else if (this.creds.clientSecret == undefined) {
+      // Installed apps can't use client credentials, and tokens from the
+      // implicit grant can't be refreshed.
+      throw new AuthError("The access token expired and can't be refreshed");
     } else {
       grant = { grant_type: "client_credentials" };
     }
@@ -156,15 +314,47 @@ export class OauthGateway extends Gateway {
     await this.updateTokenFromGrant(grant);
   }
 
+  protected initialGrant(auth: ClientAuth): Grant {
+    /* eslint-disable @typescript-eslint/naming-convention */
+    if ("refreshToken" in auth) {
+      return { grant_type: "refresh_token", refresh_token: auth.refreshToken };
+    } else if ("deviceId" in auth) {
+      return {
+        grant_type: "https://oauth.reddit.com/grants/installed_client",
+        device_id: auth.deviceId,
+      };
+    } else {
+      return { grant_type: "password", ...auth };
+    }
+    /* eslint-enable @typescript-eslint/naming-convention */
+  }
+
+  /**
+   * Make a gateway to log in through.
+   *
+   * The scheduler, cache, middleware and such are meant for API requests, so
+   * only the transport and the endpoints are passed on.
+   *
+   * @returns The gateway.
+   */
+  protected credsGateway(): CredsGateway {
+    return new CredsGateway(this.creds, this.userAgent, {
+      endpoints: this.options.endpoints,
+      transport: this.transport,
+    });
+  }
+
   private async updateTokenFromGrant(grant: Grant) {
     debug("Updating token with grant %o", grant);
-    const credGate = new CredsGateway(this.creds, this.userAgent);
+    const credGate = this.credsGateway();
     const raw: Data = await credGate.post("api/v1/access_token", grant);
     const response: TokenResponse = fromRedditData(raw);
     this.token = {
       access: response.accessToken,
       expiration: Date.now() + response.expiresIn * 1000,
-      refresh: response.refreshToken,
+      // Reddit doesn't always send a new refresh token when refreshing, in
+      // which case the old one is still valid.
+      refresh: response.refreshToken ?? this.token?.refresh,
       scopes: response.scope.split(" "),
     };
     debug(
@@ -172,5 +362,6 @@ export class OauthGateway extends Gateway {
       this.token.expiration,
       this.token.scopes.join("', '")
     );
+    await this.options.tokenStore?.save(this.token);
   }
 }
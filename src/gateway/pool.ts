@@ -0,0 +1,161 @@
+import type { Data, Maybe } from "../helper/types";
+import type { RequestOptions } from "./abort";
+import type { Middleware } from "./middleware";
+import type { Auth, GatewayOptions, Query, RateLimit } from "./types";
+
+import { SnootsError } from "../errors";
+import { makeDebug } from "../helper/debug";
+import { Gateway } from "./gateway";
+import { noTransport } from "./transport/transport";
+
+const debug = makeDebug("gateway:pool");
+
+// Reddit allows 600 requests per 10 minute window.
+const fullRateLimit = 600;
+
+function remaining(rateLimit: Maybe<RateLimit>): number {
+  // Accounts that haven't made a request yet (or whose window has reset)
+  // have their whole rate limit left.
+  if (!rateLimit || rateLimit.reset <= Date.now()) return fullRateLimit;
+  return rateLimit.remaining;
+}
+
+// GET requests whose answer depends on the account asking: the account itself,
+// its inbox and votes, and the moderator-only listings of a subreddit.
+const identityPaths = [
+  /^api\/v1\/me(\/|$)/,
+  /^subreddits\/mine\//,
+  /^message\//,
+  /^user\/[^/]+\/(saved|hidden|upvoted|downvoted)$/,
+  /^r\/[^/]+\/about\/(banned|muted|contributors|wikibanned|wikicontributors)$/,
+  /^r\/[^/]+\/about\/(modqueue|reports|spam|edited|unmoderated|log)$/,
+];
+
+/**
+ * A gateway that spreads requests over the gateways of several accounts.
+ *
+ * @internal
+ */
+export class PoolGateway extends Gateway {
+  protected gateways: Map<string, Gateway>;
+  protected primary: Gateway;
+
+  /** @internal */
+  constructor(
+    gateways: Map<string, Gateway>,
+    primary: string,
+    userAgent: string,
+    options: GatewayOptions = {}
+  ) {
+    // Requests are reported by the gateways of the accounts, so the pool only
+    // needs the options for things it does itself (like reporting pages).
+    super("", userAgent, {
+      ...options,
+      transport: noTransport("A client pool"),
+    });
+    if (gateways.size === 0) {
+      throw new SnootsError("A client pool needs at least one account");
+    }
+    const gateway = gateways.get(primary);
+    if (!gateway) throw new SnootsError(`No account '${primary}' in this pool`);
+    this.gateways = gateways;
+    this.primary = gateway;
+  }
+
+  public override async get<T>(
+    path: string,
+    query: Query = {},
+    options: RequestOptions = {}
+  ): Promise<T> {
+    return this.rotate(path, false).get(path, query, options);
+  }
+
+  public override async post<T>(
+    path: string,
+    form: Data,
+    query: Query = {},
+    options: RequestOptions = {}
+  ): Promise<T> {
+    return this.rotate(path, true).post(path, form, query, options);
+  }
+
+  public override async postJson<T>(
+    path: string,
+    json: Data,
+    query: Query = {},
+    options: RequestOptions = {}
+  ): Promise<T> {
+    return this.rotate(path, true).postJson(path, json, query, options);
+  }
+
+  /** @internal */
+  public override getRateLimit(): Maybe<RateLimit> {
+    return this.pick().getRateLimit();
+  }
+
+  /** @internal */
+  public override getQueueDepth(): number {
+    let depth = 0;
+    for (const gateway of this.gateways.values()) {
+      depth += gateway.getQueueDepth();
+    }
+    return depth;
+  }
+
+  /** @internal */
+  public override use(middleware: Middleware): void {
+    for (const gateway of this.gateways.values()) gateway.use(middleware);
+  }
+
+  /** @internal */
+  public override cancelWrites(): number {
+    let cancelled = 0;
+    for (const gateway of this.gateways.values()) {
+      cancelled += gateway.cancelWrites();
+    }
+    return cancelled;
+  }
+
+  /**
+   * Pick the gateway to send a request with.
+   *
+   * @param path The path of the request.
+   * @param write Whether the request changes something on Reddit.
+   *
+   * @returns The gateway of the primary account if the request depends on the
+   * account that sends it, or else the gateway with the most rate limit left.
+   */
+  protected rotate(path: string, write: boolean): Gateway {
+    if (write || identityPaths.some(pattern => pattern.test(path))) {
+      debug("Sending '%s' from the primary account", path);
+      return this.primary;
+    }
+    return this.pick();
+  }
+
+  /**
+   * Pick the gateway with the most rate limit left.
+   *
+   * @returns The gateway.
+   */
+  protected pick(): Gateway {
+    let best: Maybe<[string, Gateway]>;
+    for (const entry of this.gateways) {
+      const [, gateway] = entry;
+      const left = remaining(gateway.getRateLimit());
+      if (!best || left > remaining(best[1].getRateLimit())) best = entry;
+    }
+
+    const [key, gateway] = best!;
+    debug("Picked account '%s'", key);
+    return gateway;
+  }
+
+  protected async auth(): Promise<Maybe<Auth>> {
+    throw new SnootsError("A client pool can't authenticate by itself");
+  }
+
+  protected mapPath(path: string): string {
+    return path;
+  }
+}
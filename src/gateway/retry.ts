@@ -0,0 +1,210 @@
+import type { Maybe } from "../helper/types";
+import type { TransportResponse } from "./transport/transport";
+import type { GatewayRequest } from "./types";
+
+import { makeDebug } from "../helper/debug";
+import { sleep } from "../helper/sleep";
+
+const debug = makeDebug("gateway:retry");
+
+/** Options for automatically retrying failed requests. */
+export interface RetryOptions {
+  /**
+   * The maximum number of times to attempt a request, including the first
+   * attempt. Defaults to `3`.
+   */
+  maxAttempts?: number;
+
+  /**
+   * The base delay between attempts, in milliseconds. This is doubled after
+   * every failed attempt. Defaults to `1000`.
+   */
+  baseDelay?: number;
+
+  /**
+   * The maximum delay between attempts, in milliseconds. Defaults to `30000`.
+   *
+   * @note This does not apply to delays requested by Reddit via the
+   * `Retry-After` header, those are always respected.
+   */
+  maxDelay?: number;
+
+  /**
+   * Decide whether or not a POST request can safely be sent more than once.
+   *
+   * Requests that were rejected outright (429 Too Many Requests, or a failure
+   * to connect at all) are always retried. Other failures (5xx errors and
+   * dropped connections) are ambiguous since Reddit may have already acted on
+   * the request, so those are only retried if the request is idempotent.
+   *
+   * GET requests are always considered idempotent. By default POST requests
+   * that only set some state (voting, saving, locking, approving, etc.) are
+   * considered idempotent, while POST requests that create something (like
+   * `api/submit` and `api/comment`) are not.
+   *
+   * @param path The path of the POST request.
+   *
+   * @returns Whether or not the request is safe to repeat.
+   */
+  isIdempotentPost?: (path: string) => boolean;
+}
+
+const idempotentPostPatterns = [
+  /^api\/(un)?(save|hide|lock|marknsfw|spoiler|ignore_reports)$/,
+  /^api\/(vote|approve|remove|distinguish|del|editusertext|sendreplies)$/,
+  /^api\/(set_contest_mode|set_suggested_sort|set_subreddit_sticky)$/,
+  /^api\/leavecontributor$/,
+  /^r\/[^/]+\/api\/(un)?friend$/,
+  /^r\/[^/]+\/api\/accept_moderator_invite$/,
+];
+
+function isDefaultIdempotentPost(path: string): boolean {
+  return idempotentPostPatterns.some(pattern => pattern.test(path));
+}
+
+/** Status codes that indicate a transient failure. */
+const transientStatusCodes = new Set([500, 502, 503, 504]);
+
+/** Network errors where the request never reached Reddit. */
+const unsentErrorCodes = new Set(["ECONNREFUSED", "EAI_AGAIN", "ENOTFOUND"]);
+
+/** Network errors where the request may or may not have reached Reddit. */
+const ambiguousErrorCodes = new Set([
+  "ECONNRESET",
+  "EPIPE",
+  "ETIMEDOUT",
+  "ECONNABORTED",
+  "UND_ERR_SOCKET",
+]);
+
+function errorCode(error: unknown): Maybe<string> {
+  if (typeof error !== "object" || error == undefined) return undefined;
+
+  const { code, cause } = error as { code?: unknown; cause?: unknown };
+  if (typeof code === "string") return code;
+
+  // fetch implementations wrap the underlying network error.
+  return cause === error ? undefined : errorCode(cause);
+}
+
+/**
+ * Parse a `Retry-After` header.
+ *
+ * @internal
+ *
+ * @param header The value of the header.
+ *
+ * @returns The delay in milliseconds, or `undefined` if the header was missing
+ * or invalid.
+ */
+export function parseRetryAfter(header: Maybe<string>): Maybe<number> {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Retries failed requests with exponential backoff.
+ *
+ * @internal
+ */
+export class RetryPolicy {
+  protected options: RetryOptions;
+
+  constructor(options: RetryOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Run a request, retrying it if it fails in a way that is safe to retry.
+   *
+   * @param request The request being made.
+   * @param attempt A function that makes a single attempt at the request.
+   *
+   * @returns A promise that resolves to the last response received.
+   */
+  async run(
+    request: GatewayRequest,
+    attempt: () => Promise<TransportResponse>
+  ): Promise<TransportResponse> {
+    const idempotent = this.isIdempotent(request);
+
+    for (let attemptNumber = 1; ; attemptNumber++) {
+      let wait: Maybe<number>;
+      try {
+        const response = await attempt();
+        wait = this.responseDelay(response, attemptNumber, idempotent);
+        if (wait === undefined) return response;
+      } catch (error) {
+        wait = this.errorDelay(error, attemptNumber, idempotent);
+        if (wait === undefined) throw error;
+      }
+
+      debug(
+        "Attempt %d of %s '%s' failed, retrying in %dms",
+        attemptNumber,
+        request.method,
+        request.path,
+        wait
+      );
+      await sleep(wait);
+    }
+  }
+
+  protected isIdempotent(request: GatewayRequest): boolean {
+    if (request.method === "GET") return true;
+    const isIdempotentPost =
+      this.options.isIdempotentPost ?? isDefaultIdempotentPost;
+    return isIdempotentPost(request.path);
+  }
+
+  protected responseDelay(
+    response: TransportResponse,
+    attemptNumber: number,
+    idempotent: boolean
+  ): Maybe<number> {
+    if (attemptNumber >= (this.options.maxAttempts ?? 3)) return undefined;
+
+    const { status, headers } = response;
+    if (status === 429) {
+      // The request was rejected, so it's always safe to try again.
+      const retryAfter = parseRetryAfter(headers["retry-after"]);
+      return retryAfter ?? this.backoff(attemptNumber);
+    }
+
+    if (idempotent && transientStatusCodes.has(status)) {
+      return this.backoff(attemptNumber);
+    }
+
+    return undefined;
+  }
+
+  protected errorDelay(
+    error: unknown,
+    attemptNumber: number,
+    idempotent: boolean
+  ): Maybe<number> {
+    if (attemptNumber >= (this.options.maxAttempts ?? 3)) return undefined;
+
+    const code = errorCode(error);
+    if (code == undefined) return undefined;
+
+    const retryable =
+      unsentErrorCodes.has(code) ||
+      (idempotent && ambiguousErrorCodes.has(code));
+    return retryable ? this.backoff(attemptNumber) : undefined;
+  }
+
+  protected backoff(attemptNumber: number): number {
+    const base = this.options.baseDelay ?? 1000;
+    const max = this.options.maxDelay ?? 30_000;
+    const delay = Math.min(max, base * 2 ** (attemptNumber - 1));
+
+    // Add jitter to keep many clients from retrying in lockstep.
+    return delay / 2 + (Math.random() * delay) / 2;
+  }
+}
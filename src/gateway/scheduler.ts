@@ -0,0 +1,228 @@
+import type { Maybe } from "../helper/types";
+import type { RateLimit } from "./types";
+
+import { makeDebug } from "../helper/debug";
+import { sleep } from "../helper/sleep";
+
+const debug = makeDebug("gateway:scheduler");
+
+/** Information about a delay imposed by the request scheduler. */
+export interface SchedulerWaitEvent {
+  /** How long the scheduler is going to wait, in milliseconds. */
+  wait: number;
+
+  /** How many requests are waiting to be sent, including this one. */
+  queueDepth: number;
+
+  /** How many requests the scheduler thinks are left in this window. */
+  remaining: number;
+
+  /** When the current rate limit window resets. */
+  reset: number;
+}
+
+/** Options for the rate limit aware request scheduler. */
+export interface SchedulerOptions {
+  /**
+   * How many requests to keep in reserve.
+   *
+   * Once the number of remaining requests drops to this value, every further
+   * request is held until the rate limit window resets. Defaults to `0`.
+   */
+  reserve?: number;
+
+  /**
+   * Whether or not to spread requests evenly over the rate limit window.
+   *
+   * If this is `false` requests are sent as fast as possible until the rate
+   * limit is exhausted, and then held until the window resets. Defaults to
+   * `true`.
+   */
+  spread?: boolean;
+
+  /**
+   * Called every time the number of queued requests changes.
+   *
+   * @param depth The number of requests waiting to be sent.
+   */
+  onQueueDepth?: (depth: number) => void;
+
+  /**
+   * Called every time the scheduler has to delay a request.
+   *
+   * @param event Information about the delay.
+   */
+  onWait?: (event: SchedulerWaitEvent) => void;
+}
+
+/**
+ * Marks a request that can wait until no other requests are waiting, like the
+ * next page of a listing that is fetched ahead of time.
+ *
+ * @internal
+ */
+export class Background {
+  protected listeners: (() => void)[] = [];
+  protected isPromoted = false;
+
+  /** Whether somebody is waiting for the request now. */
+  get promoted(): boolean {
+    return this.isPromoted;
+  }
+
+  /**
+   * Move the request to the foreground, because somebody is waiting for it.
+   */
+  promote(): void {
+    if (this.isPromoted) return;
+    this.isPromoted = true;
+    for (const listener of this.listeners.splice(0)) listener();
+  }
+
+  /**
+   * Do something once the request is moved to the foreground.
+   *
+   * @param listener What to do.
+   */
+  onPromote(listener: () => void): void {
+    this.listeners.push(listener);
+  }
+}
+
+/**
+ * Schedules requests so that they stay within Reddit's rate limits.
+ *
+ * Requests are sent in the order they were scheduled, except for background
+ * requests, which are only sent when no other requests are waiting (or once
+ * they are promoted to the foreground).
+ *
+ * @internal
+ */
+export class RequestScheduler {
+  protected options: SchedulerOptions;
+  protected queue: (() => void)[] = [];
+  protected background: (() => void)[] = [];
+  protected rateLimit: Maybe<RateLimit>;
+  protected lastRequest: number = Number.NEGATIVE_INFINITY;
+  protected pumping: boolean = false;
+
+  constructor(options: SchedulerOptions) {
+    this.options = options;
+  }
+
+  /** The number of requests that are waiting to be sent. */
+  get queueDepth(): number {
+    return this.queue.length + this.background.length;
+  }
+
+  /**
+   * Update the scheduler's knowledge of the current rate limit.
+   *
+   * @param rateLimit The latest rate limit reported by Reddit.
+   */
+  update(rateLimit: RateLimit): void {
+    this.rateLimit = { ...rateLimit };
+  }
+
+  /**
+   * Run a task once the rate limit allows it.
+   *
+   * @param task The task that sends the request.
+   * @param background Set if the task can wait until no other tasks are
+   * waiting.
+   *
+   * @returns A promise that resolves to the result of the task.
+   */
+  async schedule<T>(
+    task: () => Promise<T>,
+    background?: Background
+  ): Promise<T> {
+    await this.acquire(background);
+    return await task();
+  }
+
+  protected async acquire(background: Maybe<Background>): Promise<void> {
+    const slot = new Promise<void>(resolve => {
+      if (!background || background.promoted) {
+        this.queue.push(resolve);
+        return;
+      }
+      this.background.push(resolve);
+      background.onPromote(() => this.promote(resolve));
+    });
+    this.emitQueueDepth();
+    void this.pump();
+    await slot;
+  }
+
+  // Move a background request to the end of the foreground queue, unless it
+  // has already been sent.
+  protected promote(release: () => void): void {
+    const index = this.background.indexOf(release);
+    if (index === -1) return;
+    this.background.splice(index, 1);
+    this.queue.push(release);
+  }
+
+  protected async pump(): Promise<void> {
+    // Only one pump may run at a time, otherwise the spacing breaks down.
+    if (this.pumping) return;
+    this.pumping = true;
+
+    try {
+      while (this.queueDepth > 0) {
+        await this.waitForSlot();
+        // Requests may have been added while waiting, so pick the next one
+        // only now.
+        const release = (this.queue.shift() ?? this.background.shift())!;
+        this.emitQueueDepth();
+        release();
+      }
+    } finally {
+      this.pumping = false;
+    }
+  }
+
+  protected async waitForSlot(): Promise<void> {
+    const wait = this.delay();
+    if (wait > 0 && this.rateLimit) {
+      const { remaining, reset } = this.rateLimit;
+      debug("Delaying request by %dms (%d remaining)", wait, remaining);
+      this.options.onWait?.({
+        wait,
+        queueDepth: this.queueDepth,
+        remaining,
+        reset,
+      });
+      await sleep(wait);
+    }
+
+    this.lastRequest = Date.now();
+    if (this.rateLimit) {
+      if (this.rateLimit.reset <= this.lastRequest) {
+        // The window has reset, we don't know anything about the new one yet.
+        this.rateLimit = undefined;
+      } else {
+        // Account for this request until Reddit tells us otherwise.
+        this.rateLimit.remaining--;
+      }
+    }
+  }
+
+  protected delay(): number {
+    const now = Date.now();
+    if (!this.rateLimit || this.rateLimit.reset <= now) return 0;
+
+    const { remaining, reset } = this.rateLimit;
+    const available = remaining - (this.options.reserve ?? 0);
+    if (available <= 0) return reset - now;
+    if (this.options.spread === false) return 0;
+
+    const interval = (reset - now) / available;
+    return Math.max(0, this.lastRequest + interval - now);
+  }
+
+  protected emitQueueDepth(): void {
+    this.options.onQueueDepth?.(this.queueDepth);
+  }
+}
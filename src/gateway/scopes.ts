@@ -0,0 +1,92 @@
+import type { Maybe } from "../helper/types";
+import type { AsyncLocalStorage } from "node:async_hooks";
+
+/**
+ * An OAuth scope.
+ *
+ * See https://www.reddit.com/api/v1/scopes for what each scope allows.
+ */
+export type Scope =
+  | "account"
+  | "creddits"
+  | "edit"
+  | "flair"
+  | "history"
+  | "identity"
+  | "livemanage"
+  | "modconfig"
+  | "modcontributors"
+  | "modflair"
+  | "modlog"
+  | "modmail"
+  | "modothers"
+  | "modposts"
+  | "modself"
+  | "modwiki"
+  | "mysubreddits"
+  | "privatemessages"
+  | "read"
+  | "report"
+  | "save"
+  | "structuredstyles"
+  | "submit"
+  | "subscribe"
+  | "vote"
+  | "wikiedit"
+  | "wikiread";
+
+// The scopes needed by the method that is currently making requests. Only Node
+// has AsyncLocalStorage, so everywhere else (and until it's loaded) the scopes
+// are only known while the method runs synchronously.
+let storage: Maybe<AsyncLocalStorage<Scope[]>>;
+let loading = false;
+let current: Maybe<Scope[]>;
+
+async function loadStorage(): Promise<void> {
+  try {
+    const hooks = await import("node:async_hooks");
+    storage = new hooks.AsyncLocalStorage();
+  } catch {
+    // Not running in Node.
+  }
+}
+
+/**
+ * Run something on behalf of a method that needs some scopes.
+ *
+ * Every request made while it runs (in Node, even after it returned a promise)
+ * is checked against these scopes if strict scopes are enabled.
+ *
+ * @internal
+ *
+ * @param scopes The scopes, or `undefined` if nothing should be checked.
+ * @param run What to run.
+ *
+ * @returns What `run` returned.
+ */
+export function withScopes<T>(scopes: Maybe<Scope[]>, run: () => T): T {
+  if (!loading) {
+    loading = true;
+    void loadStorage();
+  }
+  if (storage) return scopes ? storage.run(scopes, run) : storage.exit(run);
+
+  const previous = current;
+  current = scopes;
+  try {
+    return run();
+  } finally {
+    current = previous;
+  }
+}
+
+/**
+ * Get the scopes given to the {@link withScopes} call this runs in.
+ *
+ * @internal
+ *
+ * @returns The scopes, or `undefined` if there are none.
+ */
+export function currentScopes(): Maybe<Scope[]> {
+  return storage ? storage.getStore() : current;
+}
@@ -0,0 +1,186 @@
+import type { Maybe } from "../helper/types";
+import type { HttpMethod } from "./transport/transport";
+
+import { makeDebug } from "../helper/debug";
+
+const debug = makeDebug("gateway:telemetry");
+
+/** Information about a request that was sent to Reddit. */
+export interface RequestEvent {
+  /** The HTTP method of the request. */
+  method: HttpMethod;
+
+  /**
+   * The path of the request with names and IDs replaced by placeholders, like
+   * `r/{subreddit}/about`. This is meant to be used as a metric label.
+   */
+  endpoint: string;
+
+  /** The path of the request, like `r/funny/about`. */
+  path: string;
+
+  /**
+   * The HTTP status of the response, or `undefined` if no response was
+   * received (for example because the connection failed).
+   */
+  status: Maybe<number>;
+
+  /**
+   * How long the request took, in milliseconds. This includes time spent
+   * waiting for the rate limit and between retries.
+   */
+  duration: number;
+
+  /** The size of the response body, in bytes. */
+  bytes: number;
+
+  /** How many times the request was retried. */
+  retries: number;
+
+  /** How many requests are left in the rate limit window, if known. */
+  rateLimitRemaining: Maybe<number>;
+
+  /** The error the request failed with, if it failed before a response. */
+  error?: unknown;
+}
+
+/** Information about a page of a listing that was fetched from Reddit. */
+export interface PageEvent {
+  /**
+   * The path of the listing with names and IDs replaced by placeholders, like
+   * `r/{subreddit}/new`.
+   */
+  endpoint: string;
+
+  /** The path of the listing, like `r/funny/new`. */
+  path: string;
+
+  /** The cursor the page was fetched after, if any. */
+  after: Maybe<string>;
+
+  /** The cursor the page was fetched before, for listings paged backwards. */
+  before?: string;
+
+  /** How many items were on the page. */
+  items: number;
+
+  /** How long it took to fetch the page, in milliseconds. */
+  duration: number;
+
+  /** Whether this was the last page of the listing. */
+  done: boolean;
+}
+
+/** Information about a request that shared the response of another one. */
+export interface CoalesceEvent {
+  /**
+   * The path of the request with names and IDs replaced by placeholders, like
+   * `r/{subreddit}/about`.
+   */
+  endpoint: string;
+
+  /** The path of the request, like `r/funny/about`. */
+  path: string;
+}
+
+/**
+ * Hooks for collecting metrics about the requests snoots makes.
+ *
+ * Every hook is called synchronously after the fact, so keep them fast. Errors
+ * thrown by a hook are ignored.
+ *
+ * @example Exporting request latencies to Prometheus
+ * ```ts
+ * const latency = new Histogram({
+ *   name: 'reddit_request_duration_ms',
+ *   help: 'Latency of Reddit API requests',
+ *   labelNames: ['method', 'endpoint', 'status'],
+ * });
+ *
+ * const client = new Client({
+ *   userAgent: '<your user agent>',
+ *   telemetry: {
+ *     onRequest: ({ method, endpoint, status, duration }) =>
+ *       latency.observe({ method, endpoint, status }, duration),
+ *   },
+ * });
+ * ```
+ */
+export interface Telemetry {
+  /**
+   * Called once for every request sent to Reddit, after it has finished (or
+   * failed). Retries are part of the original request.
+   *
+   * @note Responses that are served from the cache without asking Reddit are
+   * not reported.
+   *
+   * @param event Information about the request.
+   */
+  onRequest?: (event: RequestEvent) => void;
+
+  /**
+   * Called every time a page of a listing is fetched.
+   *
+   * @param event Information about the page.
+   */
+  onPage?: (event: PageEvent) => void;
+
+  /**
+   * Called every time a GET request joins an identical one that's already in
+   * flight, instead of being sent.
+   *
+   * @note This is only called if {@link ClientOptions.coalesce} is set.
+   *
+   * @param event Information about the request.
+   */
+  onCoalesce?: (event: CoalesceEvent) => void;
+}
+
+// The placeholders for the segments that come after these ones.
+const placeholders = new Map<string, string>();
+for (const [placeholder, segments] of [
+  ["{subreddit}", ["r"]],
+  ["{username}", ["user", "u", "friends"]],
+  ["{id}", ["comments", "duplicates"]],
+  ["{fullnames}", ["by_id"]],
+] as const) {
+  for (const segment of segments) placeholders.set(segment, placeholder);
+}
+
+/**
+ * Replace the names and IDs in a path with placeholders.
+ *
+ * @internal
+ *
+ * @param path The path of a request, like `r/funny/about`.
+ *
+ * @returns The path with placeholders, like `r/{subreddit}/about`.
+ */
+export function endpointTemplate(path: string): string {
+  const segments = path.split("/");
+  return segments
+    .map((segment, index) => {
+      const placeholder = placeholders.get(segments[index - 1]);
+      if (placeholder) return placeholder;
+      if (/^t\d_\w+$/.test(segment)) return "{fullname}";
+      return segment;
+    })
+    .join("/");
+}
+
+/**
+ * Call a telemetry hook, ignoring any errors it throws.
+ *
+ * @internal
+ *
+ * @param hook The hook to call, if any.
+ * @param event The event to pass to the hook.
+ */
+export function emit<T>(hook: Maybe<(event: T) => void>, event: T): void {
+  if (!hook) return;
+  try {
+    hook(event);
+  } catch (error) {
+    debug("Telemetry hook threw an error: %O", error);
+  }
+}
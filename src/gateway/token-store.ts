@@ -0,0 +1,107 @@
+import type { Awaitable, Maybe } from "../helper/types";
+import type { Token } from "./oauth";
+
+import { open, readFile, rm } from "node:fs/promises";
+
+import { makeDebug } from "../helper/debug";
+
+const debug = makeDebug("gateway:token-store");
+
+/**
+ * A place to keep OAuth tokens between runs.
+ *
+ * The token is loaded before the first authenticated request and saved every
+ * time a new one is granted, so a still-valid access token (and the latest
+ * refresh token, if Reddit rotated it) survives a restart.
+ *
+ * @note Each store holds the token of a single account. Sharing one store
+ * between clients that log into different accounts will mix them up.
+ */
+export interface TokenStore {
+  /** Load the stored token, or `undefined` if there is none. */
+  load(): Awaitable<Maybe<Token>>;
+
+  /** Replace the stored token. */
+  save(token: Token): Awaitable<void>;
+
+  /** Remove the stored token, after it was revoked. */
+  clear(): Awaitable<void>;
+}
+
+/** A {@link TokenStore} that keeps the token in memory. */
+export class MemoryTokenStore implements TokenStore {
+  /** @internal */
+  protected token: Maybe<Token>;
+
+  /**
+   * Create a new MemoryTokenStore.
+   *
+   * @param token The token to start out with, if any.
+   */
+  constructor(token?: Token) {
+    this.token = token;
+  }
+
+  load(): Maybe<Token> {
+    return this.token;
+  }
+
+  save(token: Token): void {
+    this.token = token;
+  }
+
+  clear(): void {
+    this.token = undefined;
+  }
+}
+
+/**
+ * A {@link TokenStore} that keeps the token in a JSON file.
+ *
+ * The file is created when the first token is saved, and is only readable by
+ * the current user since it contains credentials.
+ */
+export class FileTokenStore implements TokenStore {
+  /** @internal */
+  protected file: string;
+
+  /**
+   * Create a new FileTokenStore.
+   *
+   * @param file The path of the file to keep the token in.
+   */
+  constructor(file: string) {
+    this.file = file;
+  }
+
+  async load(): Promise<Maybe<Token>> {
+    let contents: string;
+    try {
+      contents = await readFile(this.file, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+
+    debug("Loaded token from '%s'", this.file);
+    return JSON.parse(contents) as Token;
+  }
+
+  async save(token: Token): Promise<void> {
+    // The mode only applies to new files, so a file that already exists has to
+    // be locked down before the token is written to it.
+    const handle = await open(this.file, "w", 0o600);
+    try {
+      await handle.chmod(0o600);
+      await handle.writeFile(JSON.stringify(token, undefined, 2));
+    } finally {
+      await handle.close();
+    }
+    debug("Saved token to '%s'", this.file);
+  }
+
+  async clear(): Promise<void> {
+    await rm(this.file, { force: true });
+    debug("Removed token from '%s'", this.file);
+  }
+}
@@ -0,0 +1,86 @@
+import type {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+} from "./transport";
+
+import { SnootsError } from "../../errors";
+
+/** The subset of a WHATWG `Response` that {@link FetchTransport} uses. */
+export interface FetchResponse {
+  status: number;
+  headers: Iterable<[string, string]>;
+  text(): Promise<string>;
+}
+
+/** The subset of the WHATWG `RequestInit` that {@link FetchTransport} uses. */
+export interface FetchInit {
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+  redirect: "manual";
+  signal?: AbortSignal;
+}
+
+/**
+ * A WHATWG `fetch`-compatible function.
+ *
+ * @param url The url to fetch.
+ * @param init The request options.
+ *
+ * @returns A promise that resolves to the response.
+ */
+export type FetchFunction = (
+  url: string,
+  init: FetchInit
+) => Promise<FetchResponse>;
+
+/**
+ * A {@link Transport} backed by the WHATWG `fetch` api.
+ *
+ * This is useful on runtimes where got is not available (Deno, Bun, edge
+ * workers, etc.).
+ *
+ * @note Redirects are requested with `redirect: "manual"`. Some runtimes
+ * (notably browsers) return an opaque response for manual redirects, in which
+ * case methods that rely on them (like
+ * {@link SubredditControls.getRandomPostId}) will not work.
+ */
+export class FetchTransport implements Transport {
+  protected fetch: FetchFunction;
+
+  /**
+   * Make a new FetchTransport.
+   *
+   * @param fetch The fetch implementation to use. Defaults to the global
+   * `fetch`.
+   */
+  constructor(fetch?: FetchFunction) {
+    const globalFetch = (globalThis as { fetch?: FetchFunction }).fetch;
+    const fetchImpl = fetch ?? globalFetch?.bind(globalThis);
+    if (!fetchImpl) {
+      throw new SnootsError("No fetch implementation was given or found");
+    }
+    this.fetch = fetchImpl;
+  }
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    // Call fetch without a receiver, some implementations don't like being
+    // called as a method of some other object.
+    const fetch = this.fetch;
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      redirect: "manual",
+      ...(request.signal && { signal: request.signal }),
+    });
+
+    const headers: Record<string, string> = {};
+    for (const [key, value] of response.headers) {
+      headers[key.toLowerCase()] = value;
+    }
+
+    return { status: response.status, headers, body: await response.text() };
+  }
+}
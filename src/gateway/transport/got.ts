@@ -0,0 +1,143 @@
+import type { Maybe } from "../../helper/types";
+import type {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+} from "./transport";
+import type { Agent as HttpAgent } from "node:http";
+import type { Agent as HttpsAgent } from "node:https";
+
+import { SnootsError } from "../../errors";
+
+/** The agents to open connections with, by protocol. */
+export interface HttpAgents {
+  /** The agent for `http:` urls. */
+  http?: HttpAgent;
+  /** The agent for `https:` urls. */
+  https?: HttpsAgent;
+}
+
+/** Options for the {@link GotTransport}. */
+export interface GotTransportOptions {
+  /**
+   * The url of an HTTP proxy to send every request through, like
+   * `http://proxy.example.com:3128`.
+   *
+   * Credentials can be included in the url. `https:` requests are tunneled
+   * through the proxy with `CONNECT`, so TLS is still end-to-end, and `http:`
+   * requests are forwarded by it.
+   *
+   * This needs the [http-proxy-agent](https://npmjs.com/package/http-proxy-agent)
+   * and [https-proxy-agent](https://npmjs.com/package/https-proxy-agent)
+   * packages to be installed.
+   */
+  proxy?: string;
+
+  /**
+   * The agents to open connections with.
+   *
+   * Use this to enable keep-alive, or to set TLS options like a custom CA
+   * (with an `https.Agent`). This can't be combined with {@link proxy}, but
+   * a proxy agent can be given here instead.
+   */
+  agent?: HttpAgents;
+}
+
+// The proxy agents are optional dependencies, so they're only loaded once a
+// request is sent through a proxy.
+async function loadProxyAgents(proxy: string): Promise<HttpAgents> {
+  try {
+    const { default: createHttpProxyAgent } = await import("http-proxy-agent");
+    const { default: createHttpsProxyAgent } = await import(
+      "https-proxy-agent"
+    );
+
+    // The proxy agents aren't http.Agents, but they behave like them.
+    return {
+      http: createHttpProxyAgent(proxy) as unknown as HttpAgent,
+      https: createHttpsProxyAgent(proxy) as unknown as HttpsAgent,
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "MODULE_NOT_FOUND") {
+      throw error;
+    }
+    throw new SnootsError(
+      "Using a proxy needs 'http-proxy-agent' and 'https-proxy-agent' to be installed"
+    );
+  }
+}
+
+async function makeAgents(
+  options: GotTransportOptions
+): Promise<Maybe<HttpAgents>> {
+  if (options.proxy == undefined) return options.agent;
+  return loadProxyAgents(options.proxy);
+}
+
+/**
+ * A {@link Transport} backed by [got](https://npmjs.com/package/got).
+ *
+ * This is the default transport. got is only loaded once the first request is
+ * made, so snoots can be used without it installed as long as another
+ * transport is given.
+ */
+export class GotTransport implements Transport {
+  protected options: GotTransportOptions;
+  protected agent?: Promise<Maybe<HttpAgents>>;
+
+  /**
+   * Make a new GotTransport.
+   *
+   * @param options The options to configure this transport with.
+   *
+   * @throws {SnootsError} If both a proxy and an agent are given.
+   */
+  constructor(options: GotTransportOptions = {}) {
+    if (options.proxy != undefined && options.agent) {
+      throw new SnootsError("A proxy and an agent can't be used together");
+    }
+    this.options = options;
+  }
+
+  /**
+   * Send a request.
+   *
+   * @param request The request to send.
+   *
+   * @returns The response.
+   *
+   * @throws {SnootsError} If a proxy is used but the packages for it aren't
+   * installed.
+   */
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    const { default: got } = await import("got");
+    this.agent ??= makeAgents(this.options);
+    const pending = got(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      agent: await this.agent,
+      followRedirect: false,
+      throwHttpErrors: false,
+      responseType: "text",
+    });
+
+    // got 11 doesn't support AbortSignal, but it can be cancelled manually.
+    const cancel = () => pending.cancel();
+    request.signal?.addEventListener("abort", cancel, { once: true });
+    let response: Awaited<typeof pending>;
+    try {
+      response = await pending;
+    } finally {
+      request.signal?.removeEventListener("abort", cancel);
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [key, value] of Object.entries(response.headers)) {
+      if (value == undefined) continue;
+      headers[key] = Array.isArray(value) ? value.join(", ") : value;
+    }
+
+    return { status: response.statusCode, headers, body: response.body };
+  }
+}
@@ -0,0 +1,82 @@
+import { SnootsError } from "../../errors";
+
+/** The HTTP methods snoots uses to talk to Reddit. */
+export type HttpMethod = "GET" | "POST";
+
+/** A single HTTP request, fully prepared by a {@link Gateway}. */
+export interface TransportRequest {
+  /** The HTTP method to use. */
+  method: HttpMethod;
+
+  /** The full url to request, including the query string. */
+  url: string;
+
+  /** The headers to send. All keys are lowercase. */
+  headers: Record<string, string>;
+
+  /** The already-encoded request body, if there is one. */
+  body?: string;
+
+  /**
+   * A signal that is aborted if the request was cancelled. Transports should
+   * stop the request when it's aborted, but are allowed to ignore it.
+   */
+  signal?: AbortSignal;
+}
+
+/** The raw HTTP response returned by a {@link Transport}. */
+export interface TransportResponse {
+  /** The HTTP status code. */
+  status: number;
+
+  /** The response headers. All keys are lowercase. */
+  headers: Record<string, string>;
+
+  /** The raw response body. */
+  body: string;
+}
+
+/**
+ * The HTTP layer used to talk to Reddit.
+ *
+ * A Transport is only responsible for moving bytes around. Everything else
+ * (authentication, encoding, redirects, rate limits, error handling) is the
+ * responsibility of the {@link Gateway}.
+ *
+ * Implementations must:
+ * * never follow redirects,
+ * * resolve with the response for *every* status code, and
+ * * only reject if no response could be received at all (network errors).
+ *
+ * snoots ships with a {@link GotTransport} (the default) and a
+ * {@link FetchTransport}. You can also provide your own, for example to use a
+ * different HTTP stack or to fake responses in tests.
+ */
+export interface Transport {
+  /**
+   * Perform a single HTTP request.
+   *
+   * @param request The request to make.
+   *
+   * @returns A promise that resolves to the response.
+   */
+  request(request: TransportRequest): Promise<TransportResponse>;
+}
+
+/**
+ * Make a transport for gateways that never send requests themselves, so they
+ * don't set up an HTTP stack for nothing.
+ *
+ * @internal
+ *
+ * @param owner What the transport belongs to, like "A client pool".
+ *
+ * @returns A transport that always throws.
+ */
+export function noTransport(owner: string): Transport {
+  return {
+    async request() {
+      throw new SnootsError(`${owner} can't send requests by itself`);
+    },
+  };
+}
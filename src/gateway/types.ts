@@ -1,7 +1,18 @@
-export type {
-  OptionsOfTextResponseBody as GotOptions,
-  Response as GotResponse,
-} from "got";
+import type { Data } from "../helper/types";
+import type { CacheOptions } from "./cache";
+import type { Middleware } from "./middleware";
+import type { RetryOptions } from "./retry";
+import type { Background, SchedulerOptions } from "./scheduler";
+import type { Scope } from "./scopes";
+import type { Telemetry } from "./telemetry";
+import type { TokenStore } from "./token-store";
+import type { HttpAgents } from "./transport/got";
+import type {
+  HttpMethod,
+  Transport,
+  TransportResponse,
+} from "./transport/transport";
+import type { WriteQueueOptions } from "./write-queue";
 
 /** The types of values that are allowed in a query. */
 export type QueryValue = string | number | boolean | null | undefined;
@@ -17,6 +28,64 @@ export interface BearerAuth {
 }
 export type Auth = BasicAuth | BearerAuth;
 
+/** The base urls of the Reddit API. */
+export interface Endpoints {
+  /**
+   * The url for unauthenticated requests and for logging in.
+   *
+   * This defaults to `https://www.reddit.com`.
+   */
+  www?: string;
+
+  /**
+   * The url for OAuth requests.
+   *
+   * This defaults to `https://oauth.reddit.com`.
+   */
+  oauth?: string;
+}
+
+/** @internal */
+export interface GatewayOptions {
+  endpoints?: Endpoints;
+  proxy?: string;
+  agent?: HttpAgents;
+  transport?: Transport;
+  scheduler?: SchedulerOptions;
+  retry?: RetryOptions;
+  writeQueue?: WriteQueueOptions;
+  middleware?: Middleware[];
+  cache?: CacheOptions;
+  tokenStore?: TokenStore;
+  strictScopes?: boolean;
+  telemetry?: Telemetry;
+  coalesce?: boolean;
+}
+
+/** A request to the Reddit API, as seen by {@link Middleware}. */
+export interface GatewayRequest {
+  /** The HTTP method of the request. */
+  method: HttpMethod;
+  /** The path being requested, like `r/funny/about`. */
+  path: string;
+  /** The query parameters. */
+  query: Query;
+  /** The x-www-form-urlencoded body, if any. */
+  form?: Data;
+  /** The json body, if any. */
+  json?: Data;
+  /** Extra headers to send along with the request. */
+  headers?: Record<string, string>;
+  /** A signal that cancels the request when it's aborted. */
+  signal?: AbortSignal;
+  /** Set this to `false` to skip the response cache for this request. */
+  cache?: boolean;
+  /** Set if this request can wait until no other requests are waiting. */
+  background?: Background;
+  /** The OAuth scopes needed by the method that made this request. */
+  scopes?: Scope[];
+}
+
 /** The information about a connection's last-known rate limit. */
 export interface RateLimit {
   /** How many requests are remaining. */
@@ -27,7 +96,8 @@ export interface RateLimit {
 
 interface RedditJsonResponse<T> {
   json: {
-    errors: string[];
+    /** Each error is of the form `[code, description, field]`. */
+    errors: [string, string?, string?][];
     data?: T;
   };
 }
@@ -39,3 +109,14 @@ interface RedditError {
 }
 
 export type SomeResponse<T> = T | RedditError | RedditJsonResponse<T>;
+
+/**
+ * A function that is given every request a {@link Gateway} sent, along with
+ * the raw response or the error the request failed with.
+ *
+ * @internal
+ */
+export type Recorder = (
+  request: GatewayRequest,
+  outcome: { response?: TransportResponse; error?: unknown }
+) => Promise<void>;
@@ -0,0 +1,178 @@
+import type { Maybe } from "../helper/types";
+
+import { AbortError, RateLimitedError } from "../errors";
+import { makeDebug } from "../helper/debug";
+
+const debug = makeDebug("gateway:write-queue");
+
+/** Information about a write that is waiting out a Reddit rate limit. */
+export interface WriteQueueWaitEvent {
+  /** The path of the write that was rate limited. */
+  path: string;
+
+  /** How long the queue is going to wait, in milliseconds. */
+  wait: number;
+
+  /** How many writes are waiting to be sent, including this one. */
+  queueDepth: number;
+}
+
+/** Options for the automatic write queue. */
+export interface WriteQueueOptions {
+  /**
+   * The longest delay to wait out automatically, in milliseconds.
+   *
+   * If Reddit asks us to wait longer than this the {@link RateLimitedError} is
+   * thrown instead. Defaults to 15 minutes.
+   */
+  maxWait?: number;
+
+  /**
+   * How many times to retry a single write after being rate limited. Defaults
+   * to `3`.
+   */
+  maxRetries?: number;
+
+  /**
+   * Called every time a write has to wait before being retried.
+   *
+   * @param event Information about the delay.
+   */
+  onWait?: (event: WriteQueueWaitEvent) => void;
+}
+
+interface QueuedWrite {
+  path: string;
+  task: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Sends writes one at a time, waiting out and retrying any that Reddit rejects
+ * with a `RATELIMIT` error.
+ *
+ * @internal
+ */
+export class WriteQueue {
+  protected options: WriteQueueOptions;
+  protected queue: QueuedWrite[] = [];
+  protected running: boolean = false;
+  protected cancelWait: Maybe<() => void>;
+
+  constructor(options: WriteQueueOptions) {
+    this.options = options;
+  }
+
+  /** The number of writes that are waiting or in progress. */
+  get queueDepth(): number {
+    return this.queue.length + (this.running ? 1 : 0);
+  }
+
+  /**
+   * Queue a write.
+   *
+   * @param path The path being written to.
+   * @param task A function that makes a single attempt at the write.
+   *
+   * @returns A promise that resolves to the result of the write.
+   */
+  async run<T>(path: string, task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        path,
+        task,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+      void this.pump();
+    });
+  }
+
+  /**
+   * Cancel every write that has not been sent yet.
+   *
+   * Writes that are currently in flight are not affected, but writes that are
+   * waiting for a rate limit to expire are.
+   *
+   * @returns The number of writes that were cancelled.
+   */
+  cancel(): number {
+    const cancelled = this.queue.splice(0);
+    for (const write of cancelled) {
+      write.reject(
+        new AbortError(`The write to '${write.path}' was cancelled`)
+      );
+    }
+
+    if (this.cancelWait) {
+      this.cancelWait();
+      return cancelled.length + 1;
+    }
+    return cancelled.length;
+  }
+
+  protected async pump(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    let write = this.queue.shift();
+    while (write) {
+      try {
+        write.resolve(await this.attempt(write));
+      } catch (error) {
+        write.reject(error);
+      }
+      write = this.queue.shift();
+    }
+
+    this.running = false;
+  }
+
+  protected async attempt(write: QueuedWrite): Promise<unknown> {
+    const maxRetries = this.options.maxRetries ?? 3;
+    const maxWait = this.options.maxWait ?? 15 * 60 * 1000;
+
+    for (let retries = 0; ; retries++) {
+      try {
+        return await write.task();
+      } catch (error) {
+        if (
+          !(error instanceof RateLimitedError) ||
+          error.retryAfter === undefined ||
+          error.retryAfter > maxWait ||
+          retries >= maxRetries
+        ) {
+          throw error;
+        }
+
+        const wait = error.retryAfter;
+        debug("Write to '%s' was rate limited, waiting %dms", write.path, wait);
+        this.options.onWait?.({
+          path: write.path,
+          wait,
+          queueDepth: this.queueDepth,
+        });
+        await this.wait(write, wait);
+      }
+    }
+  }
+
+  protected async wait(
+    write: QueuedWrite,
+    milliseconds: number
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.cancelWait = undefined;
+        resolve();
+      }, milliseconds);
+
+      this.cancelWait = () => {
+        clearTimeout(timer);
+        this.cancelWait = undefined;
+        reject(new AbortError(`The write to '${write.path}' was cancelled`));
+      };
+    });
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Wait for a given amount of time.
+ *
+ * @param milliseconds How long to wait for, in milliseconds.
+ *
+ * @returns A promise that resolves once the time has passed.
+ */
+export async function sleep(milliseconds: number): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, milliseconds));
+}
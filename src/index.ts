@@ -3,6 +3,25 @@
 // Client
 export type { ClientOptions } from "./client";
 export { Client } from "./client";
+export type { ClientPoolOptions } from "./client-pool";
+export { ClientPool } from "./client-pool";
+
+// Errors
+export type { RedditErrorDetails } from "./errors";
+export {
+  AbortError,
+  AuthError,
+  ForbiddenError,
+  InvalidKindError,
+  MissingScopeError,
+  NotFoundError,
+  RateLimitedError,
+  RedditApiError,
+  SnootsError,
+  TimeoutError,
+  UnexpectedResponseError,
+  UnmatchedRequestError,
+} from "./errors";
 
 // Other types
 export * from "./gateway";
@@ -0,0 +1,108 @@
+import { Client } from "../../../client";
+import { SnootsError } from "../../../errors";
+import {
+  FakeTransport,
+  reply,
+} from "../../../gateway/__tests__/fake-transport";
+import { FakeReddit } from "../../../gateway/fake/reddit";
+import { Comment } from "../../comment/object";
+import { Post } from "../../post/object";
+import { Subreddit } from "../../subreddit/object";
+
+let reddit: FakeReddit;
+let client: Client;
+
+beforeEach(() => {
+  reddit = new FakeReddit();
+  reddit.addUser("someone");
+  reddit.addSubreddit("test");
+  reddit.addSubreddit("other");
+  client = new Client({ userAgent: "fake" }, reddit.gateway("someone"));
+});
+
+describe("PostControls.fetchMany()", () => {
+  it("should keep the order of the ids and report the missing ones", async () => {
+    const first = reddit.addPost("test", "someone", { title: "First" });
+    const second = reddit.addPost("test", "someone", { title: "Second" });
+
+    const { items, missing } = await client.posts.fetchMany([
+      second.id as string,
+      "gone",
+      first.name as string,
+    ]);
+
+    expect(items.map(post => post.title)).toStrictEqual(["Second", "First"]);
+    expect(items[0]).toBeInstanceOf(Post);
+    expect(missing).toStrictEqual(["gone"]);
+  });
+});
+
+describe("CommentControls.fetchMany()", () => {
+  it("should fetch comments", async () => {
+    const post = reddit.addPost("test", "someone", { title: "Post" });
+    const comment = reddit.addComment(post.name as string, "someone", "Hi");
+
+    const { items, missing } = await client.comments.fetchMany([
+      comment.id as string,
+      comment.id as string,
+    ]);
+
+    expect(items.map(item => item.body)).toStrictEqual(["Hi", "Hi"]);
+    expect(items[0]).toBeInstanceOf(Comment);
+    expect(missing).toStrictEqual([]);
+  });
+});
+
+describe("SubredditControls.fetchMany()", () => {
+  it("should fetch subreddits by name", async () => {
+    const { items, missing } = await client.subreddits.fetchMany([
+      "Other",
+      "nope",
+      "test",
+    ]);
+
+    expect(items.map(item => item.displayName)).toStrictEqual([
+      "other",
+      "test",
+    ]);
+    expect(items[0]).toBeInstanceOf(Subreddit);
+    expect(missing).toStrictEqual(["nope"]);
+  });
+});
+
+describe("Client.fetchMany()", () => {
+  it("should fetch items of different types", async () => {
+    const post = reddit.addPost("test", "someone", { title: "Post" });
+    const comment = reddit.addComment(post.name as string, "someone", "Hi");
+
+    const { items } = await client.fetchMany([
+      comment.name as string,
+      post.name as string,
+    ]);
+
+    expect(items[0]).toBeInstanceOf(Comment);
+    expect(items[1]).toBeInstanceOf(Post);
+  });
+
+  it("should reject things that api/info can't look up", async () => {
+    await expect(client.fetchMany(["t2_abc"])).rejects.toBeInstanceOf(
+      SnootsError
+    );
+  });
+
+  it("should ask for at most 100 items per request", async () => {
+    const transport = new FakeTransport();
+    transport.fallback = reply({ kind: "Listing", data: { children: [] } });
+    const anonymous = new Client({ userAgent: "fake", transport });
+    const fullnames = Array.from({ length: 250 }, (_, index) => `t3_${index}`);
+
+    const { items, missing } = await anonymous.fetchMany(fullnames);
+
+    const ids = transport.requests.map(
+      request => new URL(request.url).searchParams.get("id")?.split(",").length
+    );
+    expect(ids).toStrictEqual([100, 100, 50]);
+    expect(items).toStrictEqual([]);
+    expect(missing).toStrictEqual(fullnames);
+  });
+});
@@ -0,0 +1,397 @@
+import type {
+  Fetcher,
+  ListingContext,
+  ListingCursor,
+} from "../../listing/listing";
+import type { Post } from "../../post/object";
+
+import { Client } from "../../../client";
+import { SnootsError } from "../../../errors";
+import {
+  FakeTransport,
+  reply,
+} from "../../../gateway/__tests__/fake-transport";
+import { FakeReddit } from "../../../gateway/fake/reddit";
+import { Background } from "../../../gateway/scheduler";
+import { CommentListing } from "../../comment/listing/listing";
+import { Listing } from "../../listing/listing";
+import { fakeMoreListing } from "../../listing/util";
+
+const context: ListingContext = { client: {} as Client };
+let fetches: number;
+
+// Make a listing that fetches each page after the first one on demand.
+function pagedListing<T>(...pages: T[][]): Listing<T> {
+  const [first, ...rest] = pages;
+  const fetcher: Fetcher<T> = {
+    fetch: async () => {
+      fetches++;
+      return pagedListing(...(rest.length > 0 ? rest : [[]]));
+    },
+    position: () => ({ after: "next" }),
+  };
+  return new Listing(context, first, rest.length > 0 ? fetcher : undefined);
+}
+
+function listing(): Listing<number> {
+  return pagedListing([1, 2, 3], [4, 5, 6], [7, 8]);
+}
+
+beforeEach(() => {
+  fetches = 0;
+});
+
+describe("Listing combinators", () => {
+  it("should map and filter across pages", async () => {
+    const result = await listing()
+      .filter(n => n % 2 === 0)
+      .map(async n => `#${n}`)
+      .toArray();
+
+    expect(result).toStrictEqual(["#2", "#4", "#6", "#8"]);
+  });
+
+  it("should only fetch the pages that are needed", async () => {
+    const taken = listing().take(4);
+    expect(fetches).toBe(0);
+
+    await expect(taken.toArray()).resolves.toStrictEqual([1, 2, 3, 4]);
+    expect(fetches).toBe(1);
+  });
+
+  it("should take items while they match", async () => {
+    const result = await listing()
+      .takeWhile(n => n < 3)
+      .toArray();
+
+    expect(result).toStrictEqual([1, 2]);
+    expect(fetches).toBe(0);
+  });
+
+  it("should skip items", async () => {
+    await expect(listing().skip(5).toArray()).resolves.toStrictEqual([6, 7, 8]);
+  });
+
+  it("should group items into chunks of the same size", async () => {
+    await expect(listing().chunk(3).toArray()).resolves.toStrictEqual([
+      [1, 2, 3],
+      [4, 5, 6],
+      [7, 8],
+    ]);
+    expect(() => listing().chunk(0)).toThrow(SnootsError);
+  });
+
+  it("should find items", async () => {
+    await expect(listing().find(n => n > 4)).resolves.toBe(5);
+    await expect(listing().find(n => n > 10)).resolves.toBeUndefined();
+  });
+
+  it("should check every item", async () => {
+    await expect(listing().every(n => n > 0)).resolves.toBe(true);
+    await expect(listing().every(n => n < 2)).resolves.toBe(false);
+    expect(fetches).toBe(2);
+  });
+
+  it("should reduce items", async () => {
+    await expect(listing().reduce((sum, n) => sum + n, 0)).resolves.toBe(36);
+  });
+
+  it("should refuse to collect more than the maximum", async () => {
+    await expect(listing().toArray(5)).rejects.toBeInstanceOf(SnootsError);
+    await expect(listing().toArray(8)).resolves.toHaveLength(8);
+  });
+
+  it("should be iterable more than once", async () => {
+    const doubled = listing().map(n => n * 2);
+
+    const first: number[] = [];
+    for await (const n of doubled) first.push(n);
+
+    await expect(doubled.toArray()).resolves.toStrictEqual(first);
+  });
+});
+
+describe("Listing cursors", () => {
+  it("should resume a listing after the last page that was handled", async () => {
+    const reddit = new FakeReddit();
+    reddit.addUser("someone");
+    reddit.addSubreddit("test");
+    for (let index = 0; index < 120; index++) {
+      reddit.addPost("test", "someone", { title: `${index}` });
+    }
+    const client = new Client({ userAgent: "fake" }, reddit.gateway());
+    const seen: string[] = [];
+    let saved = "";
+
+    await client.subreddits.getNewPosts("test").eachPage((posts, cursor) => {
+      seen.push(...posts.map(post => post.title));
+      saved = JSON.stringify(cursor);
+      return posts.length === 0;
+    });
+    const cursor = JSON.parse(saved) as ListingCursor;
+    const resumed = client.resumeListing<Post>(cursor);
+    for await (const post of resumed) seen.push(post.title);
+
+    expect(cursor.type).toBe("posts");
+    expect(seen).toHaveLength(120);
+    expect(new Set(seen).size).toBe(120);
+  });
+
+  it("should keep the options of the listing", async () => {
+    const reddit = new FakeReddit();
+    reddit.addUser("someone");
+    reddit.addSubreddit("test");
+    for (let index = 0; index < 30; index++) {
+      reddit.addPost("test", "someone", { title: `${index}` });
+    }
+    const client = new Client({ userAgent: "fake" }, reddit.gateway());
+    let saved = "";
+
+    await client.subreddits
+      .getNewPosts("test", { limit: 10, count: 0, maxItems: 25, prefetch: 1 })
+      .eachPage((posts, cursor) => {
+        saved = JSON.stringify(cursor);
+        return posts.length === 0;
+      });
+    const cursor = JSON.parse(saved) as ListingCursor;
+    const get = jest.spyOn(client.gateway, "get");
+    const resumed = await client.resumeListing<Post>(cursor).toArray();
+
+    expect(cursor).toMatchObject({
+      request: { query: { count: 10 } },
+      maxItems: 15,
+      prefetch: 1,
+    });
+    expect(resumed).toHaveLength(15);
+    expect(get.mock.calls[0][1]).toMatchObject({ count: 10 });
+  });
+
+  it("should keep the state of comments that haven't been loaded", () => {
+    const client = new Client({ userAgent: "fake" });
+    const listing = new CommentListing(fakeMoreListing("t1_abc"), {
+      client,
+      post: "xyz",
+    });
+
+    const cursor = listing.cursor();
+    const resumed = client.resumeListing(
+      JSON.parse(JSON.stringify(cursor)) as ListingCursor
+    );
+
+    expect(cursor).toMatchObject({ type: "comments", post: "xyz" });
+    expect(resumed).toBeInstanceOf(CommentListing);
+    expect(resumed.cursor()).toStrictEqual(cursor);
+  });
+
+  it("should not resume listings of unknown types", () => {
+    const client = new Client({ userAgent: "fake" });
+    const cursor = { type: "nope" } as unknown as ListingCursor;
+
+    expect(() => client.resumeListing(cursor)).toThrow(SnootsError);
+    expect(() => pagedListing([1]).cursor()).toThrow(SnootsError);
+  });
+});
+
+describe("Listing.since()", () => {
+  let client: Client;
+  let names: string[];
+
+  beforeEach(() => {
+    const reddit = new FakeReddit();
+    reddit.addUser("someone");
+    reddit.addSubreddit("test");
+    names = [];
+    for (let index = 0; index < 150; index++) {
+      const post = reddit.addPost("test", "someone", { title: `${index}` });
+      names.push(post.name as string);
+    }
+    client = new Client({ userAgent: "fake" }, reddit.gateway());
+  });
+
+  it("should only give the newer items, oldest first", async () => {
+    const posts = client.subreddits.getNewPosts("test").since(names[20]);
+    const titles = await posts.map(post => Number(post.title)).toArray();
+
+    expect(titles).toStrictEqual(
+      Array.from({ length: 129 }, (_, index) => index + 21)
+    );
+  });
+
+  it("should resume from the cursor of a page", async () => {
+    const seen: string[] = [];
+    let saved = "";
+
+    await client.subreddits
+      .getNewPosts("test")
+      .since(names[0])
+      .eachPage((posts, cursor) => {
+        seen.push(...posts.map(post => post.title));
+        saved = JSON.stringify(cursor);
+        return posts.length === 0;
+      });
+    const cursor = JSON.parse(saved) as ListingCursor;
+    const resumed = client.resumeListing<Post>(cursor);
+    for await (const post of resumed) seen.push(post.title);
+
+    expect(cursor.position).toStrictEqual({ before: names[100] });
+    expect(seen).toHaveLength(149);
+    // Node 14 doesn't have Array.prototype.at.
+    // eslint-disable-next-line unicorn/prefer-at
+    expect(seen[seen.length - 1]).toBe("149");
+  });
+
+  it("should be empty if the item isn't in the listing", async () => {
+    const posts = client.subreddits.getNewPosts("test").since("t3_gone");
+
+    await expect(posts.toArray()).resolves.toStrictEqual([]);
+  });
+
+  it("should not page listings without a request", () => {
+    expect(() => pagedListing([1]).since("t3_abc")).toThrow(SnootsError);
+  });
+});
+
+describe("ListingOptions", () => {
+  it("should send the options with every page", async () => {
+    const transport = new FakeTransport();
+    transport.fallback = reply({ kind: "Listing", data: { children: [] } });
+    const client = new Client({ userAgent: "fake", transport });
+
+    await client.subreddits
+      .getTopPosts("test", "week", {
+        limit: 10,
+        count: 5,
+        show: "all",
+        srDetail: true,
+        time: "day",
+      })
+      .first();
+
+    const [request] = transport.requests;
+    const query = new URL(request.url).searchParams;
+    expect(Object.fromEntries(query)).toMatchObject({
+      limit: "10",
+      count: "5",
+      show: "all",
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      sr_detail: "true",
+      t: "week",
+    });
+  });
+
+  it("should only filter by the time of the options if none is given", async () => {
+    const client = new Client({ userAgent: "fake" });
+    const get = jest
+      .spyOn(client.gateway, "get")
+      .mockResolvedValue({ kind: "Listing", data: { children: [] } });
+
+    await client.subreddits
+      .getTopPosts("test", undefined, { time: "day" })
+      .first();
+    await client.subreddits.getControversialPosts("test").first();
+    await client.posts
+      .search("query", "test", undefined, "new", "plain", true, {
+        time: "year",
+      })
+      .first();
+
+    expect(get.mock.calls.map(c => c[1]?.t)).toStrictEqual([
+      "day",
+      "all",
+      "year",
+    ]);
+  });
+
+  it("should count the items of the pages before", async () => {
+    const reddit = new FakeReddit();
+    reddit.addUser("someone");
+    reddit.addSubreddit("test");
+    for (let index = 0; index < 25; index++) {
+      reddit.addPost("test", "someone", { title: `${index}` });
+    }
+    const client = new Client({ userAgent: "fake" }, reddit.gateway());
+    const get = jest.spyOn(client.gateway, "get");
+
+    await client.subreddits
+      .getNewPosts("test", { limit: 10, count: 5 })
+      .toArray();
+
+    expect(get.mock.calls.map(c => c[1]?.count)).toStrictEqual([5, 15, 25]);
+  });
+
+  it("should stop fetching once it has the most items", async () => {
+    const reddit = new FakeReddit();
+    reddit.addUser("someone");
+    reddit.addSubreddit("test");
+    for (let index = 0; index < 30; index++) {
+      reddit.addPost("test", "someone", { title: `${index}` });
+    }
+    const client = new Client({ userAgent: "fake" }, reddit.gateway());
+    const get = jest.spyOn(client.gateway, "get");
+    const sizes: number[] = [];
+
+    await client.subreddits
+      .getNewPosts("test", { limit: 10, maxItems: 15 })
+      .eachPage(posts => {
+        sizes.push(posts.length);
+      });
+
+    expect(sizes).toStrictEqual([0, 10, 5]);
+    expect(get).toHaveBeenCalledTimes(2);
+    expect(get.mock.calls.map(c => c[1]?.limit)).toStrictEqual([10, 5]);
+  });
+
+  it("should prefetch pages ahead of the one in use", async () => {
+    const reddit = new FakeReddit();
+    reddit.addUser("someone");
+    reddit.addSubreddit("test");
+    for (let index = 0; index < 30; index++) {
+      reddit.addPost("test", "someone", { title: `${index}` });
+    }
+    const client = new Client({ userAgent: "fake" }, reddit.gateway());
+    const get = jest.spyOn(client.gateway, "get");
+    const posts = client.subreddits.getNewPosts("test", {
+      limit: 10,
+      prefetch: 2,
+    });
+
+    const iterator = posts[Symbol.asyncIterator]();
+    await iterator.next();
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(get).toHaveBeenCalledTimes(3);
+    expect(get.mock.calls[1][2]).toMatchObject({
+      background: expect.any(Background) as Background,
+    });
+
+    let count = 0;
+    let result = await iterator.next();
+    while (!result.done) {
+      count++;
+      result = await iterator.next();
+    }
+    expect(count).toBe(29);
+    expect(get).toHaveBeenCalledTimes(3);
+  });
+
+  it("should promote a prefetched page once it's needed", async () => {
+    const reddit = new FakeReddit();
+    reddit.addUser("someone");
+    reddit.addSubreddit("test");
+    for (let index = 0; index < 20; index++) {
+      reddit.addPost("test", "someone", { title: `${index}` });
+    }
+    const client = new Client({ userAgent: "fake" }, reddit.gateway());
+    const get = jest.spyOn(client.gateway, "get");
+    const posts = client.subreddits.getNewPosts("test", {
+      limit: 10,
+      prefetch: 1,
+    });
+
+    // Ask for the second page before its prefetch had a chance to finish.
+    await posts.toArray();
+
+    const { background } = get.mock.calls[1][2] ?? {};
+    expect(background?.promoted).toBe(true);
+  });
+});
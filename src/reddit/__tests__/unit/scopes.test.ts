@@ -0,0 +1,122 @@
+import type { ScopedFeature } from "../../scopes";
+
+import { Client } from "../../../client";
+import { MissingScopeError } from "../../../errors";
+import {
+  FakeTransport,
+  reply,
+} from "../../../gateway/__tests__/fake-transport";
+import { MemoryTokenStore } from "../../../gateway/token-store";
+
+// Methods that don't make requests of their own, or that aren't public.
+const ignored = new Set([
+  "constructor",
+  "namespace",
+  "gateway",
+  "fromRaw",
+  "fromSplitRaw",
+  "replyImpl",
+  "inboxReplies",
+  "vote",
+  "convertRepliesToListing",
+  "setStickied",
+  "getSortedPosts",
+  "getSubreddits",
+  "getAboutListing",
+  "getAboutListingComments",
+  "getAboutListingPosts",
+  "post",
+  "friend",
+  "unfriend",
+  "getMySubreddits",
+]);
+
+function methodsOf(controls: object): string[] {
+  const methods = new Set<string>();
+  let prototype: unknown = Object.getPrototypeOf(controls);
+  while (prototype && prototype !== Object.prototype) {
+    for (const name of Object.getOwnPropertyNames(prototype)) {
+      if (!ignored.has(name)) methods.add(name);
+    }
+    prototype = Object.getPrototypeOf(prototype);
+  }
+  return [...methods].sort();
+}
+
+const controls = ["comments", "me", "posts", "subreddits", "users"] as const;
+
+describe("Scope declarations", () => {
+  const client = new Client({ userAgent: "fake-user-agent" });
+
+  it.each(controls)(
+    "should declare the scopes of every method of client.%s",
+    name => {
+      for (const method of methodsOf(client[name])) {
+        const feature = `${name}.${method}` as ScopedFeature;
+        expect(() => Client.requiredScopes(feature)).not.toThrow();
+      }
+    }
+  );
+});
+
+describe("Client.requiredScopes()", () => {
+  it("should combine the scopes of every feature", () => {
+    const scopes = Client.requiredScopes(
+      "subreddits.getModqueue",
+      "posts.approve",
+      "comments.approve",
+      "subreddits.banUser"
+    );
+
+    expect(scopes).toStrictEqual(["modcontributors", "modposts", "read"]);
+  });
+
+  it("should need no scopes for features that don't need any", () => {
+    expect(Client.requiredScopes("users.isUsernameAvailable")).toStrictEqual(
+      []
+    );
+  });
+});
+
+describe("Client with strict scopes", () => {
+  let transport: FakeTransport;
+  let client: Client;
+
+  beforeEach(() => {
+    transport = new FakeTransport();
+    transport.fallback = reply({ kind: "Listing", data: { children: [] } });
+    client = new Client({
+      userAgent: "fake-user-agent",
+      creds: { clientId: "cId", clientSecret: "cSecret" },
+      transport,
+      tokenStore: new MemoryTokenStore({
+        access: "accessTkn",
+        expiration: Date.now() + 60_000,
+        scopes: ["read"],
+      }),
+      strictScopes: true,
+    });
+  });
+
+  it("should check the scopes declared by a method", async () => {
+    await expect(client.subreddits.banUser("foo", "bar")).rejects.toStrictEqual(
+      new MissingScopeError(["modcontributors"], "r/foo/api/friend")
+    );
+    await expect(
+      client.subreddits.wikibanUser("foo", "bar")
+    ).rejects.toStrictEqual(
+      new MissingScopeError(["modwiki"], "r/foo/api/friend")
+    );
+    expect(transport.requests).toHaveLength(0);
+  });
+
+  it("should check the pages of a listing against its method", async () => {
+    const listing = client.me.getModeratedSubreddits();
+
+    await expect(listing.toArray()).rejects.toStrictEqual(
+      new MissingScopeError(["mysubreddits"], "subreddits/mine/moderator")
+    );
+    await client.subreddits.getNewPosts("foo").toArray();
+    expect(transport.requests).toHaveLength(1);
+  });
+});
@@ -1,11 +1,16 @@
 import type { Client } from "../../client";
+import type { RequestOptions } from "../../gateway/abort";
+import type { FetchManyResult } from "../info";
 import type { RedditObjectListing } from "../listing/listing";
 import type { RedditObject } from "../types";
 import type { CommentData } from "./object";
 
+import { NotFoundError, UnexpectedResponseError } from "../../errors";
 import { makeDebug } from "../../helper/debug";
+import { collectInfo, fetchInfo } from "../info";
 import { fakeMoreListing } from "../listing/util";
 import { LockableControls } from "../lockable/controls";
+import { scopes } from "../scopes";
 import { assertKind, fromRedditData } from "../util";
 import { CommentListing } from "./listing/listing";
 import { Comment } from "./object";
@@ -36,43 +41,83 @@ export class CommentControls extends LockableControls {
    * Fetch a comment.
    *
    * @param id The id of the comment to fetch.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves to the request comment.
    *
    * @throws If the comment couldn't be found.
    */
-  async fetch(id: string): Promise<Comment> {
+  @scopes("read")
+  async fetch(id: string, options: RequestOptions = {}): Promise<Comment> {
     const listingObject: RedditObject<RedditObjectListing> =
-      await this.gateway.get("api/info", {
-        id: this.namespace(id),
-      });
+      await this.gateway.get(
+        "api/info",
+        {
+          id: this.namespace(id),
+        },
+        options
+      );
 
     assertKind("Listing", listingObject);
 
     const list = listingObject.data;
     if (list.children.length === 0) {
-      // TODO: Use a custom error type.
-      throw "Not found";
+      throw new NotFoundError({
+        code: "NOT_FOUND",
+        description: `Comment '${id}' was not found`,
+      });
     }
 
     const raw = list.children[0];
     return this.fromRaw(raw);
   }
 
+  /**
+   * Fetch many comments at once.
+   *
+   * This asks for up to 100 comments per request, which is much faster than
+   * calling {@link fetch} for each of them.
+   *
+   * @param ids The ids of the comments to fetch.
+   * @param options The options to cancel the request with.
+   *
+   * @returns A promise that resolves to the comments that were found (in the
+   * same order as `ids`), and the ids of the ones that weren't.
+   */
+  @scopes("read")
+  async fetchMany(
+    ids: string[],
+    options: RequestOptions = {}
+  ): Promise<FetchManyResult<Comment>> {
+    const fullnames = ids.map(id => this.namespace(id));
+    const found = await fetchInfo(this.gateway, "id", fullnames, options);
+    return collectInfo(
+      ids,
+      id => found.get(this.namespace(id).toLowerCase()),
+      raw => this.fromRaw(raw)
+    );
+  }
+
   /**
    * Distinguish a comment.
    *
    * @param id The ID of the comment to distinguish.
    * @param state How the comment should be distinguished.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the comment has been distinguished.
    */
-  async distinguish(id: string, state: DistinguishStates): Promise<void> {
+  @scopes("modposts")
+  async distinguish(
+    id: string,
+    state: DistinguishStates,
+    options: RequestOptions = {}
+  ): Promise<void> {
     const how = state === "none" ? "no" : "yes";
     const sticky = state === "sticky";
 
     const body = { how, sticky, id: this.namespace(id) };
-    await this.gateway.post("api/distinguish", body);
+    await this.gateway.post("api/distinguish", body, {}, options);
   }
 
   /** @internal */
@@ -107,7 +152,7 @@ export class CommentControls extends LockableControls {
       );
     } else {
       debug("Replies are of unsupported type; %O", replies);
-      throw "Unsupported reply type!";
+      throw new UnexpectedResponseError("Unsupported reply type");
     }
   }
 }
@@ -2,13 +2,15 @@ import type { Maybe } from "../../../helper/types";
 import type {
   Fetcher,
   ListingContext,
+  ListingType,
   RedditMore,
   RedditObjectListing,
 } from "../../listing/listing";
 import type { Comment } from "../object";
 
+import { InvalidKindError } from "../../../errors";
 import { makeDebug } from "../../../helper/debug";
-import { Listing } from "../../listing/listing";
+import { continueFrom, Listing } from "../../listing/listing";
 import { MoreComments } from "./more";
 import { CommentPager } from "./pager";
 import { PostComments } from "./post";
@@ -16,23 +18,25 @@ import { PostComments } from "./post";
 const debug = makeDebug("listing:comment");
 
 function makeFetcher(
-  after: RedditObjectListing["after"],
+  from: Maybe<string>,
   context: ListingContext
 ): Maybe<Fetcher<Comment>> {
-  if (after == undefined) return undefined;
+  if (from == undefined) return undefined;
 
-  if (after === "" && context.post) {
+  if (from === "" && context.post) {
     // HACK: Some posts, notably the ones returned by search, don't have their
     // own comments listing. To ensure we can still get comments for those posts
     // we use a custom fetcher that just jump-starts the fetching process.
     return new PostComments();
   }
 
-  return new CommentPager(after);
+  return new CommentPager(from, context.backward);
 }
 
 /** @internal */
 export class CommentListing extends Listing<Comment> {
+  protected override type: ListingType = "comments";
+
   constructor(l: RedditObjectListing, context: ListingContext) {
     let fetcher: Maybe<Fetcher<Comment>>;
 
@@ -47,11 +51,11 @@ export class CommentListing extends Listing<Comment> {
           break;
         default:
           debug("Invalid child %O", c);
-          throw "Invalid item!";
+          throw new InvalidKindError("t1 or more", c.kind);
       }
     }
 
-    fetcher ??= makeFetcher(l.after, context);
+    fetcher ??= makeFetcher(continueFrom(l, context), context);
 
     super(context, comments, fetcher);
   }
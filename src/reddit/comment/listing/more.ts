@@ -1,13 +1,16 @@
+import type { RequestOptions } from "../../../gateway/abort";
 import type { Data } from "../../../helper/types";
 import type {
   Fetcher,
   ListingContext,
+  ListingPosition,
   RedditMore,
   RedditObjectListing,
 } from "../../listing/listing";
 import type { RedditObject } from "../../types";
 import type { Comment } from "../object";
 
+import { SnootsError, UnexpectedResponseError } from "../../../errors";
 import { emptyRedditListing } from "../../listing/util";
 import { CommentListing } from "./listing";
 
@@ -15,12 +18,16 @@ function fixCommentTree(objects: RedditObject[]) {
   // Map the items by their name.
   const map: Record<string, RedditObject> = {};
   for (const item of objects) {
-    if (!item.data.name) throw "Hmm...";
+    if (!item.data.name) {
+      throw new UnexpectedResponseError("Comment tree item is missing a name");
+    }
     map[item.data.name as string] = item;
 
     // Ensure that all the comments have a replies listing.
     if (item.kind === "t1") {
-      if (item.data.replies !== "") throw "?????";
+      if (item.data.replies !== "") {
+        throw new UnexpectedResponseError("Comment tree item has replies");
+      }
       item.data.replies = { kind: "Listing", data: { children: [] } };
     }
   }
@@ -49,19 +56,24 @@ export class MoreComments implements Fetcher<Comment> {
     this.data = data;
   }
 
-  async fetch(context: ListingContext): Promise<CommentListing> {
+  position(): ListingPosition {
+    return { more: this.data };
+  }
+
+  async fetch(
+    context: ListingContext,
+    options: RequestOptions = {}
+  ): Promise<CommentListing> {
     if (!context.post) {
       // This should never happen, but just in case...
-      throw new Error("Precondition failed: context.post is falsy");
+      throw new SnootsError("Precondition failed: context.post is falsy");
     }
 
     if (this.data.name === "t1__") {
       const id = this.data.parent_id.slice(3);
       const pth = `comments/${context.post}`;
       const childrenResponse: [unknown, RedditObject<RedditObjectListing>] =
-        await context.client.gateway.get(pth, {
-          comment: id,
-        });
+        await context.client.gateway.get(pth, { comment: id }, options);
 
       const child = childrenResponse[1].data.children[0];
       if (!child) return new CommentListing(emptyRedditListing(), context);
@@ -79,7 +91,8 @@ export class MoreComments implements Fetcher<Comment> {
       const query = { children: page.join(","), link_id: `t3_${context.post}` };
       const childrenResponse: Data = await context.client.gateway.get(
         "api/morechildren",
-        query
+        query,
+        options
       );
 
       const rawChildren = childrenResponse.things as RedditObject[];
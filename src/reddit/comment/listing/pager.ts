@@ -1,3 +1,4 @@
+import type { RequestOptions } from "../../../gateway/abort";
 import type { ListingContext } from "../../listing/listing";
 import type { Comment } from "../object";
 
@@ -5,8 +6,12 @@ import { Pager } from "../../listing/listing";
 import { CommentListing } from "./listing";
 
 export class CommentPager extends Pager<Comment> {
-  async fetch(context: ListingContext): Promise<CommentListing> {
-    const pg = await this.nextPage(context);
+  async fetch(
+    context: ListingContext,
+    options: RequestOptions = {},
+    seen = 0
+  ): Promise<CommentListing> {
+    const pg = await this.nextPage(context, options, seen);
     return new CommentListing(pg, context);
   }
 }
@@ -1,25 +1,36 @@
+import type { RequestOptions } from "../../../gateway/abort";
 import type {
   Fetcher,
   ListingContext,
+  ListingPosition,
   RedditObjectListing,
 } from "../../listing/listing";
 import type { RedditObject } from "../../types";
 import type { Comment } from "../object";
 
+import { SnootsError } from "../../../errors";
 import { emptyRedditListing } from "../../listing/util";
 import { CommentListing } from "./listing";
 
 /** @internal */
 export class PostComments implements Fetcher<Comment> {
-  async fetch(context: ListingContext): Promise<CommentListing> {
+  position(): ListingPosition {
+    // Comment listings of posts that start out empty use this fetcher.
+    return { after: "" };
+  }
+
+  async fetch(
+    context: ListingContext,
+    options: RequestOptions = {}
+  ): Promise<CommentListing> {
     if (!context.post) {
       // This should never happen, but just in case...
-      throw new Error("Precondition failed: context.post is falsy");
+      throw new SnootsError("Precondition failed: context.post is falsy");
     }
 
     const pth = `comments/${context.post}`;
     const childrenResponse: [unknown, RedditObject<RedditObjectListing>] =
-      await context.client.gateway.get(pth, { comment: context.post });
+      await context.client.gateway.get(pth, { comment: context.post }, options);
 
     return new CommentListing(
       childrenResponse[1].data ?? emptyRedditListing(),
@@ -7,7 +7,15 @@ export type { CommentData } from "./comment/object";
 export { Comment } from "./comment/object";
 export type { ContentData } from "./content";
 export { Content } from "./content";
+export type { FetchManyResult } from "./info";
+export { LazyListing } from "./listing/lazy";
+export type {
+  ListingCursor,
+  ListingPosition,
+  ListingType,
+} from "./listing/listing";
 export { Listing } from "./listing/listing";
+export type { ListingOptions } from "./listing/options";
 export { LockableControls } from "./lockable/controls";
 export type { LockableData } from "./lockable/object";
 export { Lockable } from "./lockable/object";
@@ -17,6 +25,7 @@ export { Post } from "./post/object";
 export type { PostSort } from "./post/types";
 export { ReplyableControls } from "./replyable/controls";
 export { Replyable } from "./replyable/object";
+export type { ScopedFeature } from "./scopes";
 export type {
   BanOptions,
   Captcha,
@@ -0,0 +1,103 @@
+import type { RequestOptions } from "../gateway/abort";
+import type { Gateway } from "../gateway/gateway";
+import type { Maybe } from "../helper/types";
+import type { RedditObjectListing } from "./listing/listing";
+import type { RedditObject } from "./types";
+
+import { assertKind } from "./util";
+
+/**
+ * The result of fetching many items at once.
+ *
+ * @template T The type of items that were fetched.
+ */
+export interface FetchManyResult<T> {
+  /** The items that were found, in the order they were asked for. */
+  items: T[];
+
+  /**
+   * The IDs (or names) that Reddit didn't return anything for, in the order
+   * they were asked for. These were either deleted, banned, or never existed.
+   */
+  missing: string[];
+}
+
+/** How many items `api/info` returns at most. */
+const batchSize = 100;
+
+/**
+ * Look up things in batches through `api/info`.
+ *
+ * @internal
+ *
+ * @param gateway The gateway to send the requests through.
+ * @param parameter The query parameter to look things up by, either `id` for
+ * fullnames or `sr_name` for subreddit names.
+ * @param keys The fullnames or subreddit names to look up.
+ * @param options The options to cancel the requests with.
+ *
+ * @returns The things that were found, by their lowercased fullname or
+ * subreddit name.
+ */
+export async function fetchInfo(
+  gateway: Gateway,
+  parameter: "id" | "sr_name",
+  keys: string[],
+  options: RequestOptions = {}
+): Promise<Map<string, RedditObject>> {
+  const unique = [...new Set(keys.map(key => key.toLowerCase()))];
+  const found = new Map<string, RedditObject>();
+
+  for (let index = 0; index < unique.length; index += batchSize) {
+    const batch = unique.slice(index, index + batchSize);
+    const listing: RedditObject<RedditObjectListing> = await gateway.get(
+      "api/info",
+      { [parameter]: batch.join(",") },
+      options
+    );
+    assertKind("Listing", listing);
+
+    for (const child of listing.data.children) {
+      const { data } = child;
+      const key = (
+        parameter === "id" ? data.name : data.display_name
+      ) as string;
+      found.set(key.toLowerCase(), child);
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Put the things found by {@link fetchInfo} back in the requested order.
+ *
+ * @internal
+ *
+ * @param requested The IDs or names as they were given by the user.
+ * @param lookup Get the thing for one of the requested IDs, if it was found.
+ * @param convert Convert a found thing to a snoots object.
+ *
+ * @returns The converted items and the missing IDs.
+ */
+export function collectInfo<T>(
+  requested: string[],
+  lookup: (id: string) => Maybe<RedditObject>,
+  convert: (raw: RedditObject) => T
+): FetchManyResult<T> {
+  const result: FetchManyResult<T> = { items: [], missing: [] };
+  // Converting modifies the raw data, so each thing is only converted once
+  // even if it was asked for more than once.
+  const converted = new Map<RedditObject, T>();
+  for (const id of requested) {
+    const raw = lookup(id);
+    if (raw) {
+      const item = converted.get(raw) ?? convert(raw);
+      converted.set(raw, item);
+      result.items.push(item);
+    } else {
+      result.missing.push(id);
+    }
+  }
+  return result;
+}
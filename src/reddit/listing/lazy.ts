@@ -0,0 +1,356 @@
+import type { RequestOptions } from "../../gateway/abort";
+import type { Awaitable, AwaitableFunction, Maybe } from "../../helper/types";
+
+import { SnootsError } from "../../errors";
+
+/** @internal */
+export type ItemSource<T> = (options: RequestOptions) => AsyncIterable<T>;
+
+/**
+ * The default maximum for {@link LazyListing.toArray}.
+ *
+ * Reddit doesn't return more than 1000 items for most listings anyways.
+ */
+const defaultMaxItems = 1000;
+
+/**
+ * A lazily transformed {@link Listing}.
+ *
+ * Every {@link Listing} is one, and its combinators (like {@link map} and
+ * {@link filter}) make new ones, so they can be chained. Nothing is fetched
+ * until the items are used, and only as many pages are fetched as are needed
+ * to produce them.
+ *
+ * @example Getting the titles of the first 10 image posts
+ * ```ts
+ * const titles = await client.subreddits
+ *   .getNewPosts("pics")
+ *   .filter(post => post.url.endsWith(".jpg"))
+ *   .map(post => post.title)
+ *   .take(10)
+ *   .toArray();
+ * ```
+ *
+ * @template T The type of items this listing holds.
+ */
+export class LazyListing<T> implements AsyncIterable<T> {
+  protected source: ItemSource<T>;
+
+  /** @internal */
+  constructor(source: ItemSource<T>) {
+    this.source = source;
+  }
+
+  /**
+   * Transform every item of this listing.
+   *
+   * @template U The type of the transformed items.
+   * @param mapper The function to transform each item with.
+   *
+   * @returns A listing of the transformed items.
+   */
+  map<U>(mapper: AwaitableFunction<T, U>): LazyListing<U> {
+    return this.pipe(async function* (items) {
+      for await (const item of items) yield await mapper(item);
+    });
+  }
+
+  /**
+   * Only keep the items of this listing that match a predicate.
+   *
+   * @param predicate The function to test each item with.
+   *
+   * @returns A listing of the items that matched.
+   */
+  filter<S extends T>(predicate: (item: T) => item is S): LazyListing<S>;
+  /**
+   * Only keep the items of this listing that match a predicate.
+   *
+   * @param predicate The function to test each item with.
+   *
+   * @returns A listing of the items that matched.
+   */
+  filter(predicate: AwaitableFunction<T, boolean>): LazyListing<T>;
+  filter(predicate: AwaitableFunction<T, boolean>): LazyListing<T> {
+    return this.pipe(async function* (items) {
+      for await (const item of items) {
+        if (await predicate(item)) yield item;
+      }
+    });
+  }
+
+  /**
+   * Only keep the first few items of this listing.
+   *
+   * @param count How many items to keep.
+   *
+   * @returns A listing of at most `count` items.
+   */
+  take(count: number): LazyListing<T> {
+    return this.pipe(async function* (items) {
+      if (count <= 0) return;
+      let taken = 0;
+      for await (const item of items) {
+        yield item;
+        if (++taken >= count) return;
+      }
+    });
+  }
+
+  /**
+   * Keep the items of this listing until one doesn't match a predicate.
+   *
+   * @param predicate The function to test each item with.
+   *
+   * @returns A listing of the items before the first one that didn't match.
+   */
+  takeWhile(predicate: AwaitableFunction<T, boolean>): LazyListing<T> {
+    return this.pipe(async function* (items) {
+      for await (const item of items) {
+        if (!(await predicate(item))) return;
+        yield item;
+      }
+    });
+  }
+
+  /**
+   * Leave out the first few items of this listing.
+   *
+   * @note The skipped items still have to be fetched.
+   *
+   * @param count How many items to leave out.
+   *
+   * @returns A listing of the items after the first `count`.
+   */
+  skip(count: number): LazyListing<T> {
+    return this.pipe(async function* (items) {
+      let skipped = 0;
+      for await (const item of items) {
+        if (skipped < count) {
+          skipped++;
+        } else {
+          yield item;
+        }
+      }
+    });
+  }
+
+  /**
+   * Group the items of this listing into arrays.
+   *
+   * @param size How many items to put in each array. The last array may have
+   * fewer.
+   *
+   * @returns A listing of the arrays.
+   *
+   * @throws {SnootsError} If the size isn't a positive integer.
+   */
+  chunk(size: number): LazyListing<T[]> {
+    if (!Number.isInteger(size) || size <= 0) {
+      throw new SnootsError(
+        `Chunk size must be a positive integer, not ${size}`
+      );
+    }
+    return this.pipe(async function* (items) {
+      let chunk: T[] = [];
+      for await (const item of items) {
+        chunk.push(item);
+        if (chunk.length === size) {
+          yield chunk;
+          chunk = [];
+        }
+      }
+      if (chunk.length > 0) yield chunk;
+    });
+  }
+
+  /**
+   * Execute a function on each element of the listing.
+   *
+   * @note This is an enhanced version of the default Array.forEach. It allows
+   * for asynchronous callbacks and breaking.
+   *
+   * @example Async
+   * ```ts
+   * async function slowAsync(post: Post): Promise<void> {
+   *   // do something slow
+   * }
+   *
+   * const posts = await client.subreddits.getNewPosts("funny");
+   * await posts.forEach(post => slowAsync(post));
+   * ```
+   *
+   * @example Breaking
+   * ```ts
+   * const posts = await client.subreddits.getNewPosts("funny");
+   * await posts.forEach(post => {
+   *   console.log(post.title);
+   *   // Break if the post was more than 5 minutes old.
+   *   return post.createdUtc >= (Date.now() / 1000) - 5 * 60;
+   * });
+   * ```
+   *
+   * @param handler The function to execute on each item in the listing. If this
+   * returns or resolves to `false` the execution will be halted.
+   * @param options The options to cancel the requests with.
+   *
+   * @returns A promise that resolves when the iteration is complete.
+   */
+  async forEach(
+    handler: AwaitableFunction<T, boolean | void>,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    for await (const item of this.iterate(options)) {
+      const result = await handler(item);
+      if (result === false) break;
+    }
+  }
+
+  /**
+   * Find the first item of this listing that matches a predicate.
+   *
+   * @param predicate The function to test each item with.
+   * @param options The options to cancel the requests with.
+   *
+   * @returns A promise that resolves to the first matching item, or
+   * `undefined` if there wasn't one.
+   */
+  async find(
+    predicate: AwaitableFunction<T, boolean>,
+    options: RequestOptions = {}
+  ): Promise<Maybe<T>> {
+    for await (const item of this.iterate(options)) {
+      if (await predicate(item)) return item;
+    }
+    return undefined;
+  }
+
+  /**
+   * Determines whether the specified callback function returns true for any
+   * element of the listing.
+   *
+   * @param predicate The function to test each item with.
+   * @param options The options to cancel the requests with.
+   *
+   * @returns A promise that resolves to `true` if some item matched, or `false`
+   * if none did.
+   */
+  async some(
+    predicate: AwaitableFunction<T, boolean>,
+    options: RequestOptions = {}
+  ): Promise<boolean> {
+    for await (const item of this.iterate(options)) {
+      if (await predicate(item)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Determines whether every item of this listing matches a predicate.
+   *
+   * @param predicate The function to test each item with. Iteration stops at
+   * the first item that doesn't match.
+   * @param options The options to cancel the requests with.
+   *
+   * @returns A promise that resolves to `true` if every item matched (or the
+   * listing is empty), or `false` otherwise.
+   */
+  async every(
+    predicate: AwaitableFunction<T, boolean>,
+    options: RequestOptions = {}
+  ): Promise<boolean> {
+    for await (const item of this.iterate(options)) {
+      if (!(await predicate(item))) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Combine all the items of this listing into a single value.
+   *
+   * @template U The type of the combined value.
+   * @param reducer The function to combine the value so far with an item.
+   * @param initial The value to start with.
+   * @param options The options to cancel the requests with.
+   *
+   * @returns A promise that resolves to the combined value.
+   */
+  async reduce<U>(
+    reducer: (accumulator: U, item: T) => Awaitable<U>,
+    initial: U,
+    options: RequestOptions = {}
+  ): Promise<U> {
+    let accumulator = initial;
+    for await (const item of this.iterate(options)) {
+      accumulator = await reducer(accumulator, item);
+    }
+    return accumulator;
+  }
+
+  /**
+   * Get the first item of this listing.
+   *
+   * @param options The options to cancel the request with, if one is needed.
+   *
+   * @returns A promise that resolves to either the first item of the listing,
+   * or `undefined` if the listing is empty.
+   */
+  async first(options: RequestOptions = {}): Promise<Maybe<T>> {
+    for await (const item of this.iterate(options)) {
+      return item;
+    }
+    return undefined;
+  }
+
+  /**
+   * Collect every item of this listing into an array.
+   *
+   * Since some listings are very long, this fails instead of fetching more than
+   * `maxItems` items. Use {@link take} if you only want the first few items.
+   *
+   * @param maxItems The most items to collect. Pass `Infinity` to collect
+   * everything. Defaults to `1000`.
+   * @param options The options to cancel the requests with.
+   *
+   * @returns A promise that resolves to the items.
+   *
+   * @throws {SnootsError} If the listing has more than `maxItems` items.
+   */
+  async toArray(
+    maxItems: number = defaultMaxItems,
+    options: RequestOptions = {}
+  ): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this.iterate(options)) {
+      if (items.length >= maxItems) {
+        throw new SnootsError(
+          `The listing has more than ${maxItems} items, use take() to limit it`
+        );
+      }
+      items.push(item);
+    }
+    return items;
+  }
+
+  /**
+   * Iterate over this listing in a way that can be cancelled.
+   *
+   * @param options The options to cancel the iteration with.
+   *
+   * @returns An async iterable of the items in this listing.
+   */
+  iterate(options: RequestOptions = {}): AsyncIterable<T> {
+    return this.source(options);
+  }
+
+  /** @internal */
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return this.iterate()[Symbol.asyncIterator]();
+  }
+
+  protected pipe<U>(
+    transform: (items: AsyncIterable<T>) => AsyncIterable<U>
+  ): LazyListing<U> {
+    return new LazyListing(options => transform(this.iterate(options)));
+  }
+}
@@ -1,15 +1,30 @@
 import type { Client } from "../../client";
+import type { RequestOptions } from "../../gateway/abort";
+import type { Scope } from "../../gateway/scopes";
 import type { Query } from "../../gateway/types";
-import type { AwaitableFunction, Maybe } from "../../helper/types";
+import type { Awaitable, Maybe } from "../../helper/types";
 import type { RedditObject } from "../types";
 
+import { SnootsError } from "../../errors";
+import { throwIfAborted } from "../../gateway/abort";
+import { Background } from "../../gateway/scheduler";
+import { currentScopes, withScopes } from "../../gateway/scopes";
+import { endpointTemplate } from "../../gateway/telemetry";
+import { makeDebug } from "../../helper/debug";
 import { assertKind } from "../util";
+import { LazyListing } from "./lazy";
+
+const debug = makeDebug("listing");
 
 /** @internal */
 export interface ListingContext {
   client: Client;
   post?: string;
   request?: { url: string; query: Query };
+  backward?: boolean;
+  maxItems?: number;
+  prefetch?: number;
+  scopes?: Scope[];
 }
 
 /** @internal */
@@ -35,35 +50,206 @@ export interface RedditMore {
   children: string[];
 }
 
+/**
+ * The kinds of listings that can be resumed from a {@link ListingCursor}.
+ */
+export type ListingType =
+  | "posts"
+  | "comments"
+  | "subreddits"
+  | "postsOrComments"
+  | "moderatorActionedUsers"
+  | "bannedUsers";
+
+/** Where a fetcher will continue fetching from. */
+export type ListingPosition =
+  | { after: string }
+  | { before: string }
+  | { more: RedditMore };
+
+/**
+ * A serializable position in a listing.
+ *
+ * Cursors are plain objects, so they can be saved with `JSON.stringify` and
+ * turned back into a listing with {@link Client.resumeListing}, even from a
+ * different process.
+ */
+export interface ListingCursor {
+  /** The kind of listing. */
+  type: ListingType;
+
+  /** The request that fetches the pages of the listing. */
+  request?: { url: string; query: Query };
+
+  /** The ID of the post the listing belongs to, for comment listings. */
+  post?: string;
+
+  /** How many more items the listing may give, if it was limited. */
+  maxItems?: number;
+
+  /** How many pages to fetch ahead, if the listing prefetches. */
+  prefetch?: number;
+
+  /**
+   * Where to continue from. If this is left out the listing was finished, and
+   * resuming it gives an empty listing.
+   */
+  position?: ListingPosition;
+}
+
 /** @internal */
 export interface Fetcher<T> {
-  fetch(context: ListingContext): Promise<Listing<T>>;
+  /**
+   * Fetch the next page.
+   *
+   * @param context The context of the listing.
+   * @param options The options to cancel the request with.
+   * @param seen How many items of the listing come before the page.
+   *
+   * @returns The page.
+   */
+  fetch(
+    context: ListingContext,
+    options?: RequestOptions,
+    seen?: number
+  ): Promise<Listing<T>>;
+  position(): ListingPosition;
 }
 
 /** @internal */
 export abstract class Pager<T> implements Fetcher<T> {
-  after: string;
+  from: string;
+  backward: boolean;
 
-  constructor(after: string) {
-    this.after = after;
+  /**
+   * Make a new Pager.
+   *
+   * @param from The fullname to continue from.
+   * @param backward Whether to fetch the items before `from` instead of the
+   * ones after it.
+   */
+  constructor(from: string, backward = false) {
+    this.from = from;
+    this.backward = backward;
   }
 
-  abstract fetch(context: ListingContext): Promise<Listing<T>>;
+  abstract fetch(
+    context: ListingContext,
+    options?: RequestOptions,
+    seen?: number
+  ): Promise<Listing<T>>;
+
+  position(): ListingPosition {
+    return this.backward ? { before: this.from } : { after: this.from };
+  }
 
   protected async nextPage<TPageItems = RedditObject>(
-    context: ListingContext
+    context: ListingContext,
+    options: RequestOptions = {},
+    seen = 0
   ): Promise<RedditListing<TPageItems>> {
-    if (!context.request) throw "Unable to fetch next page";
-    const query = { limit: "100", after: this.after, ...context.request.query };
+    if (!context.request) {
+      throw new SnootsError("Unable to fetch next page: no request to page");
+    }
+    const { url, query: pageQuery } = countedRequest(context.request, seen);
+    const direction = this.backward ? "before" : "after";
+    const query = {
+      limit: "100",
+      [direction]: this.from,
+      ...pageQuery,
+      ...limitedQuery(pageQuery, context.maxItems, seen),
+    };
+    const start = Date.now();
     const nextListingObject: RedditObject = await context.client.gateway.get(
-      context.request.url,
-      query
+      url,
+      query,
+      options
     );
     assertKind("Listing", nextListingObject);
-    return nextListingObject.data as RedditListing<TPageItems>;
+
+    const page = nextListingObject.data as RedditListing<TPageItems>;
+    context.client.gateway.reportPage({
+      endpoint: endpointTemplate(url),
+      path: url,
+      after: this.backward ? undefined : this.from || undefined,
+      ...(this.backward && { before: this.from }),
+      items: page.children.length,
+      duration: Date.now() - start,
+      done: !page[direction],
+    });
+
+    // Reddit still returns every page newest first, so flip them around to
+    // keep the whole listing in order when walking it backwards.
+    if (this.backward) page.children.reverse();
+    return page;
   }
 }
 
+// Reddit numbers the items of a page starting at `count`, so the request for
+// the items after the first `seen` has to count those too.
+function countedRequest(
+  request: { url: string; query: Query },
+  seen: number
+): { url: string; query: Query } {
+  const { count } = request.query;
+  if (count == undefined) return request;
+  return {
+    ...request,
+    query: { ...request.query, count: Number(count) + seen },
+  };
+}
+
+// There's no point in asking for a whole page if the listing only has room for
+// a few more items.
+function limitedQuery(
+  query: Query,
+  maxItems: Maybe<number>,
+  seen: number
+): Query {
+  if (maxItems == undefined) return {};
+  const room = Math.max(maxItems - seen, 1);
+  return { limit: Math.min(Number(query.limit ?? 100), room) };
+}
+
+/**
+ * Fetch a page on behalf of the method that made the listing, which has long
+ * returned by the time the page is needed.
+ *
+ * @param fetcher The fetcher of the page.
+ * @param context The context of the listing.
+ * @param seen How many items of the listing come before the page.
+ * @param options The options to cancel the request with.
+ *
+ * @returns The page.
+ */
+async function fetchPage<T>(
+  fetcher: Fetcher<T>,
+  context: ListingContext,
+  seen: number,
+  options: RequestOptions
+): Promise<Listing<T>> {
+  return withScopes(context.scopes, async () =>
+    fetcher.fetch(context, options, seen)
+  );
+}
+
+/**
+ * Get the fullname the page after this one continues from.
+ *
+ * @internal
+ *
+ * @param l The page.
+ * @param context The context of the listing the page belongs to.
+ *
+ * @returns The fullname, or `undefined` if this is the last page.
+ */
+export function continueFrom(
+  l: RedditListing<unknown>,
+  context: ListingContext
+): Maybe<string> {
+  return context.backward ? l.before : l.after;
+}
+
 /**
  * A Listing of items.
  *
@@ -93,28 +279,53 @@ export abstract class Pager<T> implements Fetcher<T> {
  * await posts.eachPage(page => console.log(page.length));
  * ```
  *
+ * @note Every method that can fetch more items takes an optional
+ * {@link RequestOptions} to cancel it with. To cancel a `for await` loop, use
+ * {@link iterate}:
+ * ```ts
+ * const controller = new AbortController();
+ * const posts = client.subreddits.getNewPosts("funny");
+ * for await (const post of posts.iterate({ signal: controller.signal })) {
+ *   console.log(post.title);
+ * }
+ * ```
+ *
  * @template T The type of items this Listing holds.
  */
-export class Listing<T> {
+export class Listing<T> extends LazyListing<T> {
   protected context: ListingContext;
   protected items: T[];
   protected fetcher?: Fetcher<T>;
   protected next?: Listing<T>;
+  protected type?: ListingType;
+  /** How many items came before this page. */
+  protected offset = 0;
+  /** The next page, if it's being prefetched. */
+  protected prefetched?: Promise<Maybe<Listing<T>>>;
+  /** The priority of the request for the prefetched page. */
+  protected prefetching?: Background;
 
   /** @internal */
   constructor(context: ListingContext, items: T[], fetcher?: Fetcher<T>) {
-    this.context = context;
+    super(options => this.iterate(options));
+    // Remember the scopes of the method that made this listing, so the pages
+    // that are fetched later are checked against them too.
+    const scopes = currentScopes();
+    this.context = context.scopes || !scopes ? context : { ...context, scopes };
     this.items = items;
     this.fetcher = fetcher;
+    this.cap(0);
   }
 
   /**
    * Whether or not this listing is empty.
    *
+   * @param options The options to cancel the request with, if one is needed.
+   *
    * @returns A promise that resolves to either `true` if the listing is empty
    * or `false` if it's not.
    */
-  async empty(): Promise<boolean> {
+  async empty(options: RequestOptions = {}): Promise<boolean> {
     // If we have elements on hand, it's not empty.
     if (this.items.length > 0) return false;
 
@@ -124,7 +335,8 @@ export class Listing<T> {
     // This listing is empty but can fetch more. Do so, and if it was
     // successful, it's not empty.
     if (!this.next) {
-      this.next = await this.fetcher.fetch(this.context);
+      const seen = this.offset + this.items.length;
+      this.next = await fetchPage(this.fetcher, this.context, seen, options);
     }
     return this.next.items.length > 0;
   }
@@ -144,120 +356,221 @@ export class Listing<T> {
   }
 
   /**
-   * Execute a function on pages of the listing.
+   * Get a cursor that points just past the items of this page.
    *
-   * @param handler The function to execute on each page. If this returns or
-   * resolves to `false` the execution will be halted.
+   * For the listings returned by the various `get` methods (which don't hold
+   * any items yet) this is the start of the listing. To save your progress
+   * while going through a listing, use the cursor that {@link eachPage} gives
+   * to each page.
    *
-   * @returns A promise that resolves when the listing has been exhausted.
+   * @example Resuming an export after a restart
+   * ```ts
+   * const saved = await readCheckpoint();
+   * const listing = saved
+   *   ? client.resumeListing<Post>(JSON.parse(saved))
+   *   : client.subreddits.getNewPosts("funny");
+   *
+   * await listing.eachPage(async (posts, cursor) => {
+   *   await exportPosts(posts);
+   *   await writeCheckpoint(JSON.stringify(cursor));
+   * });
+   * ```
+   *
+   * @returns The cursor.
+   *
+   * @throws {SnootsError} If this listing can't be resumed.
    */
-  async eachPage(
-    handler: AwaitableFunction<T[], boolean | void>
-  ): Promise<void> {
-    // eslint-disable-next-line @typescript-eslint/no-this-alias
-    let page: Maybe<Listing<T>> = this;
-
-    do {
-      // If the function returns false at any point, we are done.
-      const result = await handler(page.items);
-      if (result === false) return;
-
-      page = await Listing.nextPage(page, this.context);
-    } while (page);
+  cursor(): ListingCursor {
+    if (!this.type) throw new SnootsError("This listing can't be resumed");
+    const { request, post, maxItems, prefetch } = this.context;
+    const seen = this.offset + this.items.length;
+    return {
+      type: this.type,
+      ...(request && { request: countedRequest(request, seen) }),
+      ...(post != undefined && { post }),
+      ...(maxItems != undefined && { maxItems: Math.max(maxItems - seen, 0) }),
+      ...(prefetch != undefined && { prefetch }),
+      ...(this.fetcher && { position: this.fetcher.position() }),
+    };
   }
 
   /**
-   * Execute a function on each element of the listing.
+   * Get the items of this listing that come before a known item.
+   *
+   * This pages backwards through the listing using Reddit's `before`
+   * parameter, so it only fetches what's newer than the checkpoint instead of
+   * the whole listing. The items are given oldest first, so the last one is
+   * always the next checkpoint.
    *
-   * @note This is an enhanced version of the default Array.forEach. It allows
-   * for asynchronous callbacks and breaking.
+   * @note This only makes sense for listings that are sorted by time, like
+   * `getNewPosts`. If the checkpoint has been deleted or has fallen off the
+   * listing Reddit returns nothing at all.
    *
-   * @example Async
+   * @example Fetching the posts made since the last run
    * ```ts
-   * async function slowAsync(post: Post): Promise<void> {
-   *   // do something slow
-   * }
+   * let checkpoint = await readCheckpoint();
+   * const posts = client.subreddits.getNewPosts("funny").since(checkpoint);
    *
-   * const posts = await client.subreddits.getNewPosts("funny");
-   * await posts.forEach(post => slowAsync(post));
+   * for await (const post of posts) {
+   *   await handlePost(post);
+   *   checkpoint = post.name;
+   * }
+   * await writeCheckpoint(checkpoint);
    * ```
    *
-   * @example Breaking
-   * ```ts
-   * const posts = await client.subreddits.getNewPosts("funny");
-   * await posts.forEach(post => {
-   *   console.log(post.title);
-   *   // Break if the post was more than 5 minutes old.
-   *   return post.createdUtc >= (Date.now() / 1000) - 5 * 60;
-   * });
-   * ```
+   * @param fullname The fullname of the item to start from. It isn't included.
    *
-   * @param handler The function to execute on each item in the listing. If this
-   * returns or resolves to `false` the execution will be halted.
+   * @returns The listing of newer items.
    *
-   * @returns A promise that resolves when the iteration is complete.
+   * @throws {SnootsError} If this listing can't be paged backwards.
    */
-  async forEach(handler: AwaitableFunction<T, boolean | void>): Promise<void> {
-    for await (const item of this) {
-      const result = await handler(item);
-      if (result === false) break;
+  since(fullname: string): Listing<T> {
+    const { type, context } = this;
+    const { client, request, post, maxItems, prefetch, scopes } = context;
+    if (!type || !request) {
+      throw new SnootsError("This listing can't be paged backwards");
     }
+    return withScopes(scopes, () =>
+      client.resumeListing<T>({
+        type,
+        request,
+        post,
+        maxItems,
+        prefetch,
+        position: { before: fullname },
+      })
+    );
   }
 
   /**
-   * Determines whether the specified callback function returns true for any
-   * element of the listing.
+   * Execute a function on pages of the listing.
    *
-   * @param handler The matcher to run on each element in the listing. If this
-   * returns `true` at any point the searching is stopped.
+   * @param handler The function to execute on each page. If this returns or
+   * resolves to `false` the execution will be halted. It's also given a
+   * cursor to resume the listing after this page with, unless the listing
+   * can't be resumed.
+   * @param options The options to cancel the requests with.
    *
-   * @returns A promise that resolves to `true` if `handler` returned `true` for
-   * some element in the listing, or `false` if it reached the end of the
-   * listing without finding a match.
+   * @returns A promise that resolves when the listing has been exhausted.
    */
-  async some(handler: AwaitableFunction<T, boolean>): Promise<boolean> {
-    for await (const item of this) {
-      if (await handler(item)) return true;
-    }
-    return false;
+  async eachPage(
+    handler: (
+      page: T[],
+      cursor: Maybe<ListingCursor>
+    ) => Awaitable<boolean | void>,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    // eslint-disable-next-line @typescript-eslint/no-this-alias
+    let page: Maybe<Listing<T>> = this;
+
+    do {
+      // If the function returns false at any point, we are done.
+      const cursor = page.type ? page.cursor() : undefined;
+      const result = await handler(page.items, cursor);
+      if (result === false) return;
+
+      page = await Listing.nextPage(page, this.context, options);
+    } while (page);
   }
 
   /**
-   * Get the first item of this listing.
+   * Iterate over this listing in a way that can be cancelled.
+   *
+   * Once the signal is aborted (or the timeout runs out) the loop throws an
+   * {@link AbortError}, even between requests.
+   *
+   * @param options The options to cancel the iteration with. The timeout
+   * applies to each request separately.
    *
-   * @returns A promise that resolves to either the first item of the listing,
-   * or `undefined` if the listing is empty.
+   * @returns An async iterable of the items in this listing.
    */
-  async first(): Promise<Maybe<T>> {
-    for await (const item of this) {
-      return item;
-    }
-    return undefined;
+  override iterate(options: RequestOptions = {}): AsyncIterable<T> {
+    return { [Symbol.asyncIterator]: () => this.iterator(options) };
   }
 
   private static async nextPage<T>(
     page: Listing<T>,
-    context: ListingContext
+    context: ListingContext,
+    options: RequestOptions = {}
   ): Promise<Maybe<Listing<T>>> {
-    if (page.next) {
-      return page.next;
-    } else if (page.fetcher) {
-      const next = await page.fetcher.fetch(context);
-      return next.items.length > 0 ? next : undefined;
+    // Somebody is waiting for the prefetched page now, so it shouldn't have to
+    // wait for everything else anymore.
+    page.prefetching?.promote();
+    let next = page.next ?? (await page.prefetched);
+    const seen = page.offset + page.items.length;
+    if (!next && page.fetcher) {
+      next = await fetchPage(page.fetcher, context, seen, options);
     }
-    return undefined;
+    if (!next) return undefined;
+
+    next.cap(seen);
+    void next.prefetch(context.prefetch ?? 0, options);
+    return next.items.length > 0 ? next : undefined;
   }
 
-  /** @internal */
-  [Symbol.asyncIterator]() {
+  // Start fetching the next few pages in the background, so they're ready by
+  // the time they're needed.
+  private async prefetch(
+    depth: number,
+    options: RequestOptions
+  ): Promise<void> {
+    if (depth <= 0 || !this.fetcher) return;
+    this.prefetched ??= this.fetchInBackground(this.fetcher, options);
+    const next = await this.prefetched;
+    await next?.prefetch(depth - 1, options);
+  }
+
+  private async fetchInBackground(
+    fetcher: Fetcher<T>,
+    options: RequestOptions
+  ): Promise<Maybe<Listing<T>>> {
+    const background = new Background();
+    this.prefetching = background;
+    const seen = this.offset + this.items.length;
+    try {
+      const next = await fetchPage(fetcher, this.context, seen, {
+        ...options,
+        background,
+      });
+      next.cap(seen);
+      return next;
+    } catch (error) {
+      // The page is fetched again once it's needed, which reports the error if
+      // it happens again.
+      debug("Prefetching a page failed: %O", error);
+      this.prefetched = undefined;
+      return undefined;
+    }
+  }
+
+  // Cut this page short if it goes past the maximum number of items, and stop
+  // fetching once the maximum is reached.
+  private cap(offset: number): void {
+    this.offset = offset;
+    const { maxItems } = this.context;
+    if (maxItems == undefined) return;
+
+    const room = Math.max(maxItems - offset, 0);
+    if (this.items.length >= room) {
+      this.items = this.items.slice(0, room);
+      this.fetcher = undefined;
+    }
+  }
+
+  private iterator(options: RequestOptions = {}) {
     return {
       page: this as Listing<T>,
       context: this.context,
       index: 0,
 
       async next(): Promise<IteratorResult<T>> {
+        throwIfAborted(options.signal, "Iterating the listing");
         if (this.index >= this.page.items.length) {
-          const nextPage = await Listing.nextPage(this.page, this.context);
+          const nextPage = await Listing.nextPage(
+            this.page,
+            this.context,
+            options
+          );
           if (!nextPage) return { done: true, value: undefined };
           this.page = nextPage;
           this.index = 0;
@@ -0,0 +1,116 @@
+import type { Client } from "../../client";
+import type { Query } from "../../gateway/types";
+import type { Maybe } from "../../helper/types";
+import type { TimeRange } from "../types";
+import type { ListingContext } from "./listing";
+
+/** Options that every method that returns a {@link Listing} accepts. */
+export interface ListingOptions {
+  /**
+   * How many items to ask Reddit for per page. Reddit doesn't return more than
+   * 100, which is also the default.
+   */
+  limit?: number;
+
+  /**
+   * How many items of the listing have already been seen. Reddit uses this to
+   * number the items.
+   */
+  count?: number;
+
+  /**
+   * Set this to `"all"` to include items that would be hidden by the account's
+   * preferences, like posts that have been voted on.
+   */
+  show?: "all";
+
+  /** Whether to include details about the subreddit of every item. */
+  srDetail?: boolean;
+
+  /**
+   * The time range to filter by. This only works for listings sorted by top
+   * or controversial.
+   */
+  time?: TimeRange;
+
+  /**
+   * The most items the listing will give. Once this many items have been
+   * handed out no more pages are fetched, and the last page only asks for the
+   * items that are still missing.
+   */
+  maxItems?: number;
+
+  /**
+   * How many pages to fetch ahead of the one that's being used. Defaults to
+   * `0`, which only fetches a page once it's needed.
+   *
+   * Prefetched pages are sent as background requests, so if
+   * {@link ClientOptions.scheduler} is set they wait until no other requests
+   * are waiting. If you stop going through the listing early, up to this many
+   * pages are fetched for nothing.
+   */
+  prefetch?: number;
+}
+
+/**
+ * Turn listing options into query parameters.
+ *
+ * @param options The options.
+ *
+ * @returns The query parameters for the options that were set.
+ */
+function listingQuery(options: ListingOptions): Query {
+  const query: Query = {};
+  if (options.limit != undefined) query.limit = options.limit;
+  if (options.count != undefined) query.count = options.count;
+  if (options.show != undefined) query.show = options.show;
+  if (options.srDetail != undefined) query.sr_detail = options.srDetail;
+  if (options.time != undefined) query.t = options.time;
+  return query;
+}
+
+/**
+ * Set the time range a method was given in the options of its listing.
+ *
+ * @internal
+ *
+ * @param options The options the caller passed.
+ * @param time The time range the method was given. This takes precedence over
+ * `options.time`.
+ *
+ * @returns The options, with the time range to filter by. If neither set one
+ * this is `"all"`.
+ */
+export function withTime(
+  options: ListingOptions,
+  time: Maybe<TimeRange>
+): ListingOptions {
+  return { ...options, time: time ?? options.time ?? "all" };
+}
+
+/**
+ * Make the context for a listing that's fetched with a request.
+ *
+ * @internal
+ *
+ * @param client The client to fetch the listing with.
+ * @param url The URL of the listing.
+ * @param query The query the method itself sends. Anything set in `options`
+ * takes precedence over this.
+ * @param options The options the caller passed.
+ *
+ * @returns The context.
+ */
+export function listingContext(
+  client: Client,
+  url: string,
+  query: Query,
+  options: ListingOptions = {}
+): ListingContext & Required<Pick<ListingContext, "request">> {
+  return {
+    client,
+    request: { url, query: { ...query, ...listingQuery(options) } },
+    ...(options.maxItems != undefined && { maxItems: options.maxItems }),
+    ...(options.prefetch != undefined && { prefetch: options.prefetch }),
+  };
+}
@@ -0,0 +1,83 @@
+import type { Client } from "../../client";
+import type { Maybe } from "../../helper/types";
+import type { RedditObject } from "../types";
+import type {
+  Listing,
+  ListingContext,
+  ListingCursor,
+  ListingType,
+  RedditObjectListing,
+} from "./listing";
+
+import { SnootsError } from "../../errors";
+import { CommentListing } from "../comment/listing/listing";
+import { PostListing } from "../post/listing";
+import { PostOrCommentListing } from "../post-or-comment/listing";
+import { SubredditListing } from "../subreddit/listing";
+import { BannedUserListing } from "../user/moderator-actioned/banned";
+import { ModeratorActionedUserListing } from "../user/moderator-actioned/base";
+import { fakeListingAfter, fakeListingBefore } from "./util";
+
+type ListingClass = new (
+  l: RedditObjectListing,
+  context: ListingContext
+) => Listing<unknown>;
+
+const listingClasses: Record<ListingType, ListingClass> = {
+  posts: PostListing,
+  comments: CommentListing,
+  subreddits: SubredditListing,
+  postsOrComments: PostOrCommentListing,
+  moderatorActionedUsers: ModeratorActionedUserListing,
+  bannedUsers: BannedUserListing,
+};
+
+/**
+ * Rebuild a listing from a cursor.
+ *
+ * @internal
+ *
+ * @param client The client to fetch the rest of the listing with.
+ * @param cursor The cursor to resume from.
+ *
+ * @returns The listing. It holds no items, and fetches the next page as soon as
+ * it's used.
+ *
+ * @throws {SnootsError} If the cursor isn't valid.
+ */
+export function resumeListing<T>(
+  client: Client,
+  cursor: ListingCursor
+): Listing<T> {
+  const listingClass = listingClasses[cursor.type] as Maybe<ListingClass>;
+  if (!listingClass) {
+    throw new SnootsError(`Unknown listing type '${String(cursor.type)}'`);
+  }
+
+  const { request, post, position, maxItems, prefetch } = cursor;
+  if (position && "after" in position && !request && position.after !== "") {
+    throw new SnootsError("The cursor is missing the request to resume");
+  }
+  if (position && "before" in position && !request) {
+    throw new SnootsError("The cursor is missing the request to resume");
+  }
+
+  const context: ListingContext = { client, request, post };
+  if (maxItems != undefined) context.maxItems = maxItems;
+  if (prefetch != undefined) context.prefetch = prefetch;
+  if (position && "before" in position) context.backward = true;
+
+  // Fake a page with nothing on it that continues from the position, so the
+  // listing sets up the same fetcher it had before.
+  let raw: RedditObjectListing = { children: [] };
+  if (position && "more" in position) {
+    const more: RedditObject = { kind: "more", data: position.more };
+    raw = { children: [more] };
+  } else if (position && "before" in position) {
+    raw = fakeListingBefore(position.before);
+  } else if (position) {
+    raw = fakeListingAfter(position.after);
+  }
+
+  return new listingClass(raw, context) as Listing<T>;
+}
@@ -1,3 +1,6 @@
+import type { RequestOptions } from "../../gateway/abort";
+
+import { scopes } from "../scopes";
 import { VoteableControls } from "../voteable/controls";
 
 /** The base controls for all content that can be locked. */
@@ -6,21 +9,35 @@ export abstract class LockableControls extends VoteableControls {
    * Lock an item, preventing non-moderators from being able to post replies.
    *
    * @param id The ID of the item to lock.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the item has been locked.
    */
-  async lock(id: string): Promise<void> {
-    await this.gateway.post("api/lock", { id: this.namespace(id) });
+  @scopes("modposts")
+  async lock(id: string, options: RequestOptions = {}): Promise<void> {
+    await this.gateway.post(
+      "api/lock",
+      { id: this.namespace(id) },
+      {},
+      options
+    );
   }
 
   /**
    * Unlock an item, allowing non-moderators to post replies.
    *
    * @param id The ID of the item to unlock.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the item has been unlocked.
    */
-  async unlock(id: string): Promise<void> {
-    await this.gateway.post("api/unlock", { id: this.namespace(id) });
+  @scopes("modposts")
+  async unlock(id: string, options: RequestOptions = {}): Promise<void> {
+    await this.gateway.post(
+      "api/unlock",
+      { id: this.namespace(id) },
+      {},
+      options
+    );
   }
 }
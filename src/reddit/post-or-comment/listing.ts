@@ -1,27 +1,36 @@
+import type { RequestOptions } from "../../gateway/abort";
 import type { Comment } from "../comment/object";
 import type {
   Fetcher,
   ListingContext,
+  ListingType,
   RedditObjectListing,
 } from "../listing/listing";
 import type { Post } from "../post/object";
 
-import { Listing, Pager } from "../listing/listing";
-import { InvalidKindError } from "../util";
+import { InvalidKindError } from "../../errors";
+import { continueFrom, Listing, Pager } from "../listing/listing";
 
 class PostOrCommentPager extends Pager<Post | Comment> {
-  async fetch(context: ListingContext): Promise<PostOrCommentListing> {
-    const pg = await this.nextPage(context);
+  async fetch(
+    context: ListingContext,
+    options: RequestOptions = {},
+    seen = 0
+  ): Promise<PostOrCommentListing> {
+    const pg = await this.nextPage(context, options, seen);
     return new PostOrCommentListing(pg, context);
   }
 }
 
 export class PostOrCommentListing extends Listing<Post | Comment> {
+  protected override type: ListingType = "postsOrComments";
+
   constructor(l: RedditObjectListing, context: ListingContext) {
     let fetcher: Fetcher<Post | Comment> | undefined;
 
-    if (l.after != undefined) {
-      fetcher = new PostOrCommentPager(l.after);
+    const from = continueFrom(l, context);
+    if (from != undefined) {
+      fetcher = new PostOrCommentPager(from, context.backward);
     }
 
     const items: (Post | Comment)[] = [];
@@ -1,7 +1,10 @@
 import type { Client } from "../../client";
+import type { RequestOptions } from "../../gateway/abort";
 import type { Query } from "../../gateway/types";
 import type { Data, Maybe } from "../../helper/types";
+import type { FetchManyResult } from "../info";
 import type { Listing, RedditObjectListing } from "../listing/listing";
+import type { ListingOptions } from "../listing/options";
 import type { LinkPostOptions } from "../subreddit/controls";
 import type {
   RedditObject,
@@ -13,8 +16,11 @@ import type { PostData, SuggestedSort } from "./object";
 
 import { assertKind, fromRedditData } from "..//util";
 import { CommentListing } from "../comment/listing/listing";
+import { collectInfo, fetchInfo } from "../info";
+import { listingContext, withTime } from "../listing/options";
 import { fakeListingAfter } from "../listing/util";
 import { LockableControls } from "../lockable/controls";
+import { scopes } from "../scopes";
 import { PostListing } from "./listing";
 import { Post } from "./object";
 
@@ -43,16 +49,51 @@ export class PostControls extends LockableControls {
    * Fetch a post.
    *
    * @param id The id of the post to fetch.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves to the request post.
    *
    * @throws
    */
-  async fetch(id: string): Promise<Post> {
-    const splitRaw: SplitRawPost = await this.gateway.get(`comments/${id}`);
+  @scopes("read")
+  async fetch(id: string, options: RequestOptions = {}): Promise<Post> {
+    const splitRaw: SplitRawPost = await this.gateway.get(
+      `comments/${id}`,
+      {},
+      options
+    );
     return this.fromSplitRaw(splitRaw);
   }
 
+  /**
+   * Fetch many posts at once.
+   *
+   * This asks for up to 100 posts per request, which is much faster than
+   * calling {@link fetch} for each of them.
+   *
+   * @note The posts' comments are not included, they will be fetched when you
+   * iterate over them.
+   *
+   * @param ids The ids of the posts to fetch.
+   * @param options The options to cancel the request with.
+   *
+   * @returns A promise that resolves to the posts that were found (in the same
+   * order as `ids`), and the ids of the ones that weren't.
+   */
+  @scopes("read")
+  async fetchMany(
+    ids: string[],
+    options: RequestOptions = {}
+  ): Promise<FetchManyResult<Post>> {
+    const fullnames = ids.map(id => this.namespace(id));
+    const found = await fetchInfo(this.gateway, "id", fullnames, options);
+    return collectInfo(
+      ids,
+      id => found.get(this.namespace(id).toLowerCase()),
+      raw => this.fromRaw(raw)
+    );
+  }
+
   /**
    * Search Reddit.
    *
@@ -61,25 +102,28 @@ export class PostControls extends LockableControls {
    *
    * @param query The search query.
    * @param subreddit The subreddit to search in.
-   * @param time The time range to search in.
+   * @param time The time range to search in. Defaults to `options.time`, or
+   * `"all"` if that isn't set either.
    * @param sort The way to sort the search results.
    * @param syntax The search syntax to use.
    * @param searchSubredditOnly Whether or not to restrict the search to the
    * given subreddit. If this is `false` or if `subreddit` is falsy this will
    * search all of Reddit.
+   * @param options The options for the listing.
    *
    * @returns A listing of posts.
    */
+  @scopes("read")
   search(
     query: string,
     subreddit: Maybe<string>,
-    time: TimeRange = "all",
+    time?: TimeRange,
     sort: SearchSort = "new",
     syntax: SearchSyntax = "plain",
-    searchSubredditOnly: boolean = false
+    searchSubredditOnly: boolean = false,
+    options: ListingOptions = {}
   ): Listing<Post> {
-    const options: Query = {
-      t: time,
+    const searchQuery: Query = {
       q: query,
       sort,
       syntax,
@@ -87,11 +131,15 @@ export class PostControls extends LockableControls {
       restrict_sr: searchSubredditOnly && !!subreddit,
     };
 
-    if (subreddit) options.subreddit = subreddit;
+    if (subreddit) searchQuery.subreddit = subreddit;
 
     const url = subreddit ? `r/${subreddit}/` : "";
-    const request = { url: `${url}search`, query: options };
-    const context = { request, client: this.client };
+    const context = listingContext(
+      this.client,
+      `${url}search`,
+      searchQuery,
+      withTime(options, time)
+    );
     return new PostListing(fakeListingAfter(""), context);
   }
 
@@ -99,24 +147,28 @@ export class PostControls extends LockableControls {
    * Distinguish a post.
    *
    * @param id The ID of the post to distinguish.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the post has been distinguished.
    */
-  async distinguish(id: string): Promise<void> {
+  @scopes("modposts")
+  async distinguish(id: string, options: RequestOptions = {}): Promise<void> {
     const body = { how: "yes", sticky: false, id: this.namespace(id) };
-    await this.gateway.post("api/distinguish", body);
+    await this.gateway.post("api/distinguish", body, {}, options);
   }
 
   /**
    * Undistinguish a post.
    *
    * @param id The ID of the post to undistinguish.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the post has been undistinguished.
    */
-  async undistinguish(id: string): Promise<void> {
+  @scopes("modposts")
+  async undistinguish(id: string, options: RequestOptions = {}): Promise<void> {
     const body = { how: "no", sticky: false, id: this.namespace(id) };
-    await this.gateway.post("api/distinguish", body);
+    await this.gateway.post("api/distinguish", body, {}, options);
   }
 
   /**
@@ -126,16 +178,25 @@ export class PostControls extends LockableControls {
    * @param subreddit The name of the subreddit to crosspost to.
    * @param title The title of the crosspost.
    * @param options Any extra options.
+   * @param requestOptions The options to cancel the request with.
    *
    * * @returns A promise that resolves to the ID of the newly created post.
    */
+  @scopes("submit")
   async crosspostTo(
     id: string,
     subreddit: string,
     title: string,
-    options: LinkPostOptions = {}
+    options: LinkPostOptions = {},
+    requestOptions: RequestOptions = {}
   ): Promise<string> {
-    return this.client.subreddits.postCrosspost(subreddit, title, id, options);
+    return this.client.subreddits.postCrosspost(
+      subreddit,
+      title,
+      id,
+      options,
+      requestOptions
+    );
   }
 
   /**
@@ -143,13 +204,19 @@ export class PostControls extends LockableControls {
    *
    * @param id The ID of the post to set contest mode for.
    * @param enabled Whether to turn contest mode on or off.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the post's contest mode has been
    * updated.
    */
-  async setContestMode(id: string, enabled: boolean): Promise<void> {
+  @scopes("modposts")
+  async setContestMode(
+    id: string,
+    enabled: boolean,
+    options: RequestOptions = {}
+  ): Promise<void> {
     const body = { state: enabled, id: this.namespace(id) };
-    await this.gateway.post("api/set_contest_mode", body);
+    await this.gateway.post("api/set_contest_mode", body, {}, options);
   }
 
   /**
@@ -158,15 +225,26 @@ export class PostControls extends LockableControls {
    * @param id The ID of the post to update the suggested sort for.
    * @param sort The new suggested sort. If this is `undefined` the sort will be
    * cleared.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the post's suggested sort has been
    * updated.
    */
-  async setSuggestedSort(id: string, sort: Maybe<SuggestedSort>) {
-    await this.gateway.post("api/set_suggested_sort", {
-      id: this.namespace(id),
-      sort: sort ?? "",
-    });
+  @scopes("modposts")
+  async setSuggestedSort(
+    id: string,
+    sort: Maybe<SuggestedSort>,
+    options: RequestOptions = {}
+  ) {
+    await this.gateway.post(
+      "api/set_suggested_sort",
+      {
+        id: this.namespace(id),
+        sort: sort ?? "",
+      },
+      {},
+      options
+    );
   }
 
   /**
@@ -176,16 +254,33 @@ export class PostControls extends LockableControls {
    * communities" button on Reddit.
    *
    * @param id The ID of the post to get duplicates of.
+   * @param options The options for the listing.
+   * @param requestOptions The options to cancel the request with.
    *
    * @returns A promise that resolves to a listing of posts.
    */
-  async getDuplicates(id: string): Promise<Listing<Post>> {
-    const path = `duplicates/${id}`;
-    const splitRaw: SplitRawPost = await this.gateway.get(path);
+  @scopes("read")
+  async getDuplicates(
+    id: string,
+    options: ListingOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<Listing<Post>> {
+    // The rest of the duplicates aren't paged like other listings, so the
+    // context only keeps the cap on the number of items.
+    const { request, ...context } = listingContext(
+      this.client,
+      `duplicates/${id}`,
+      {},
+      options
+    );
+    const splitRaw: SplitRawPost = await this.gateway.get(
+      request.url,
+      request.query,
+      requestOptions
+    );
 
     assertKind("Listing", splitRaw[1]);
 
-    const context = { client: this.client };
     return new PostListing(splitRaw[1].data, context);
   }
 
@@ -193,76 +288,119 @@ export class PostControls extends LockableControls {
    * Hide a post, preventing it from appearing on most listings.
    *
    * @param id The ID of the post to hide.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the post has been hidden.
    */
-  async hide(id: string): Promise<void> {
-    await this.gateway.post("api/hide", { id: this.namespace(id) });
+  @scopes("report")
+  async hide(id: string, options: RequestOptions = {}): Promise<void> {
+    await this.gateway.post(
+      "api/hide",
+      { id: this.namespace(id) },
+      {},
+      options
+    );
   }
 
   /**
    * Unhide a post, allowing it to appear on most listings.
    *
    * @param id The ID of the post to hide.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the post has been hidden.
    */
-  async unhide(id: string): Promise<void> {
-    await this.gateway.post("api/unhide", { id: this.namespace(id) });
+  @scopes("report")
+  async unhide(id: string, options: RequestOptions = {}): Promise<void> {
+    await this.gateway.post(
+      "api/unhide",
+      { id: this.namespace(id) },
+      {},
+      options
+    );
   }
 
   /**
    * Mark a post as NSFW.
    *
    * @param id The ID of the post to mark NSFW.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the post has been marked as NSFW.
    */
-  async markNsfw(id: string): Promise<void> {
-    await this.gateway.post("api/marknsfw", { id: this.namespace(id) });
+  @scopes("modposts")
+  async markNsfw(id: string, options: RequestOptions = {}): Promise<void> {
+    await this.gateway.post(
+      "api/marknsfw",
+      { id: this.namespace(id) },
+      {},
+      options
+    );
   }
 
   /**
    * Mark a post as not NSFW.
    *
    * @param id The ID of the post to unmark.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the post has been unmarked.
    */
-  async unmarkNsfw(id: string): Promise<void> {
-    await this.gateway.post("api/unmarknsfw", { id: this.namespace(id) });
+  @scopes("modposts")
+  async unmarkNsfw(id: string, options: RequestOptions = {}): Promise<void> {
+    await this.gateway.post(
+      "api/unmarknsfw",
+      { id: this.namespace(id) },
+      {},
+      options
+    );
   }
 
   /**
    * Mark a post as a spoiler.
    *
    * @param id The ID of the post to mark as a spoiler.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the post has been marked.
    */
-  async markSpoiler(id: string): Promise<void> {
-    await this.gateway.post("api/spoiler", { id: this.namespace(id) });
+  @scopes("modposts")
+  async markSpoiler(id: string, options: RequestOptions = {}): Promise<void> {
+    await this.gateway.post(
+      "api/spoiler",
+      { id: this.namespace(id) },
+      {},
+      options
+    );
   }
 
   /**
    * Mark a post as not a spoiler.
    *
    * @param id The ID of the post to unmark.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the post has been unmarked.
    */
-  async unmarkSpoiler(id: string): Promise<void> {
-    await this.gateway.post("api/unspoiler", { id: this.namespace(id) });
+  @scopes("modposts")
+  async unmarkSpoiler(id: string, options: RequestOptions = {}): Promise<void> {
+    await this.gateway.post(
+      "api/unspoiler",
+      { id: this.namespace(id) },
+      {},
+      options
+    );
   }
 
   /** @internal */
   protected async setStickied(
     id: string,
     state: boolean,
-    slot?: 1 | 2
+    slot?: 1 | 2,
+    options: RequestOptions = {}
   ): Promise<void> {
     const body = { state, num: slot, id: this.namespace(id) };
-    await this.gateway.post("api/set_subreddit_sticky", body);
+    await this.gateway.post("api/set_subreddit_sticky", body, {}, options);
   }
 
   /**
@@ -270,22 +408,30 @@ export class PostControls extends LockableControls {
    *
    * @param id The ID of the post to sticky.
    * @param slot The slot to sticky the post to.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the post has been stickied.
    */
-  async sticky(id: string, slot: 1 | 2): Promise<void> {
-    await this.setStickied(id, true, slot);
+  @scopes("modposts")
+  async sticky(
+    id: string,
+    slot: 1 | 2,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    await this.setStickied(id, true, slot, options);
   }
 
   /**
    * Unsticky a post.
    *
    * @param id The ID of the post to unsticky.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the post has been unstickied.
    */
-  async unsticky(id: string): Promise<void> {
-    await this.setStickied(id, false);
+  @scopes("modposts")
+  async unsticky(id: string, options: RequestOptions = {}): Promise<void> {
+    await this.setStickied(id, false, undefined, options);
   }
 
   /** @internal */
@@ -1,26 +1,35 @@
+import type { RequestOptions } from "../../gateway/abort";
 import type {
   Fetcher,
   ListingContext,
+  ListingType,
   RedditObjectListing,
 } from "../listing/listing";
 import type { Post } from "./object";
 
-import { Listing, Pager } from "../listing/listing";
+import { continueFrom, Listing, Pager } from "../listing/listing";
 
 class PostPager extends Pager<Post> {
-  async fetch(context: ListingContext): Promise<PostListing> {
-    const pg = await this.nextPage(context);
+  async fetch(
+    context: ListingContext,
+    options: RequestOptions = {},
+    seen = 0
+  ): Promise<PostListing> {
+    const pg = await this.nextPage(context, options, seen);
     return new PostListing(pg, context);
   }
 }
 
 /** @internal */
 export class PostListing extends Listing<Post> {
+  protected override type: ListingType = "posts";
+
   constructor(l: RedditObjectListing, context: ListingContext) {
     let fetcher: Fetcher<Post> | undefined;
 
-    if (l.after != undefined) {
-      fetcher = new PostPager(l.after);
+    const from = continueFrom(l, context);
+    if (from != undefined) {
+      fetcher = new PostPager(from, context.backward);
     }
 
     const posts: Post[] = [];
@@ -1,6 +1,7 @@
 import type { Maybe } from "../../helper/types";
 import type { Comment } from "../comment/object";
 import type { Listing } from "../listing/listing";
+import type { ListingOptions } from "../listing/options";
 import type { LockableData } from "../lockable/object";
 import type { LinkPostOptions } from "../subreddit/controls";
 import type { PostControls } from "./controls";
@@ -451,10 +452,12 @@ export class Post extends Lockable implements PostData {
    * This is the mechanism that drives the "View discussions in X other
    * communities" button on Reddit.
    *
+   * @param options The options for the listing.
+   *
    * @returns A promise that resolves to a listing of posts.
    */
-  async getDuplicates(): Promise<Listing<Post>> {
-    return this.controls.getDuplicates(this.id);
+  async getDuplicates(options: ListingOptions = {}): Promise<Listing<Post>> {
+    return this.controls.getDuplicates(this.id, options);
   }
 
   /**
@@ -1,4 +1,7 @@
+import type { RequestOptions } from "../../gateway/abort";
+
 import { BaseControls } from "../base-controls";
+import { scopes } from "../scopes";
 
 /** The base controls for all content that you can reply to. */
 export abstract class ReplyableControls extends BaseControls {
@@ -9,11 +12,18 @@ export abstract class ReplyableControls extends BaseControls {
    * inbox, and if it's not the request silently succeeds anyway.
    *
    * @param id The ID of the item to block the author of.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the request is complete.
    */
-  async blockAuthor(id: string): Promise<void> {
-    await this.gateway.post("api/block", { id: this.namespace(id) });
+  @scopes("privatemessages")
+  async blockAuthor(id: string, options: RequestOptions = {}): Promise<void> {
+    await this.gateway.post(
+      "api/block",
+      { id: this.namespace(id) },
+      {},
+      options
+    );
   }
 
   /**
@@ -24,23 +34,38 @@ export abstract class ReplyableControls extends BaseControls {
    *
    * @param id The ID of the item to report.
    * @param reason The reason you are reporting the item.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the item has been reported.
    */
-  async report(id: string, reason?: string): Promise<void> {
-    await this.gateway.post("api/report", {
-      /* eslint-disable @typescript-eslint/naming-convention */
-      reason: "other",
-      other_reason: reason,
-      thing_id: this.namespace(id),
-      /* eslint-enable @typescript-eslint/naming-convention */
-    });
+  @scopes("report")
+  async report(
+    id: string,
+    reason?: string,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    await this.gateway.post(
+      "api/report",
+      {
+        /* eslint-disable @typescript-eslint/naming-convention */
+        reason: "other",
+        other_reason: reason,
+        thing_id: this.namespace(id),
+        /* eslint-enable @typescript-eslint/naming-convention */
+      },
+      {},
+      options
+    );
   }
 
   /** @internal */
-  async replyImpl<T>(id: string, text: string): Promise<T> {
+  async replyImpl<T>(
+    id: string,
+    text: string,
+    options: RequestOptions = {}
+  ): Promise<T> {
     // eslint-disable-next-line @typescript-eslint/naming-convention
     const body = { text, thing_id: this.namespace(id) };
-    return await this.gateway.post("api/comment", body);
+    return await this.gateway.post("api/comment", body, {}, options);
   }
 }
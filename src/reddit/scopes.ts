@@ -0,0 +1,92 @@
+import type { Client } from "../client";
+import type { Scope } from "../gateway/scopes";
+
+import { SnootsError } from "../errors";
+import { withScopes } from "../gateway/scopes";
+
+// The scopes of every method that declared them, by the method.
+const declared = new WeakMap<object, Scope[]>();
+
+/**
+ * Declare the OAuth scopes a method of the controls needs.
+ *
+ * These are what {@link Client.requiredScopes} asks for, and what the requests
+ * made by the method are checked against if
+ * {@link ClientOptions.strictScopes} is set.
+ *
+ * @internal
+ *
+ * @param needed The scopes.
+ *
+ * @returns The method decorator.
+ */
+export function scopes(...needed: Scope[]) {
+  return <This, Rest extends unknown[], Return>(
+    method: (this: This, ...rest: Rest) => Return,
+    _context: ClassMethodDecoratorContext<This>
+  ): ((this: This, ...rest: Rest) => Return) => {
+    function scoped(this: This, ...rest: Rest): Return {
+      return withScopes(needed, () => method.apply(this, rest));
+    }
+    declared.set(scoped, needed);
+    return scoped;
+  };
+}
+
+type Controls = Pick<
+  Client,
+  "comments" | "me" | "posts" | "subreddits" | "users"
+>;
+
+// Public members of the controls that are only meant for snoots itself.
+type Unscoped =
+  | "gateway"
+  | "namespace"
+  | "fromRaw"
+  | "fromSplitRaw"
+  | "replyImpl";
+
+type Methods<T> = Exclude<
+  {
+    [K in keyof T]: T[K] extends (...parameters: never[]) => unknown
+      ? K
+      : never;
+  }[keyof T] &
+    string,
+  Unscoped
+>;
+
+/**
+ * A method of the controls on {@link Client}, like `"subreddits.banUser"`.
+ */
+export type ScopedFeature = {
+  [C in keyof Controls]: `${C}.${Methods<Controls[C]>}`;
+}[keyof Controls];
+
+/**
+ * Get the OAuth scopes needed to use some features.
+ *
+ * @internal
+ *
+ * @param features The features.
+ * @param controls The prototypes of the controls, by their name on
+ * {@link Client}.
+ *
+ * @returns The scopes, sorted and without duplicates.
+ *
+ * @throws {SnootsError} If one of the features isn't a method of the controls.
+ */
+export function scopesFor(
+  features: ScopedFeature[],
+  controls: Record<keyof Controls, object>
+): Scope[] {
+  const scopes = new Set<Scope>();
+  for (const feature of features) {
+    const [name, method] = feature.split(".") as [keyof Controls, string];
+    const prototype = controls[name] as Record<string, object>;
+    const needed = declared.get(prototype[method]);
+    if (!needed) throw new SnootsError(`Unknown feature '${feature}'`);
+    for (const scope of needed) scopes.add(scope);
+  }
+  return [...scopes].sort();
+}
@@ -1,8 +1,11 @@
 import type { Client } from "../../client";
+import type { RequestOptions } from "../../gateway/abort";
 import type { Query } from "../../gateway/types";
 import type { Data } from "../../helper/types";
 import type { Comment } from "../comment/object";
+import type { FetchManyResult } from "../info";
 import type { Listing } from "../listing/listing";
+import type { ListingOptions } from "../listing/options";
 import type { Post } from "../post/object";
 import type { PostSort } from "../post/types";
 import type {
@@ -15,11 +18,15 @@ import type { BannedUser } from "../user/moderator-actioned/banned";
 import type { ModeratorActionedUser } from "../user/moderator-actioned/base";
 import type { SubredditData } from "./object";
 
+import { UnexpectedResponseError } from "../../errors";
 import { BaseControls } from "../base-controls";
 import { CommentListing } from "../comment/listing/listing";
+import { collectInfo, fetchInfo } from "../info";
+import { listingContext, withTime } from "../listing/options";
 import { fakeListingAfter } from "../listing/util";
 import { PostListing } from "../post/listing";
 import { PostOrCommentListing } from "../post-or-comment/listing";
+import { scopes } from "../scopes";
 import { BannedUserListing } from "../user/moderator-actioned/banned";
 import { ModeratorActionedUserListing } from "../user/moderator-actioned/base";
 import { Moderator } from "../user/moderator-actioned/moderator";
@@ -122,23 +129,67 @@ export class SubredditControls extends BaseControls {
    * Fetch a subreddit.
    *
    * @param subreddit The name of the subreddit to fetch.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves to the requested subreddit.
    */
-  async fetch(subreddit: string): Promise<Subreddit> {
-    const raw: RedditObject = await this.gateway.get(`r/${subreddit}/about`);
+  @scopes("read")
+  async fetch(
+    subreddit: string,
+    options: RequestOptions = {}
+  ): Promise<Subreddit> {
+    const raw: RedditObject = await this.gateway.get(
+      `r/${subreddit}/about`,
+      {},
+      options
+    );
     return this.fromRaw(raw);
   }
 
+  /**
+   * Fetch many subreddits at once.
+   *
+   * This asks for up to 100 subreddits per request, which is much faster than
+   * calling {@link fetch} for each of them.
+   *
+   * @param subreddits The names of the subreddits to fetch.
+   * @param options The options to cancel the request with.
+   *
+   * @returns A promise that resolves to the subreddits that were found (in the
+   * same order as `subreddits`), and the names of the ones that weren't.
+   */
+  @scopes("read")
+  async fetchMany(
+    subreddits: string[],
+    options: RequestOptions = {}
+  ): Promise<FetchManyResult<Subreddit>> {
+    const found = await fetchInfo(this.gateway, "sr_name", subreddits, options);
+    return collectInfo(
+      subreddits,
+      name => found.get(name.toLowerCase()),
+      raw => this.fromRaw(raw)
+    );
+  }
+
   /**
    * Accept a moderator invite.
    *
    * @param subreddit The name of the subreddit to accept the invite for.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the invite has been accepted.
    */
-  async acceptModeratorInvite(subreddit: string): Promise<void> {
-    await this.gateway.post(`r/${subreddit}/api/accept_moderator_invite`, {});
+  @scopes("modself")
+  async acceptModeratorInvite(
+    subreddit: string,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    await this.gateway.post(
+      `r/${subreddit}/api/accept_moderator_invite`,
+      {},
+      {},
+      options
+    );
   }
 
   /**
@@ -146,11 +197,17 @@ export class SubredditControls extends BaseControls {
    *
    * @param subreddit The name of the subreddit to add the contributor to.
    * @param username The username of the user to add.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the contributor has been added.
    */
-  async addContributor(subreddit: string, username: string): Promise<void> {
-    await this.friend(subreddit, username, "contributor");
+  @scopes("modcontributors")
+  async addContributor(
+    subreddit: string,
+    username: string,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    await this.friend(subreddit, username, "contributor", {}, options);
   }
 
   /**
@@ -158,16 +215,31 @@ export class SubredditControls extends BaseControls {
    *
    * @param subreddit The name of the subreddit to remove the contributor from.
    * @param username The username of the user to remove.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the contributor has been removed.
    */
-  async removeContributor(subreddit: string, username: string): Promise<void> {
-    await this.unfriend(subreddit, username, "contributor");
+  @scopes("modcontributors")
+  async removeContributor(
+    subreddit: string,
+    username: string,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    await this.unfriend(subreddit, username, "contributor", {}, options);
   }
 
   /** @internal */
-  async leaveContributor(subredditId: string): Promise<void> {
-    await this.gateway.post("api/leavecontributor", { id: subredditId });
+  @scopes("modself")
+  async leaveContributor(
+    subredditId: string,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    await this.gateway.post(
+      "api/leavecontributor",
+      { id: subredditId },
+      {},
+      options
+    );
   }
 
   /**
@@ -177,14 +249,18 @@ export class SubredditControls extends BaseControls {
    * first 1000 contributors.
    *
    * @param subreddit The name of the subreddit to get contributors for.
+   * @param options The options for the listing.
    *
    * @returns A listing of approved contributors.
    */
-  getContributors(subreddit: string): Listing<ModeratorActionedUser> {
-    return new ModeratorActionedUserListing(fakeListingAfter(""), {
-      request: { url: `r/${subreddit}/about/contributors`, query: {} },
-      client: this.client,
-    });
+  @scopes("read")
+  getContributors(
+    subreddit: string,
+    options: ListingOptions = {}
+  ): Listing<ModeratorActionedUser> {
+    const url = `r/${subreddit}/about/contributors`;
+    const context = listingContext(this.client, url, {}, options);
+    return new ModeratorActionedUserListing(fakeListingAfter(""), context);
   }
 
   /**
@@ -192,11 +268,17 @@ export class SubredditControls extends BaseControls {
    *
    * @param subreddit The name of the subreddit to add the user to.
    * @param username The username of the user to add.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the wiki editor has been added.
    */
-  async addWikiContributor(subreddit: string, username: string): Promise<void> {
-    await this.friend(subreddit, username, "wikicontributor");
+  @scopes("modwiki")
+  async addWikiContributor(
+    subreddit: string,
+    username: string,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    await this.friend(subreddit, username, "wikicontributor", {}, options);
   }
 
   /**
@@ -204,14 +286,17 @@ export class SubredditControls extends BaseControls {
    *
    * @param subreddit The name of the subreddit to remove the user from.
    * @param username The username of the user to remove.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the wiki editor has been removed.
    */
+  @scopes("modwiki")
   async removeWikiContributor(
     subreddit: string,
-    username: string
+    username: string,
+    options: RequestOptions = {}
   ): Promise<void> {
-    await this.unfriend(subreddit, username, "wikicontributor");
+    await this.unfriend(subreddit, username, "wikicontributor", {}, options);
   }
 
   /**
@@ -221,14 +306,18 @@ export class SubredditControls extends BaseControls {
    * first 1000 wiki contributors.
    *
    * @param subreddit The name of the subreddit to get wiki contributors for.
+   * @param options The options for the listing.
    *
    * @returns A listing of approved wiki contributors.
    */
-  getWikiContributors(subreddit: string): Listing<ModeratorActionedUser> {
-    return new ModeratorActionedUserListing(fakeListingAfter(""), {
-      request: { url: `r/${subreddit}/about/wikicontributors`, query: {} },
-      client: this.client,
-    });
+  @scopes("read")
+  getWikiContributors(
+    subreddit: string,
+    options: ListingOptions = {}
+  ): Listing<ModeratorActionedUser> {
+    const url = `r/${subreddit}/about/wikicontributors`;
+    const context = listingContext(this.client, url, {}, options);
+    return new ModeratorActionedUserListing(fakeListingAfter(""), context);
   }
 
   /**
@@ -237,13 +326,16 @@ export class SubredditControls extends BaseControls {
    * @param subreddit The name of the subreddit to ban the user from.
    * @param username The username of the user to ban.
    * @param options Any additional options for the ban.
+   * @param requestOptions The options to cancel the request with.
    *
    * @returns A promise that resolves when the user has been banned.
    */
+  @scopes("modcontributors")
   async banUser(
     subreddit: string,
     username: string,
-    options: BanOptions = {}
+    options: BanOptions = {},
+    requestOptions: RequestOptions = {}
   ): Promise<void> {
     const friendOptions: Query = {};
     if (options.duration != undefined)
@@ -253,7 +345,13 @@ export class SubredditControls extends BaseControls {
     if (options.note != undefined) friendOptions.note = options.note;
     if (options.reason != undefined) friendOptions.ban_reason = options.reason;
 
-    await this.friend(subreddit, username, "banned", friendOptions);
+    await this.friend(
+      subreddit,
+      username,
+      "banned",
+      friendOptions,
+      requestOptions
+    );
   }
 
   /**
@@ -261,11 +359,17 @@ export class SubredditControls extends BaseControls {
    *
    * @param subreddit The name of the subreddit to unban the user from.
    * @param username The username of the user to unban.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the user has been unbanned.
    */
-  async unbanUser(subreddit: string, username: string): Promise<void> {
-    await this.unfriend(subreddit, username, "banned");
+  @scopes("modcontributors")
+  async unbanUser(
+    subreddit: string,
+    username: string,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    await this.unfriend(subreddit, username, "banned", {}, options);
   }
 
   /**
@@ -275,14 +379,18 @@ export class SubredditControls extends BaseControls {
    * first 1000 banned users.
    *
    * @param subreddit The name of the subreddit to get banned users for.
+   * @param options The options for the listing.
    *
    * @returns A listing of banned users.
    */
-  getBannedUsers(subreddit: string): Listing<BannedUser> {
-    return new BannedUserListing(fakeListingAfter(""), {
-      request: { url: `r/${subreddit}/about/banned`, query: {} },
-      client: this.client,
-    });
+  @scopes("read")
+  getBannedUsers(
+    subreddit: string,
+    options: ListingOptions = {}
+  ): Listing<BannedUser> {
+    const url = `r/${subreddit}/about/banned`;
+    const context = listingContext(this.client, url, {}, options);
+    return new BannedUserListing(fakeListingAfter(""), context);
   }
 
   /**
@@ -292,9 +400,15 @@ export class SubredditControls extends BaseControls {
    *
    * @param subreddit The name of the subreddit to mute the user in.
    * @param username The username of the user to mute.
+   * @param options The options to cancel the request with.
    */
-  async muteUser(subreddit: string, username: string): Promise<void> {
-    await this.friend(subreddit, username, "muted");
+  @scopes("modcontributors")
+  async muteUser(
+    subreddit: string,
+    username: string,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    await this.friend(subreddit, username, "muted", {}, options);
   }
 
   /**
@@ -302,9 +416,15 @@ export class SubredditControls extends BaseControls {
    *
    * @param subreddit The name of the subreddit to unmute the user in.
    * @param username The username of the user to unmute.
+   * @param options The options to cancel the request with.
    */
-  async unmuteUser(subreddit: string, username: string): Promise<void> {
-    await this.unfriend(subreddit, username, "muted");
+  @scopes("modcontributors")
+  async unmuteUser(
+    subreddit: string,
+    username: string,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    await this.unfriend(subreddit, username, "muted", {}, options);
   }
 
   /**
@@ -314,14 +434,18 @@ export class SubredditControls extends BaseControls {
    * first 1000 muted users.
    *
    * @param subreddit The name of the subreddit to get muted users for.
+   * @param options The options for the listing.
    *
    * @returns A listing of muted users.
    */
-  getMutedUsers(subreddit: string): Listing<ModeratorActionedUser> {
-    return new ModeratorActionedUserListing(fakeListingAfter(""), {
-      request: { url: `r/${subreddit}/about/muted`, query: {} },
-      client: this.client,
-    });
+  @scopes("read")
+  getMutedUsers(
+    subreddit: string,
+    options: ListingOptions = {}
+  ): Listing<ModeratorActionedUser> {
+    const url = `r/${subreddit}/about/muted`;
+    const context = listingContext(this.client, url, {}, options);
+    return new ModeratorActionedUserListing(fakeListingAfter(""), context);
   }
 
   /**
@@ -329,9 +453,15 @@ export class SubredditControls extends BaseControls {
    *
    * @param subreddit The name of the subreddit to wikiban the user in.
    * @param username The username of the user to wikiban.
+   * @param options The options to cancel the request with.
    */
-  async wikibanUser(subreddit: string, username: string): Promise<void> {
-    await this.friend(subreddit, username, "wikibanned");
+  @scopes("modwiki")
+  async wikibanUser(
+    subreddit: string,
+    username: string,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    await this.friend(subreddit, username, "wikibanned", {}, options);
   }
 
   /**
@@ -339,9 +469,15 @@ export class SubredditControls extends BaseControls {
    *
    * @param subreddit The name of the subreddit to wikiban the user in.
    * @param username The username of the user to wikiban.
+   * @param options The options to cancel the request with.
    */
-  async unwikibanUser(subreddit: string, username: string): Promise<void> {
-    await this.unfriend(subreddit, username, "wikibanned");
+  @scopes("modwiki")
+  async unwikibanUser(
+    subreddit: string,
+    username: string,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    await this.unfriend(subreddit, username, "wikibanned", {}, options);
   }
 
   /**
@@ -351,26 +487,37 @@ export class SubredditControls extends BaseControls {
    * first 1000 wikibanned users.
    *
    * @param subreddit The name of the subreddit to get wikibanned users for.
+   * @param options The options for the listing.
    *
    * @returns A listing of wikibanned users.
    */
-  getWikibannedUsers(subreddit: string): Listing<BannedUser> {
-    return new BannedUserListing(fakeListingAfter(""), {
-      request: { url: `r/${subreddit}/about/wikibanned`, query: {} },
-      client: this.client,
-    });
+  @scopes("read")
+  getWikibannedUsers(
+    subreddit: string,
+    options: ListingOptions = {}
+  ): Listing<BannedUser> {
+    const url = `r/${subreddit}/about/wikibanned`;
+    const context = listingContext(this.client, url, {}, options);
+    return new BannedUserListing(fakeListingAfter(""), context);
   }
 
   /**
    * Get the list of moderators for a subreddit.
    *
    * @param subreddit The name of the subreddit to get moderators for.
+   * @param options The options to cancel the request with.
    *
    * @returns A listing of moderators.
    */
-  async getModerators(subreddit: string): Promise<Moderator[]> {
+  @scopes("read")
+  async getModerators(
+    subreddit: string,
+    options: RequestOptions = {}
+  ): Promise<Moderator[]> {
     const result = await this.gateway.get<RedditObject>(
-      `r/${subreddit}/about/moderators`
+      `r/${subreddit}/about/moderators`,
+      {},
+      options
     );
     assertKind("UserList", result);
     const moderators = result.data.children as Data[];
@@ -381,14 +528,16 @@ export class SubredditControls extends BaseControls {
   protected getSortedPosts(
     subreddit: string | undefined,
     sort: PostSort,
-    options: Query = {}
+    query: Query = {},
+    options: ListingOptions = {}
   ): Listing<Post> {
     const url = subreddit ? `r/${subreddit}/` : "";
-    const request = {
-      url: `${url}${sort}`,
-      query: { show: "all", ...options },
-    };
-    const context = { request, client: this.client };
+    const context = listingContext(
+      this.client,
+      `${url}${sort}`,
+      { show: "all", ...query },
+      options
+    );
     return new PostListing(fakeListingAfter(""), context);
   }
 
@@ -400,11 +549,13 @@ export class SubredditControls extends BaseControls {
    *
    * @param subreddit The name of the subreddit. If this is left off it will
    * query the front page of Reddit.
+   * @param options The options for the listing.
    *
    * @returns A listing of posts, with the newest ones first.
    */
-  getNewPosts(subreddit?: string): Listing<Post> {
-    return this.getSortedPosts(subreddit, "new");
+  @scopes("read")
+  getNewPosts(subreddit?: string, options: ListingOptions = {}): Listing<Post> {
+    return this.getSortedPosts(subreddit, "new", {}, options);
   }
 
   /**
@@ -415,12 +566,19 @@ export class SubredditControls extends BaseControls {
    *
    * @param subreddit The name of the subreddit. If this is left off it will
    * query the front page of Reddit.
-   * @param time The time scale to filter by.
+   * @param time The time scale to filter by. Defaults to `options.time`, or
+   * `"all"` if that isn't set either.
+   * @param options The options for the listing.
    *
    * @returns A listing of posts, with the top rated ones first.
    */
-  getTopPosts(subreddit?: string, time: TimeRange = "all"): Listing<Post> {
-    return this.getSortedPosts(subreddit, "top", { t: time });
+  @scopes("read")
+  getTopPosts(
+    subreddit?: string,
+    time?: TimeRange,
+    options: ListingOptions = {}
+  ): Listing<Post> {
+    return this.getSortedPosts(subreddit, "top", {}, withTime(options, time));
   }
 
   /**
@@ -431,11 +589,13 @@ export class SubredditControls extends BaseControls {
    *
    * @param subreddit The name of the subreddit. If this is left off it will
    * query the front page of Reddit.
+   * @param options The options for the listing.
    *
    * @returns A listing of posts, with the hottest ones first.
    */
-  getHotPosts(subreddit?: string): Listing<Post> {
-    return this.getSortedPosts(subreddit, "hot");
+  @scopes("read")
+  getHotPosts(subreddit?: string, options: ListingOptions = {}): Listing<Post> {
+    return this.getSortedPosts(subreddit, "hot", {}, options);
   }
 
   /**
@@ -446,11 +606,16 @@ export class SubredditControls extends BaseControls {
    *
    * @param subreddit The name of the subreddit. If this is left off it will
    * query the front page of Reddit.
+   * @param options The options for the listing.
    *
    * @returns A listing of posts, with the rising ones first.
    */
-  getRisingPosts(subreddit?: string): Listing<Post> {
-    return this.getSortedPosts(subreddit, "hot");
+  @scopes("read")
+  getRisingPosts(
+    subreddit?: string,
+    options: ListingOptions = {}
+  ): Listing<Post> {
+    return this.getSortedPosts(subreddit, "hot", {}, options);
   }
 
   /**
@@ -461,25 +626,38 @@ export class SubredditControls extends BaseControls {
    *
    * @param subreddit The name of the subreddit. If this is left off it will
    * query the front page of Reddit.
-   * @param time The time scale to filter by.
+   * @param time The time scale to filter by. Defaults to `options.time`, or
+   * `"all"` if that isn't set either.
+   * @param options The options for the listing.
    *
    * @returns A listing of posts, with the most controversial ones first.
    */
+  @scopes("read")
   getControversialPosts(
     subreddit?: string,
-    time: TimeRange = "all"
+    time?: TimeRange,
+    options: ListingOptions = {}
   ): Listing<Post> {
-    return this.getSortedPosts(subreddit, "controversial", { t: time });
+    return this.getSortedPosts(
+      subreddit,
+      "controversial",
+      {},
+      withTime(options, time)
+    );
   }
 
   /** @internal */
-  protected getSubreddits(where: string): Listing<Subreddit> {
-    const request = {
-      url: `subreddits/${where}`,
+  protected getSubreddits(
+    where: string,
+    options: ListingOptions = {}
+  ): Listing<Subreddit> {
+    const context = listingContext(
+      this.client,
+      `subreddits/${where}`,
       // eslint-disable-next-line @typescript-eslint/naming-convention
-      query: { show: "all", sr_detail: true },
-    };
-    const context = { request, client: this.client };
+      { show: "all", sr_detail: true },
+      options
+    );
     return new SubredditListing(fakeListingAfter(""), context);
   }
 
@@ -489,10 +667,13 @@ export class SubredditControls extends BaseControls {
    * @note Due to the way Reddit implements Listings, this will only contain the
    * first 1000 subreddits.
    *
+   * @param options The options for the listing.
+   *
    * @returns A Listing of Subreddits.
    */
-  getDefault(): Listing<Subreddit> {
-    return this.getSubreddits("default");
+  @scopes("read")
+  getDefault(options: ListingOptions = {}): Listing<Subreddit> {
+    return this.getSubreddits("default", options);
   }
 
   /**
@@ -501,10 +682,13 @@ export class SubredditControls extends BaseControls {
    * @note Due to the way Reddit implements Listings, this will only contain the
    * first 1000 subreddits.
    *
+   * @param options The options for the listing.
+   *
    * @returns A Listing of Subreddits.
    */
-  getNew(): Listing<Subreddit> {
-    return this.getSubreddits("new");
+  @scopes("read")
+  getNew(options: ListingOptions = {}): Listing<Subreddit> {
+    return this.getSubreddits("new", options);
   }
 
   /**
@@ -513,10 +697,13 @@ export class SubredditControls extends BaseControls {
    * @note Due to the way Reddit implements Listings, this will only contain the
    * first 1000 subreddits.
    *
+   * @param options The options for the listing.
+   *
    * @returns A Listing of Subreddits.
    */
-  getPopular(): Listing<Subreddit> {
-    return this.getSubreddits("popular");
+  @scopes("read")
+  getPopular(options: ListingOptions = {}): Listing<Subreddit> {
+    return this.getSubreddits("popular", options);
   }
 
   /**
@@ -525,45 +712,55 @@ export class SubredditControls extends BaseControls {
    * @note Due to the way Reddit implements Listings, this will only contain the
    * first 1000 subreddits.
    *
+   * @param options The options for the listing.
+   *
    * @returns A Listing of Subreddits.
    */
-  getPremium(): Listing<Subreddit> {
-    return this.getSubreddits("premium");
+  @scopes("read")
+  getPremium(options: ListingOptions = {}): Listing<Subreddit> {
+    return this.getSubreddits("premium", options);
   }
 
   /** @internal */
   protected getAboutListing(
     subreddit: string,
-    type: string
+    type: string,
+    options: ListingOptions = {}
   ): Listing<Comment | Post> {
-    const request = { url: `r/${subreddit}/about/${type}`, query: {} };
-    const context = { request, client: this.client };
+    const url = `r/${subreddit}/about/${type}`;
+    const context = listingContext(this.client, url, {}, options);
     return new PostOrCommentListing(fakeListingAfter(""), context);
   }
 
   /** @internal */
   protected getAboutListingComments(
     subreddit: string,
-    type: string
+    type: string,
+    options: ListingOptions = {}
   ): Listing<Comment> {
-    const request = {
-      url: `r/${subreddit}/about/${type}`,
-      query: { only: "comments" },
-    };
-    const context = { request, client: this.client };
+    const url = `r/${subreddit}/about/${type}`;
+    const context = listingContext(
+      this.client,
+      url,
+      { only: "comments" },
+      options
+    );
     return new CommentListing(fakeListingAfter(""), context);
   }
 
   /** @internal */
   protected getAboutListingPosts(
     subreddit: string,
-    type: string
+    type: string,
+    options: ListingOptions = {}
   ): Listing<Post> {
-    const request = {
-      url: `r/${subreddit}/about/${type}`,
-      query: { only: "links" },
-    };
-    const context = { request, client: this.client };
+    const url = `r/${subreddit}/about/${type}`;
+    const context = listingContext(
+      this.client,
+      url,
+      { only: "links" },
+      options
+    );
     return new PostListing(fakeListingAfter(""), context);
   }
 
@@ -571,165 +768,237 @@ export class SubredditControls extends BaseControls {
    * Get the list of items that have been removed from a subreddit.
    *
    * @param subreddit The name of the subreddit.
+   * @param options The options for the listing.
    *
    * @returns A listing of items that have been removed.
    */
-  getSpam(subreddit: string): Listing<Post | Comment> {
-    return this.getAboutListing(subreddit, "spam");
+  @scopes("read")
+  getSpam(
+    subreddit: string,
+    options: ListingOptions = {}
+  ): Listing<Post | Comment> {
+    return this.getAboutListing(subreddit, "spam", options);
   }
 
   /**
    * Get the list of comments that have been removed from a subreddit.
    *
    * @param subreddit The name of the subreddit.
+   * @param options The options for the listing.
    *
    * @returns A listing of comments that have been removed.
    */
-  getSpamComments(subreddit: string): Listing<Comment> {
-    return this.getAboutListingComments(subreddit, "spam");
+  @scopes("read")
+  getSpamComments(
+    subreddit: string,
+    options: ListingOptions = {}
+  ): Listing<Comment> {
+    return this.getAboutListingComments(subreddit, "spam", options);
   }
 
   /**
    * Get the list of posts that have been removed from a subreddit.
    *
    * @param subreddit The name of the subreddit.
+   * @param options The options for the listing.
    *
    * @returns A listing of posts that have been removed.
    */
-  getSpamPosts(subreddit: string): Listing<Post> {
-    return this.getAboutListingPosts(subreddit, "spam");
+  @scopes("read")
+  getSpamPosts(subreddit: string, options: ListingOptions = {}): Listing<Post> {
+    return this.getAboutListingPosts(subreddit, "spam", options);
   }
 
   /**
    * Get the list of items that have been edited from a subreddit.
    *
    * @param subreddit The name of the subreddit.
+   * @param options The options for the listing.
    *
    * @returns A listing of items that have been edited.
    */
-  getEdited(subreddit: string): Listing<Post | Comment> {
-    return this.getAboutListing(subreddit, "edited");
+  @scopes("read")
+  getEdited(
+    subreddit: string,
+    options: ListingOptions = {}
+  ): Listing<Post | Comment> {
+    return this.getAboutListing(subreddit, "edited", options);
   }
 
   /**
    * Get the list of comments that have been edited from a subreddit.
    *
    * @param subreddit The name of the subreddit.
+   * @param options The options for the listing.
    *
    * @returns A listing of comments that have been edited.
    */
-  getEditedComments(subreddit: string): Listing<Comment> {
-    return this.getAboutListingComments(subreddit, "edited");
+  @scopes("read")
+  getEditedComments(
+    subreddit: string,
+    options: ListingOptions = {}
+  ): Listing<Comment> {
+    return this.getAboutListingComments(subreddit, "edited", options);
   }
 
   /**
    * Get the list of posts that have been edited from a subreddit.
    *
    * @param subreddit The name of the subreddit.
+   * @param options The options for the listing.
    *
    * @returns A listing of posts that have been edited.
    */
-  getEditedPosts(subreddit: string): Listing<Post> {
-    return this.getAboutListingPosts(subreddit, "edited");
+  @scopes("read")
+  getEditedPosts(
+    subreddit: string,
+    options: ListingOptions = {}
+  ): Listing<Post> {
+    return this.getAboutListingPosts(subreddit, "edited", options);
   }
 
   /**
    * Get the list of items that have been reported from a subreddit.
    *
    * @param subreddit The name of the subreddit.
+   * @param options The options for the listing.
    *
    * @returns A listing of items that have been reported.
    */
-  getReported(subreddit: string): Listing<Post | Comment> {
-    return this.getAboutListing(subreddit, "reports");
+  @scopes("read")
+  getReported(
+    subreddit: string,
+    options: ListingOptions = {}
+  ): Listing<Post | Comment> {
+    return this.getAboutListing(subreddit, "reports", options);
   }
 
   /**
    * Get the list of comments that have been reported from a subreddit.
    *
    * @param subreddit The name of the subreddit.
+   * @param options The options for the listing.
    *
    * @returns A listing of comments that have been reported.
    */
-  getReportedComments(subreddit: string): Listing<Comment> {
-    return this.getAboutListingComments(subreddit, "reports");
+  @scopes("read")
+  getReportedComments(
+    subreddit: string,
+    options: ListingOptions = {}
+  ): Listing<Comment> {
+    return this.getAboutListingComments(subreddit, "reports", options);
   }
 
   /**
    * Get the list of posts that have been reported from a subreddit.
    *
    * @param subreddit The name of the subreddit.
+   * @param options The options for the listing.
    *
    * @returns A listing of posts that have been reported.
    */
-  getReportedPosts(subreddit: string): Listing<Post> {
-    return this.getAboutListingPosts(subreddit, "reports");
+  @scopes("read")
+  getReportedPosts(
+    subreddit: string,
+    options: ListingOptions = {}
+  ): Listing<Post> {
+    return this.getAboutListingPosts(subreddit, "reports", options);
   }
 
   /**
    * Get the list of items that have not been moderated from a subreddit.
    *
    * @param subreddit The name of the subreddit.
+   * @param options The options for the listing.
    *
    * @returns A listing of items that have not been moderated.
    */
-  getUnmoderated(subreddit: string): Listing<Post | Comment> {
-    return this.getAboutListing(subreddit, "unmoderated");
+  @scopes("read")
+  getUnmoderated(
+    subreddit: string,
+    options: ListingOptions = {}
+  ): Listing<Post | Comment> {
+    return this.getAboutListing(subreddit, "unmoderated", options);
   }
 
   /**
    * Get the list of comments that have not been moderated from a subreddit.
    *
    * @param subreddit The name of the subreddit.
+   * @param options The options for the listing.
    *
    * @returns A listing of comments that have not been moderated.
    */
-  getUnmoderatedComments(subreddit: string): Listing<Comment> {
-    return this.getAboutListingComments(subreddit, "unmoderated");
+  @scopes("read")
+  getUnmoderatedComments(
+    subreddit: string,
+    options: ListingOptions = {}
+  ): Listing<Comment> {
+    return this.getAboutListingComments(subreddit, "unmoderated", options);
   }
 
   /**
    * Get the list of posts that have not been moderated from a subreddit.
    *
    * @param subreddit The name of the subreddit.
+   * @param options The options for the listing.
    *
    * @returns A listing of posts that have not been moderated.
    */
-  getUnmoderatedPosts(subreddit: string): Listing<Post> {
-    return this.getAboutListingPosts(subreddit, "unmoderated");
+  @scopes("read")
+  getUnmoderatedPosts(
+    subreddit: string,
+    options: ListingOptions = {}
+  ): Listing<Post> {
+    return this.getAboutListingPosts(subreddit, "unmoderated", options);
   }
 
   /**
    * Get the list of items that are in the modqueue of a subreddit.
    *
    * @param subreddit The name of the subreddit.
+   * @param options The options for the listing.
    *
    * @returns A listing of items that are in the modqueue.
    */
-  getModqueue(subreddit: string): Listing<Post | Comment> {
-    return this.getAboutListing(subreddit, "modqueue");
+  @scopes("read")
+  getModqueue(
+    subreddit: string,
+    options: ListingOptions = {}
+  ): Listing<Post | Comment> {
+    return this.getAboutListing(subreddit, "modqueue", options);
   }
 
   /**
    * Get the list of comments that are in the modqueue of a subreddit.
    *
    * @param subreddit The name of the subreddit.
+   * @param options The options for the listing.
    *
    * @returns A listing of comments that are in the modqueue.
    */
-  getModqueueComments(subreddit: string): Listing<Comment> {
-    return this.getAboutListingComments(subreddit, "modqueue");
+  @scopes("read")
+  getModqueueComments(
+    subreddit: string,
+    options: ListingOptions = {}
+  ): Listing<Comment> {
+    return this.getAboutListingComments(subreddit, "modqueue", options);
   }
 
   /**
    * Get the list of posts that are in the modqueue of a subreddit.
    *
    * @param subreddit The name of the subreddit.
+   * @param options The options for the listing.
    *
    * @returns A listing of posts that are in the modqueue.
    */
-  getModqueuePosts(subreddit: string): Listing<Post> {
-    return this.getAboutListingPosts(subreddit, "modqueue");
+  @scopes("read")
+  getModqueuePosts(
+    subreddit: string,
+    options: ListingOptions = {}
+  ): Listing<Post> {
+    return this.getAboutListingPosts(subreddit, "modqueue", options);
   }
 
   /**
@@ -737,22 +1006,31 @@ export class SubredditControls extends BaseControls {
    *
    * @param subreddit The name of the subreddit. If this is left off it will
    * query the front page of Reddit.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves to a random post ID.
    */
-  async getRandomPostId(subreddit?: string): Promise<string> {
+  @scopes("read")
+  async getRandomPostId(
+    subreddit?: string,
+    options: RequestOptions = {}
+  ): Promise<string> {
     const base = subreddit ? `r/${subreddit}/` : "";
 
     // Reddit implemented '/random' by redirecting (302) to a random post.
     const postInfo: RedditObject<{ location: string }> = await this.gateway.get(
-      `${base}random`
+      `${base}random`,
+      {},
+      options
     );
     assertKind("snoots_redirect", postInfo);
 
     // Extract the post ID from the redirect URI.
     const postUrl = postInfo.data.location;
     const match = randomRedirectPattern.exec(postUrl);
-    if (!match) throw new Error(`Invalid redirect URI '${postUrl}'`);
+    if (!match) {
+      throw new UnexpectedResponseError(`Invalid redirect URI '${postUrl}'`);
+    }
     return match[1];
   }
 
@@ -764,20 +1042,32 @@ export class SubredditControls extends BaseControls {
    *
    * @param subreddit The subreddit to search in.
    * @param query The search query.
-   * @param time The time range to search in.
+   * @param time The time range to search in. Defaults to `options.time`, or
+   * `"all"` if that isn't set either.
    * @param sort The way to sort the search results.
    * @param syntax The search syntax to use.
+   * @param options The options for the listing.
    *
    * @returns A listing of posts.
    */
+  @scopes("read")
   search(
     subreddit: string,
     query: string,
-    time: TimeRange = "all",
+    time?: TimeRange,
     sort: SearchSort = "relevance",
-    syntax: SearchSyntax = "plain"
+    syntax: SearchSyntax = "plain",
+    options: ListingOptions = {}
   ): Listing<Post> {
-    return this.client.posts.search(query, subreddit, time, sort, syntax, true);
+    return this.client.posts.search(
+      query,
+      subreddit,
+      time,
+      sort,
+      syntax,
+      true,
+      options
+    );
   }
 
   /**
@@ -789,14 +1079,24 @@ export class SubredditControls extends BaseControls {
    * @param subreddit The subreddit to get comments from. If this is not
    * provided comments will be fetched from the front page of Reddit.
    * @param sort How to sort the comments.
+   * @param options The options for the listing.
    *
    * @returns A sorted Listing of comments.
    */
   // TODO: allow other sorting?
-  getSortedComments(subreddit: string, sort: "new" = "new"): Listing<Comment> {
+  @scopes("read")
+  getSortedComments(
+    subreddit: string,
+    sort: "new" = "new",
+    options: ListingOptions = {}
+  ): Listing<Comment> {
     const url = subreddit ? `r/${subreddit}/` : "";
-    const request = { url: `${url}comments`, query: { sort } };
-    const context = { request, client: this.client };
+    const context = listingContext(
+      this.client,
+      `${url}comments`,
+      { sort },
+      options
+    );
     return new CommentListing(fakeListingAfter(""), context);
   }
 
@@ -807,25 +1107,32 @@ export class SubredditControls extends BaseControls {
    * @param title The title of the post.
    * @param body The body of the post.
    * @param options Any extra options.
+   * @param requestOptions The options to cancel the request with.
    *
    * @returns A promise that resolves to the ID of the new post.
    */
+  @scopes("submit")
   async postText(
     subreddit: string,
     title: string,
     body?: string,
-    options: TextPostOptions = {}
+    options: TextPostOptions = {},
+    requestOptions: RequestOptions = {}
   ): Promise<string> {
-    return this.post(subreddit, {
-      kind: "self",
-      title,
-      text: body,
-      sendReplies: options.sendReplies ?? false,
-      resubmit: true,
-      captcha: options.captcha,
-      nsfw: options.nsfw ?? false,
-      spoiler: options.spoiler ?? false,
-    });
+    return this.post(
+      subreddit,
+      {
+        kind: "self",
+        title,
+        text: body,
+        sendReplies: options.sendReplies ?? false,
+        resubmit: true,
+        captcha: options.captcha,
+        nsfw: options.nsfw ?? false,
+        spoiler: options.spoiler ?? false,
+      },
+      requestOptions
+    );
   }
 
   /**
@@ -835,25 +1142,32 @@ export class SubredditControls extends BaseControls {
    * @param title The title of the post.
    * @param url The url to link to.
    * @param options Any extra options.
+   * @param requestOptions The options to cancel the request with.
    *
    * @returns A promise that resolves to the ID of the new post.
    */
+  @scopes("submit")
   async postLink(
     subreddit: string,
     title: string,
     url: string,
-    options: LinkPostOptions = {}
+    options: LinkPostOptions = {},
+    requestOptions: RequestOptions = {}
   ): Promise<string> {
-    return this.post(subreddit, {
-      kind: "link",
-      title,
-      url,
-      sendReplies: options.sendReplies ?? false,
-      resubmit: !options.unique,
-      captcha: options.captcha,
-      nsfw: options.nsfw ?? false,
-      spoiler: options.spoiler ?? false,
-    });
+    return this.post(
+      subreddit,
+      {
+        kind: "link",
+        title,
+        url,
+        sendReplies: options.sendReplies ?? false,
+        resubmit: !options.unique,
+        captcha: options.captcha,
+        nsfw: options.nsfw ?? false,
+        spoiler: options.spoiler ?? false,
+      },
+      requestOptions
+    );
   }
 
   /**
@@ -863,31 +1177,39 @@ export class SubredditControls extends BaseControls {
    * @param title The title of the post.
    * @param postID The ID of the post to crosspost.
    * @param options Any extra options.
+   * @param requestOptions The options to cancel the request with.
    *
    * @returns A promise that resolves to the ID of the new post.
    */
+  @scopes("submit")
   async postCrosspost(
     subreddit: string,
     title: string,
     postID: string,
-    options: LinkPostOptions = {}
+    options: LinkPostOptions = {},
+    requestOptions: RequestOptions = {}
   ): Promise<string> {
-    return this.post(subreddit, {
-      kind: "crosspost",
-      title,
-      crosspostFullname: `t3_${postID}`,
-      sendReplies: options.sendReplies ?? false,
-      resubmit: !options.unique,
-      captcha: options.captcha,
-      nsfw: options.nsfw ?? false,
-      spoiler: options.spoiler ?? false,
-    });
+    return this.post(
+      subreddit,
+      {
+        kind: "crosspost",
+        title,
+        crosspostFullname: `t3_${postID}`,
+        sendReplies: options.sendReplies ?? false,
+        resubmit: !options.unique,
+        captcha: options.captcha,
+        nsfw: options.nsfw ?? false,
+        spoiler: options.spoiler ?? false,
+      },
+      requestOptions
+    );
   }
 
   // TODO: Support 'oc' and flairs.
   protected async post(
     subreddit: string,
-    options: PostOptions
+    options: PostOptions,
+    requestOptions: RequestOptions = {}
   ): Promise<string> {
     const request: Data = {
       sr: subreddit,
@@ -908,7 +1230,12 @@ export class SubredditControls extends BaseControls {
       request.iden = options.captcha.iden;
     }
 
-    const submitResponse: Data = await this.gateway.post("api/submit", request);
+    const submitResponse: Data = await this.gateway.post(
+      "api/submit",
+      request,
+      {},
+      requestOptions
+    );
     return submitResponse.id as string;
   }
 
@@ -917,13 +1244,19 @@ export class SubredditControls extends BaseControls {
     subreddit: string,
     username: string,
     type: string,
-    options: Query = {}
+    options: Query = {},
+    requestOptions: RequestOptions = {}
   ) {
-    await this.gateway.post(`r/${subreddit}/api/friend`, {
-      ...options,
-      name: username,
-      type,
-    });
+    await this.gateway.post(
+      `r/${subreddit}/api/friend`,
+      {
+        ...options,
+        name: username,
+        type,
+      },
+      {},
+      requestOptions
+    );
   }
 
   /** @internal */
@@ -931,13 +1264,19 @@ export class SubredditControls extends BaseControls {
     subreddit: string,
     username: string,
     type: string,
-    options: Query = {}
+    options: Query = {},
+    requestOptions: RequestOptions = {}
   ) {
-    await this.gateway.post(`r/${subreddit}/api/unfriend`, {
-      ...options,
-      name: username,
-      type,
-    });
+    await this.gateway.post(
+      `r/${subreddit}/api/unfriend`,
+      {
+        ...options,
+        name: username,
+        type,
+      },
+      {},
+      requestOptions
+    );
   }
 
   /** @internal */
@@ -1,26 +1,35 @@
+import type { RequestOptions } from "../../gateway/abort";
 import type {
   Fetcher,
   ListingContext,
+  ListingType,
   RedditObjectListing,
 } from "../listing/listing";
 import type { Subreddit } from "./object";
 
-import { Listing, Pager } from "../listing/listing";
+import { continueFrom, Listing, Pager } from "../listing/listing";
 
 class SubredditPager extends Pager<Subreddit> {
-  async fetch(context: ListingContext): Promise<SubredditListing> {
-    const pg = await this.nextPage(context);
+  async fetch(
+    context: ListingContext,
+    options: RequestOptions = {},
+    seen = 0
+  ): Promise<SubredditListing> {
+    const pg = await this.nextPage(context, options, seen);
     return new SubredditListing(pg, context);
   }
 }
 
 /** @internal */
 export class SubredditListing extends Listing<Subreddit> {
+  protected override type: ListingType = "subreddits";
+
   constructor(l: RedditObjectListing, context: ListingContext) {
     let fetcher: Fetcher<Subreddit> | undefined;
 
-    if (l.after != undefined) {
-      fetcher = new SubredditPager(l.after);
+    const from = continueFrom(l, context);
+    if (from != undefined) {
+      fetcher = new SubredditPager(from, context.backward);
     }
 
     const subreddits: Subreddit[] = [];
@@ -2,6 +2,7 @@ import type { Maybe } from "../../helper/types";
 import type { Comment } from "../comment/object";
 import type { ContentData } from "../content";
 import type { Listing } from "../listing/listing";
+import type { ListingOptions } from "../listing/options";
 import type { Post } from "../post/object";
 import type { SearchSort, SearchSyntax, Size, TimeRange } from "../types";
 import type { BannedUser } from "../user/moderator-actioned/banned";
@@ -541,10 +542,12 @@ export class Subreddit extends Content implements SubredditData {
    * @note Due to the way Reddit implements Listings, this will only contain the
    * first 1000 posts.
    *
+   * @param options The options for the listing.
+   *
    * @returns A listing of posts, with the newest ones first.
    */
-  getNewPosts(): Listing<Post> {
-    return this.controls.getNewPosts(this.displayName);
+  getNewPosts(options: ListingOptions = {}): Listing<Post> {
+    return this.controls.getNewPosts(this.displayName, options);
   }
 
   /**
@@ -553,12 +556,14 @@ export class Subreddit extends Content implements SubredditData {
    * @note Due to the way Reddit implements Listings, this will only contain the
    * first 1000 posts.
    *
-   * @param time The time scale to filter by.
+   * @param time The time scale to filter by. Defaults to `options.time`, or
+   * `"all"` if that isn't set either.
+   * @param options The options for the listing.
    *
    * @returns A listing of posts, with the top rated ones first.
    */
-  getTopPosts(time: TimeRange = "all"): Listing<Post> {
-    return this.controls.getTopPosts(this.displayName, time);
+  getTopPosts(time?: TimeRange, options: ListingOptions = {}): Listing<Post> {
+    return this.controls.getTopPosts(this.displayName, time, options);
   }
 
   /**
@@ -567,10 +572,12 @@ export class Subreddit extends Content implements SubredditData {
    * @note Due to the way Reddit implements Listings, this will only contain the
    * first 1000 posts.
    *
+   * @param options The options for the listing.
+   *
    * @returns A listing of posts, with the hottest ones first.
    */
-  getHotPosts(): Listing<Post> {
-    return this.controls.getHotPosts(this.displayName);
+  getHotPosts(options: ListingOptions = {}): Listing<Post> {
+    return this.controls.getHotPosts(this.displayName, options);
   }
 
   /**
@@ -579,10 +586,12 @@ export class Subreddit extends Content implements SubredditData {
    * @note Due to the way Reddit implements Listings, this will only contain the
    * first 1000 posts.
    *
+   * @param options The options for the listing.
+   *
    * @returns A listing of posts, with the rising ones first.
    */
-  getRisingPosts(): Listing<Post> {
-    return this.controls.getRisingPosts(this.displayName);
+  getRisingPosts(options: ListingOptions = {}): Listing<Post> {
+    return this.controls.getRisingPosts(this.displayName, options);
   }
 
   /**
@@ -591,147 +600,182 @@ export class Subreddit extends Content implements SubredditData {
    * @note Due to the way Reddit implements Listings, this will only contain the
    * first 1000 posts.
    *
-   * @param time The time scale to filter by.
+   * @param time The time scale to filter by. Defaults to `options.time`, or
+   * `"all"` if that isn't set either.
+   * @param options The options for the listing.
    *
    * @returns A listing of posts, with the most controversial ones first.
    */
-  getControversialPosts(time: TimeRange = "all"): Listing<Post> {
-    return this.controls.getControversialPosts(this.displayName, time);
+  getControversialPosts(
+    time?: TimeRange,
+    options: ListingOptions = {}
+  ): Listing<Post> {
+    return this.controls.getControversialPosts(this.displayName, time, options);
   }
 
   /**
    * Get the list of items that have been removed from this subreddit.
    *
+   * @param options The options for the listing.
+   *
    * @returns A listing of items that have been removed.
    */
-  getSpam(): Listing<Post | Comment> {
-    return this.controls.getSpam(this.displayName);
+  getSpam(options: ListingOptions = {}): Listing<Post | Comment> {
+    return this.controls.getSpam(this.displayName, options);
   }
 
   /**
    * Get the list of comments that have been removed from this subreddit.
    *
+   * @param options The options for the listing.
+   *
    * @returns A listing of comments that have been removed.
    */
-  getSpamComments(): Listing<Comment> {
-    return this.controls.getSpamComments(this.displayName);
+  getSpamComments(options: ListingOptions = {}): Listing<Comment> {
+    return this.controls.getSpamComments(this.displayName, options);
   }
 
   /**
    * Get the list of posts that have been removed from this subreddit.
    *
+   * @param options The options for the listing.
+   *
    * @returns A listing of posts that have been removed.
    */
-  getSpamPosts(): Listing<Post> {
-    return this.controls.getSpamPosts(this.displayName);
+  getSpamPosts(options: ListingOptions = {}): Listing<Post> {
+    return this.controls.getSpamPosts(this.displayName, options);
   }
 
   /**
    * Get the list of items that have been edited from this subreddit.
    *
+   * @param options The options for the listing.
+   *
    * @returns A listing of items that have been edited.
    */
-  getEdited(): Listing<Post | Comment> {
-    return this.controls.getEdited(this.displayName);
+  getEdited(options: ListingOptions = {}): Listing<Post | Comment> {
+    return this.controls.getEdited(this.displayName, options);
   }
 
   /**
    * Get the list of comments that have been edited from this subreddit.
    *
+   * @param options The options for the listing.
+   *
    * @returns A listing of comments that have been edited.
    */
-  getEditedComments(): Listing<Comment> {
-    return this.controls.getEditedComments(this.displayName);
+  getEditedComments(options: ListingOptions = {}): Listing<Comment> {
+    return this.controls.getEditedComments(this.displayName, options);
   }
 
   /**
    * Get the list of posts that have been edited from this subreddit.
    *
+   * @param options The options for the listing.
+   *
    * @returns A listing of posts that have been edited.
    */
-  getEditedPosts(): Listing<Post> {
-    return this.controls.getEditedPosts(this.displayName);
+  getEditedPosts(options: ListingOptions = {}): Listing<Post> {
+    return this.controls.getEditedPosts(this.displayName, options);
   }
 
   /**
    * Get the list of items that have been reported from this subreddit.
    *
+   * @param options The options for the listing.
+   *
    * @returns A listing of items that have been reported.
    */
-  getReported(): Listing<Post | Comment> {
-    return this.controls.getReported(this.displayName);
+  getReported(options: ListingOptions = {}): Listing<Post | Comment> {
+    return this.controls.getReported(this.displayName, options);
   }
 
   /**
    * Get the list of comments that have been reported from this subreddit.
    *
+   * @param options The options for the listing.
+   *
    * @returns A listing of comments that have been reported.
    */
-  getReportedComments(): Listing<Comment> {
-    return this.controls.getReportedComments(this.displayName);
+  getReportedComments(options: ListingOptions = {}): Listing<Comment> {
+    return this.controls.getReportedComments(this.displayName, options);
   }
 
   /**
    * Get the list of posts that have been reported from this subreddit.
    *
+   * @param options The options for the listing.
+   *
    * @returns A listing of posts that have been reported.
    */
-  getReportedPosts(): Listing<Post> {
-    return this.controls.getReportedPosts(this.displayName);
+  getReportedPosts(options: ListingOptions = {}): Listing<Post> {
+    return this.controls.getReportedPosts(this.displayName, options);
   }
 
   /**
    * Get the list of items that have not been moderated from this subreddit.
    *
+   * @param options The options for the listing.
+   *
    * @returns A listing of items that have not been moderated.
    */
-  getUnmoderated(): Listing<Post | Comment> {
-    return this.controls.getUnmoderated(this.displayName);
+  getUnmoderated(options: ListingOptions = {}): Listing<Post | Comment> {
+    return this.controls.getUnmoderated(this.displayName, options);
   }
 
   /**
    * Get the list of comments that have not been moderated from this subreddit.
    *
+   * @param options The options for the listing.
+   *
    * @returns A listing of comments that have not been moderated.
    */
-  getUnmoderatedComments(): Listing<Comment> {
-    return this.controls.getUnmoderatedComments(this.displayName);
+  getUnmoderatedComments(options: ListingOptions = {}): Listing<Comment> {
+    return this.controls.getUnmoderatedComments(this.displayName, options);
   }
 
   /**
    * Get the list of posts that have not been moderated from this subreddit.
    *
+   * @param options The options for the listing.
+   *
    * @returns A listing of posts that have not been moderated.
    */
-  getUnmoderatedPosts(): Listing<Post> {
-    return this.controls.getUnmoderatedPosts(this.displayName);
+  getUnmoderatedPosts(options: ListingOptions = {}): Listing<Post> {
+    return this.controls.getUnmoderatedPosts(this.displayName, options);
   }
 
   /**
    * Get the list of items that are in the modqueue of this subreddit.
    *
+   * @param options The options for the listing.
+   *
    * @returns A listing of items that are in the modqueue.
    */
-  getModqueue(): Listing<Post | Comment> {
-    return this.controls.getModqueue(this.displayName);
+  getModqueue(options: ListingOptions = {}): Listing<Post | Comment> {
+    return this.controls.getModqueue(this.displayName, options);
   }
 
   /**
    * Get the list of comments that are in the modqueue of this subreddit.
    *
+   * @param options The options for the listing.
+   *
    * @returns A listing of comments that are in the modqueue.
    */
-  getModqueueComments(): Listing<Comment> {
-    return this.controls.getModqueueComments(this.displayName);
+  getModqueueComments(options: ListingOptions = {}): Listing<Comment> {
+    return this.controls.getModqueueComments(this.displayName, options);
   }
 
   /**
    * Get the list of posts that are in the modqueue of this subreddit.
    *
+   * @param options The options for the listing.
+   *
    * @returns A listing of posts that are in the modqueue.
    */
-  getModqueuePosts(): Listing<Post> {
-    return this.controls.getModqueuePosts(this.displayName);
+  getModqueuePosts(options: ListingOptions = {}): Listing<Post> {
+    return this.controls.getModqueuePosts(this.displayName, options);
   }
 
   /**
@@ -747,19 +791,29 @@ export class Subreddit extends Content implements SubredditData {
    * Search in this subreddit.
    *
    * @param query The search query.
-   * @param time The time range to search in.
+   * @param time The time range to search in. Defaults to `options.time`, or
+   * `"all"` if that isn't set either.
    * @param sort The way to sort the search results.
    * @param syntax The search syntax to use.
+   * @param options The options for the listing.
    *
    * @returns A listing of posts.
    */
   search(
     query: string,
-    time: TimeRange = "all",
+    time?: TimeRange,
     sort: SearchSort = "relevance",
-    syntax: SearchSyntax = "plain"
+    syntax: SearchSyntax = "plain",
+    options: ListingOptions = {}
   ): Listing<Post> {
-    return this.controls.search(this.displayName, query, time, sort, syntax);
+    return this.controls.search(
+      this.displayName,
+      query,
+      time,
+      sort,
+      syntax,
+      options
+    );
   }
 
   /**
@@ -769,11 +823,15 @@ export class Subreddit extends Content implements SubredditData {
    * first 1000 posts.
    *
    * @param sort How to sort the comments.
+   * @param options The options for the listing.
    *
    * @returns A sorted Listing of comments.
    */
-  getSortedComments(sort: "new" = "new"): Listing<Comment> {
-    return this.controls.getSortedComments(this.displayName, sort);
+  getSortedComments(
+    sort: "new" = "new",
+    options: ListingOptions = {}
+  ): Listing<Comment> {
+    return this.controls.getSortedComments(this.displayName, sort, options);
   }
 
   /**
@@ -878,10 +936,14 @@ export class Subreddit extends Content implements SubredditData {
    * @note Due to the way Reddit implements Listings, this will only contain the
    * first 1000 contributors.
    *
+   * @param options The options for the listing.
+   *
    * @returns A listing of approved contributors.
    */
-  getContributors(): Listing<ModeratorActionedUser> {
-    return this.controls.getContributors(this.displayName);
+  getContributors(
+    options: ListingOptions = {}
+  ): Listing<ModeratorActionedUser> {
+    return this.controls.getContributors(this.displayName, options);
   }
 
   /**
@@ -912,10 +974,14 @@ export class Subreddit extends Content implements SubredditData {
    * @note Due to the way Reddit implements Listings, this will only contain the
    * first 1000 wiki contributors.
    *
+   * @param options The options for the listing.
+   *
    * @returns A listing of approved wiki contributors.
    */
-  getWikiContributors(): Listing<ModeratorActionedUser> {
-    return this.controls.getWikiContributors(this.displayName);
+  getWikiContributors(
+    options: ListingOptions = {}
+  ): Listing<ModeratorActionedUser> {
+    return this.controls.getWikiContributors(this.displayName, options);
   }
 
   /**
@@ -944,10 +1010,12 @@ export class Subreddit extends Content implements SubredditData {
    * @note Due to the way Reddit implements Listings, this will only contain the
    * first 1000 muted users.
    *
+   * @param options The options for the listing.
+   *
    * @returns A listing of muted users.
    */
-  getMutedUsers(): Listing<ModeratorActionedUser> {
-    return this.controls.getMutedUsers(this.displayName);
+  getMutedUsers(options: ListingOptions = {}): Listing<ModeratorActionedUser> {
+    return this.controls.getMutedUsers(this.displayName, options);
   }
 
   /**
@@ -974,10 +1042,12 @@ export class Subreddit extends Content implements SubredditData {
    * @note Due to the way Reddit implements Listings, this will only contain the
    * first 1000 wikibanned users.
    *
+   * @param options The options for the listing.
+   *
    * @returns A listing of wikibanned users.
    */
-  getWikibannedUsers(): Listing<BannedUser> {
-    return this.controls.getWikibannedUsers(this.displayName);
+  getWikibannedUsers(options: ListingOptions = {}): Listing<BannedUser> {
+    return this.controls.getWikibannedUsers(this.displayName, options);
   }
 
   /**
@@ -1021,9 +1091,11 @@ export class Subreddit extends Content implements SubredditData {
    * @note Due to the way Reddit implements Listings, this will only contain the
    * first 1000 banned users.
    *
+   * @param options The options for the listing.
+   *
    * @returns A listing of banned users.
    */
-  getBannedUsers(): Listing<BannedUser> {
-    return this.controls.getBannedUsers(this.displayName);
+  getBannedUsers(options: ListingOptions = {}): Listing<BannedUser> {
+    return this.controls.getBannedUsers(this.displayName, options);
   }
 }
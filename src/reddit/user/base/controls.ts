@@ -1,6 +1,8 @@
 import type { Client } from "../../../client";
+import type { RequestOptions } from "../../../gateway/abort";
 import type { Comment } from "../../comment/object";
 import type { Listing } from "../../listing/listing";
+import type { ListingOptions } from "../../listing/options";
 import type { Post } from "../../post/object";
 import type { PostSort } from "../../post/types";
 import type { Subreddit } from "../../subreddit/object";
@@ -12,8 +14,10 @@ import type { User, UserData } from "./object";
 
 import { BaseControls } from "../../base-controls";
 import { CommentListing } from "../../comment/listing/listing";
+import { listingContext } from "../../listing/options";
 import { fakeListingAfter } from "../../listing/util";
 import { PostListing } from "../../post/listing";
+import { scopes } from "../../scopes";
 import { assertKind, fromRedditData } from "../../util";
 import { MyUser } from "../my-user/object";
 import { OtherUser } from "../other-user/object";
@@ -33,11 +37,16 @@ export class BaseUserControls extends BaseControls {
    * Fetch a user's subreddit.
    *
    * @param username The user who's subreddit to fetch.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves to the user's subreddit.
    */
-  async fetchSubreddit(username: string): Promise<Subreddit> {
-    return this.client.subreddits.fetch(`u_${username}`);
+  @scopes("read")
+  async fetchSubreddit(
+    username: string,
+    options: RequestOptions = {}
+  ): Promise<Subreddit> {
+    return this.client.subreddits.fetch(`u_${username}`, options);
   }
 
   /**
@@ -45,12 +54,18 @@ export class BaseUserControls extends BaseControls {
    *
    * @param username The user to get posts from.
    * @param sort How to sort the posts.
+   * @param options The options for the listing.
    *
    * @returns A sorted Listing of posts.
    */
-  getPosts(username: string, sort: PostSort = "new"): Listing<Post> {
-    const request = { url: `user/${username}/submitted`, query: { sort } };
-    const context = { request, client: this.client };
+  @scopes("history")
+  getPosts(
+    username: string,
+    sort: PostSort = "new",
+    options: ListingOptions = {}
+  ): Listing<Post> {
+    const url = `user/${username}/submitted`;
+    const context = listingContext(this.client, url, { sort }, options);
     return new PostListing(fakeListingAfter(""), context);
   }
 
@@ -59,15 +74,18 @@ export class BaseUserControls extends BaseControls {
    *
    * @param username The user to get comments from.
    * @param sort How to sort the comments.
+   * @param options The options for the listing.
    *
    * @returns A sorted Listing of comments.
    */
+  @scopes("history")
   getSortedComments(
     username: string,
-    sort: UserItemsSort = "new"
+    sort: UserItemsSort = "new",
+    options: ListingOptions = {}
   ): Listing<Comment> {
-    const request = { url: `user/${username}/comments`, query: { sort } };
-    const context = { request, client: this.client };
+    const url = `user/${username}/comments`;
+    const context = listingContext(this.client, url, { sort }, options);
     return new CommentListing(fakeListingAfter(""), context);
   }
 
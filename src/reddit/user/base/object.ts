@@ -1,6 +1,7 @@
 import type { Comment } from "../../comment/object";
 import type { ContentData } from "../../content";
 import type { Listing } from "../../listing/listing";
+import type { ListingOptions } from "../../listing/options";
 import type { Post } from "../../post/object";
 import type { PostSort } from "../../post/types";
 import type { Subreddit } from "../../subreddit/object";
@@ -145,21 +146,29 @@ export abstract class User extends Content implements UserData {
    * Get a Listing of all the posts this user has made.
    *
    * @param sort How to sort the posts.
+   * @param options The options for the listing.
    *
    * @returns A sorted Listing of posts.
    */
-  getPosts(sort: PostSort = "new"): Listing<Post> {
-    return this.controls.getPosts(this.name, sort);
+  getPosts(
+    sort: PostSort = "new",
+    options: ListingOptions = {}
+  ): Listing<Post> {
+    return this.controls.getPosts(this.name, sort, options);
   }
 
   /**
    * Get a Listing of all the comments this user has made.
    *
    * @param sort How to sort the comments.
+   * @param options The options for the listing.
    *
    * @returns A sorted Listing of comments.
    */
-  getSortedComments(sort: UserItemsSort = "new"): Listing<Comment> {
-    return this.controls.getSortedComments(this.name, sort);
+  getSortedComments(
+    sort: UserItemsSort = "new",
+    options: ListingOptions = {}
+  ): Listing<Comment> {
+    return this.controls.getSortedComments(this.name, sort, options);
   }
 }
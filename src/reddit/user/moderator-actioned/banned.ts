@@ -1,11 +1,13 @@
+import type { RequestOptions } from "../../../gateway/abort";
 import type {
   Fetcher,
   ListingContext,
+  ListingType,
   RedditObjectListing,
 } from "../../listing/listing";
 import type { ModeratorActionedUserData } from "./base";
 
-import { Listing, Pager } from "../../listing/listing";
+import { continueFrom, Listing, Pager } from "../../listing/listing";
 import { fromRedditData } from "../../util";
 import { ModeratorActionedUser } from "./base";
 
@@ -36,19 +38,26 @@ export class BannedUser
 
 // #region listing
 class BannedUserPager extends Pager<BannedUser> {
-  async fetch(context: ListingContext): Promise<BannedUserListing> {
-    const pg = await this.nextPage(context);
+  async fetch(
+    context: ListingContext,
+    options: RequestOptions = {},
+    seen = 0
+  ): Promise<BannedUserListing> {
+    const pg = await this.nextPage(context, options, seen);
     return new BannedUserListing(pg, context);
   }
 }
 
 /** @internal */
 export class BannedUserListing extends Listing<BannedUser> {
+  protected override type: ListingType = "bannedUsers";
+
   constructor(l: RedditObjectListing, context: ListingContext) {
     let fetcher: Fetcher<BannedUser> | undefined;
 
-    if (l.after != undefined) {
-      fetcher = new BannedUserPager(l.after);
+    const from = continueFrom(l, context);
+    if (from != undefined) {
+      fetcher = new BannedUserPager(from, context.backward);
     }
 
     const users: BannedUser[] = [];
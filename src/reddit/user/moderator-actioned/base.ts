@@ -1,10 +1,12 @@
+import type { RequestOptions } from "../../../gateway/abort";
 import type {
   Fetcher,
   ListingContext,
+  ListingType,
   RedditObjectListing,
 } from "../../listing/listing";
 
-import { Listing, Pager } from "../../listing/listing";
+import { continueFrom, Listing, Pager } from "../../listing/listing";
 import { fromRedditData } from "../../util";
 
 /** The data specific to a ModeratorActionedUser. */
@@ -38,19 +40,26 @@ export class ModeratorActionedUser implements ModeratorActionedUserData {
 
 // #region listing
 class ModeratorActionedUserPager extends Pager<ModeratorActionedUser> {
-  async fetch(context: ListingContext): Promise<ModeratorActionedUserListing> {
-    const pg = await this.nextPage(context);
+  async fetch(
+    context: ListingContext,
+    options: RequestOptions = {},
+    seen = 0
+  ): Promise<ModeratorActionedUserListing> {
+    const pg = await this.nextPage(context, options, seen);
     return new ModeratorActionedUserListing(pg, context);
   }
 }
 
 /** @internal */
 export class ModeratorActionedUserListing extends Listing<ModeratorActionedUser> {
+  protected override type: ListingType = "moderatorActionedUsers";
+
   constructor(l: RedditObjectListing, context: ListingContext) {
     let fetcher: Fetcher<ModeratorActionedUser> | undefined;
 
-    if (l.after != undefined) {
-      fetcher = new ModeratorActionedUserPager(l.after);
+    const from = continueFrom(l, context);
+    if (from != undefined) {
+      fetcher = new ModeratorActionedUserPager(from, context.backward);
     }
 
     const users: ModeratorActionedUser[] = [];
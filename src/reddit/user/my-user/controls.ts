@@ -1,9 +1,15 @@
+import type { RequestOptions } from "../../../gateway/abort";
 import type { Data } from "../../../helper/types";
 import type { Listing } from "../../listing/listing";
+import type { ListingOptions } from "../../listing/options";
 import type { Subreddit } from "../../subreddit/object";
 import type { RedditObject } from "../../types";
 import type { MyUser } from "./object";
 
+import { listingContext } from "../../listing/options";
+import { fakeListingAfter } from "../../listing/util";
+import { scopes } from "../../scopes";
+import { SubredditListing } from "../../subreddit/listing";
 import { BaseUserControls } from "../base/controls";
 
 /**
@@ -15,18 +21,31 @@ export class MyUserControls extends BaseUserControls {
   /**
    * Fetch the details of the authorized user.
    *
+   * @param options The options to cancel the request with.
+   *
    * @returns The user.
    */
-  async fetch(): Promise<MyUser> {
-    const userData: Data = await this.gateway.get("api/v1/me");
+  @scopes("identity")
+  async fetch(options: RequestOptions = {}): Promise<MyUser> {
+    const userData: Data = await this.gateway.get("api/v1/me", {}, options);
     // /me doesn't return a wrapped object, so we have to make it ourselves.
     const raw: RedditObject = { kind: "t2", data: userData };
     return this.client.users.fromRaw(raw) as MyUser;
   }
 
   /** @internal */
-  protected getMySubreddits(where: string): Listing<Subreddit> {
-    return this.client.subreddits["getSubreddits"](`mine/${where}`);
+  protected getMySubreddits(
+    where: string,
+    options: ListingOptions = {}
+  ): Listing<Subreddit> {
+    const context = listingContext(
+      this.client,
+      `subreddits/mine/${where}`,
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      { show: "all", sr_detail: true },
+      options
+    );
+    return new SubredditListing(fakeListingAfter(""), context);
   }
 
   /**
@@ -35,10 +54,13 @@ export class MyUserControls extends BaseUserControls {
    * @note Due to the way Reddit implements Listings, this will only contain the
    * first 1000 subreddits.
    *
+   * @param options The options for the listing.
+   *
    * @returns A Listing of Subreddits.
    */
-  getContributorSubreddits(): Listing<Subreddit> {
-    return this.getMySubreddits("contributor");
+  @scopes("mysubreddits")
+  getContributorSubreddits(options: ListingOptions = {}): Listing<Subreddit> {
+    return this.getMySubreddits("contributor", options);
   }
 
   /**
@@ -47,10 +69,13 @@ export class MyUserControls extends BaseUserControls {
    * @note Due to the way Reddit implements Listings, this will only contain the
    * first 1000 subreddits.
    *
+   * @param options The options for the listing.
+   *
    * @returns A Listing of Subreddits.
    */
-  getModeratedSubreddits(): Listing<Subreddit> {
-    return this.getMySubreddits("moderator");
+  @scopes("mysubreddits")
+  getModeratedSubreddits(options: ListingOptions = {}): Listing<Subreddit> {
+    return this.getMySubreddits("moderator", options);
   }
 
   /**
@@ -59,9 +84,12 @@ export class MyUserControls extends BaseUserControls {
    * @note Due to the way Reddit implements Listings, this will only contain the
    * first 1000 subreddits.
    *
+   * @param options The options for the listing.
+   *
    * @returns A Listing of Subreddits.
    */
-  getSubscribedSubreddits(): Listing<Subreddit> {
-    return this.getMySubreddits("subscriber");
+  @scopes("mysubreddits")
+  getSubscribedSubreddits(options: ListingOptions = {}): Listing<Subreddit> {
+    return this.getMySubreddits("subscriber", options);
   }
 }
@@ -1,6 +1,8 @@
+import type { RequestOptions } from "../../../gateway/abort";
 import type { RedditObject } from "../../types";
 import type { User } from "../base/object";
 
+import { scopes } from "../../scopes";
 import { BaseUserControls } from "../base/controls";
 
 /**
@@ -17,11 +19,17 @@ export class UserControls extends BaseUserControls {
    * {@link OtherUser}. To tell dynamically you can use {@link User.isMe}.
    *
    * @param username The name of the user to fetch.
+   * @param options The options to cancel the request with.
    *
    * @returns The user.
    */
-  async fetch(username: string): Promise<User> {
-    const raw: RedditObject = await this.gateway.get(`user/${username}/about`);
+  @scopes("read")
+  async fetch(username: string, options: RequestOptions = {}): Promise<User> {
+    const raw: RedditObject = await this.gateway.get(
+      `user/${username}/about`,
+      {},
+      options
+    );
     return this.fromRaw(raw);
   }
 
@@ -29,10 +37,19 @@ export class UserControls extends BaseUserControls {
    * Check whether whether or not a username is available.
    *
    * @param username The username to check.
+   * @param options The options to cancel the request with.
    *
    * @returns Whether or not the username is available.
    */
-  async isUsernameAvailable(username: string): Promise<boolean> {
-    return this.gateway.get("api/username_available", { user: username });
+  @scopes()
+  async isUsernameAvailable(
+    username: string,
+    options: RequestOptions = {}
+  ): Promise<boolean> {
+    return this.gateway.get(
+      "api/username_available",
+      { user: username },
+      options
+    );
   }
 }
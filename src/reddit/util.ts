@@ -3,14 +3,7 @@ import type { RedditObject } from "./types";
 
 import camelCase from "camelcase";
 
-/**
- * An invalid kind of object
- */
-export class InvalidKindError extends Error {
-  constructor(expected: string, got: string) {
-    super(`Expected '${expected}', got '${got}'`);
-  }
-}
+import { InvalidKindError } from "../errors";
 
 /**
  * Ensure that a RedditObject is of the correct type.
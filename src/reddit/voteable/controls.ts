@@ -1,9 +1,12 @@
 import type { Client } from "../../client";
+import type { RequestOptions } from "../../gateway/abort";
 import type { Data } from "../../helper/types";
 import type { Comment } from "../comment/object";
 import type { RedditObject } from "../types";
 
+import { UnexpectedResponseError } from "../../errors";
 import { ReplyableControls } from "../replyable/controls";
+import { scopes } from "../scopes";
 
 /** The base controls for all content that you can vote on. */
 export abstract class VoteableControls extends ReplyableControls {
@@ -17,34 +20,49 @@ export abstract class VoteableControls extends ReplyableControls {
    *
    * @param id The id of the item.
    * @param enabled Whether or not replies should be enabled.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the change has been made.
    */
-  protected async inboxReplies(id: string, enabled: boolean): Promise<void> {
+  protected async inboxReplies(
+    id: string,
+    enabled: boolean,
+    options: RequestOptions = {}
+  ): Promise<void> {
     const request = { id: this.namespace(id), state: enabled };
-    await this.gateway.post("api/sendreplies", request);
+    await this.gateway.post("api/sendreplies", request, {}, options);
   }
 
   /**
    * Enable inbox replies for an item.
    *
    * @param id The id of the item.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when replies have been enabled.
    */
-  async enableInboxReplies(id: string): Promise<void> {
-    await this.inboxReplies(id, true);
+  @scopes("edit")
+  async enableInboxReplies(
+    id: string,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    await this.inboxReplies(id, true, options);
   }
 
   /**
    * Disable inbox replies for an item.
    *
    * @param id The id of the item.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when replies have been disabled.
    */
-  async disableInboxReplies(id: string): Promise<void> {
-    await this.inboxReplies(id, false);
+  @scopes("edit")
+  async disableInboxReplies(
+    id: string,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    await this.inboxReplies(id, false, options);
   }
 
   /**
@@ -52,47 +70,63 @@ export abstract class VoteableControls extends ReplyableControls {
    *
    * @param id The ID of the item to vote on.
    * @param vote The vote to cast. 1 = upvote, 0 = no vote, -1 = downvote.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the vote has been cast.
    */
-  protected async vote(id: string, vote: 1 | 0 | -1): Promise<void> {
-    await this.gateway.post("api/vote", {
-      id: this.namespace(id),
-      dir: vote,
-    });
+  protected async vote(
+    id: string,
+    vote: 1 | 0 | -1,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    await this.gateway.post(
+      "api/vote",
+      {
+        id: this.namespace(id),
+        dir: vote,
+      },
+      {},
+      options
+    );
   }
 
   /**
    * Cast an upvote.
    *
    * @param id The ID of the item to upvote.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the vote has been cast.
    */
-  async upvote(id: string): Promise<void> {
-    await this.vote(id, 1);
+  @scopes("vote")
+  async upvote(id: string, options: RequestOptions = {}): Promise<void> {
+    await this.vote(id, 1, options);
   }
 
   /**
    * Remove your vote.
    *
    * @param id The ID of the item to unvote.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the vote has been removed.
    */
-  async unvote(id: string): Promise<void> {
-    await this.vote(id, 0);
+  @scopes("vote")
+  async unvote(id: string, options: RequestOptions = {}): Promise<void> {
+    await this.vote(id, 0, options);
   }
 
   /**
    * Cast a downvote.
    *
    * @param id The ID of the item to downvote.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the vote has been cast.
    */
-  async downvote(id: string): Promise<void> {
-    await this.vote(id, -1);
+  @scopes("vote")
+  async downvote(id: string, options: RequestOptions = {}): Promise<void> {
+    await this.vote(id, -1, options);
   }
 
   /**
@@ -100,13 +134,21 @@ export abstract class VoteableControls extends ReplyableControls {
    *
    * @param id The ID of the item to reply to.
    * @param text The text content of the reply to post.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves to the comment reply.
    */
-  async reply(id: string, text: string): Promise<Comment> {
-    const rawResponse: Data = await this.replyImpl(id, text);
+  @scopes("submit")
+  async reply(
+    id: string,
+    text: string,
+    options: RequestOptions = {}
+  ): Promise<Comment> {
+    const rawResponse: Data = await this.replyImpl(id, text, options);
     const replyComment = (rawResponse.things as RedditObject[])[0];
-    if (!replyComment) throw "oh yeah that's definitely not good.";
+    if (!replyComment) {
+      throw new UnexpectedResponseError("Reddit did not return the new reply");
+    }
     return this.client.comments.fromRaw(replyComment);
   }
 
@@ -116,11 +158,18 @@ export abstract class VoteableControls extends ReplyableControls {
    * This will make the item show up at reddit.com/saved.
    *
    * @param id The ID of the item to save.
+   * @param options The options to cancel the request with.
    *
    * @returns a promise that resolves when the item has been saved.
    */
-  async save(id: string): Promise<void> {
-    await this.gateway.post("api/save", { id: this.namespace(id) });
+  @scopes("save")
+  async save(id: string, options: RequestOptions = {}): Promise<void> {
+    await this.gateway.post(
+      "api/save",
+      { id: this.namespace(id) },
+      {},
+      options
+    );
   }
 
   /**
@@ -129,11 +178,18 @@ export abstract class VoteableControls extends ReplyableControls {
    * This will make the item no longer show up at reddit.com/saved.
    *
    * @param id The ID of the item to unsave.
+   * @param options The options to cancel the request with.
    *
    * @returns a promise that resolves when the item has been unsaved.
    */
-  async unsave(id: string): Promise<void> {
-    await this.gateway.post("api/unsave", { id: this.namespace(id) });
+  @scopes("save")
+  async unsave(id: string, options: RequestOptions = {}): Promise<void> {
+    await this.gateway.post(
+      "api/unsave",
+      { id: this.namespace(id) },
+      {},
+      options
+    );
   }
 
   /**
@@ -141,24 +197,32 @@ export abstract class VoteableControls extends ReplyableControls {
    *
    * @param id The ID of the item to edit.
    * @param newText The new text to use.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the edit is complete.
    */
-  async edit(id: string, newText: string): Promise<void> {
+  @scopes("edit")
+  async edit(
+    id: string,
+    newText: string,
+    options: RequestOptions = {}
+  ): Promise<void> {
     // eslint-disable-next-line @typescript-eslint/naming-convention
     const body = { thing_id: this.namespace(id), text: newText };
-    await this.gateway.post("api/editusertext", body);
+    await this.gateway.post("api/editusertext", body, {}, options);
   }
 
   /**
    * Delete an item.
    *
    * @param id The ID of the item to delete.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the item has been deleted.
    */
-  async delete(id: string): Promise<void> {
-    await this.gateway.post("api/del", { id: this.namespace(id) });
+  @scopes("edit")
+  async delete(id: string, options: RequestOptions = {}): Promise<void> {
+    await this.gateway.post("api/del", { id: this.namespace(id) }, {}, options);
   }
 
   /**
@@ -168,11 +232,18 @@ export abstract class VoteableControls extends ReplyableControls {
    * subreddit with the `posts` permission.
    *
    * @param id The ID of the item to approve.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the item has been approved.
    */
-  async approve(id: string): Promise<void> {
-    await this.gateway.post("api/approve", { id: this.namespace(id) });
+  @scopes("modposts")
+  async approve(id: string, options: RequestOptions = {}): Promise<void> {
+    await this.gateway.post(
+      "api/approve",
+      { id: this.namespace(id) },
+      {},
+      options
+    );
   }
 
   /**
@@ -183,14 +254,25 @@ export abstract class VoteableControls extends ReplyableControls {
    *
    * @param id The ID of the item to remove.
    * @param spam Whether or not to mark this item as spam. Defaults to false.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the item has been removed.
    */
-  async remove(id: string, spam: boolean = false): Promise<void> {
-    await this.gateway.post("api/remove", {
-      id: this.namespace(id),
-      spam,
-    });
+  @scopes("modposts")
+  async remove(
+    id: string,
+    spam: boolean = false,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    await this.gateway.post(
+      "api/remove",
+      {
+        id: this.namespace(id),
+        spam,
+      },
+      {},
+      options
+    );
   }
 
   /**
@@ -200,13 +282,23 @@ export abstract class VoteableControls extends ReplyableControls {
    * subreddit with the `posts` permission.
    *
    * @param id The ID of the item to ignore reports for.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the setting has been changed.
    */
-  async ignoreFutureReports(id: string): Promise<void> {
-    await this.gateway.post("api/ignore_reports", {
-      id: this.namespace(id),
-    });
+  @scopes("modposts")
+  async ignoreFutureReports(
+    id: string,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    await this.gateway.post(
+      "api/ignore_reports",
+      {
+        id: this.namespace(id),
+      },
+      {},
+      options
+    );
   }
 
   /**
@@ -216,23 +308,40 @@ export abstract class VoteableControls extends ReplyableControls {
    * subreddit with the `posts` permission.
    *
    * @param id The ID of the item to unignore reports for.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the setting has been changed.
    */
-  async unignoreFutureReports(id: string): Promise<void> {
-    await this.gateway.post("api/unignore_reports", {
-      id: this.namespace(id),
-    });
+  @scopes("modposts")
+  async unignoreFutureReports(
+    id: string,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    await this.gateway.post(
+      "api/unignore_reports",
+      {
+        id: this.namespace(id),
+      },
+      {},
+      options
+    );
   }
 
   /**
    * Give Reddit gold to the author of an item.
    *
    * @param id The ID of the item to gild.
+   * @param options The options to cancel the request with.
    *
    * @returns A promise that resolves when the item has been gilded.
    */
-  async gild(id: string): Promise<void> {
-    await this.gateway.post(`api/v1/gold/gild/${this.namespace(id)}`, {});
+  @scopes("creddits")
+  async gild(id: string, options: RequestOptions = {}): Promise<void> {
+    await this.gateway.post(
+      `api/v1/gold/gild/${this.namespace(id)}`,
+      {},
+      {},
+      options
+    );
   }
 }